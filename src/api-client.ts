@@ -3,6 +3,13 @@
  * HTTP client for communicating with the ThinkPrompt API
  */
 
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+import { delay } from './async-utils.js';
+import { createApiError, NetworkError, TimeoutError } from './errors.js';
+import { ResponseCache } from './response-cache.js';
+import type { CacheStats, ResponseCacheOptions } from './response-cache.js';
+
 export interface Workspace {
   id: string;
   name: string;
@@ -132,6 +139,35 @@ export interface PaginatedResponse<T> {
   };
 }
 
+export interface PaginateOptions {
+  /** Page size requested from the API (default: 100) */
+  pageSize?: number;
+  /** Stop after this many items */
+  maxItems?: number;
+}
+
+export interface CollectedPages<T> {
+  data: T[];
+  meta: {
+    total: number | null;
+    returned: number;
+    pagesFetched: number;
+    truncated: boolean;
+  };
+}
+
+/**
+ * Normalize a list response: some endpoints wrap the paginated body in a second `{ data }` envelope
+ */
+export function unwrapPage<T>(result: PaginatedResponse<T> | T[]): { data: T[]; meta: PaginatedResponse<T>['meta'] | null } {
+  if (Array.isArray(result)) return { data: result, meta: null };
+  const outer = result as { data?: unknown; meta?: PaginatedResponse<T>['meta'] } | null | undefined;
+  if (Array.isArray(outer?.data)) return { data: outer.data as T[], meta: outer.meta ?? null };
+  const inner = outer?.data as { data?: unknown; meta?: PaginatedResponse<T>['meta'] } | undefined;
+  if (Array.isArray(inner?.data)) return { data: inner.data as T[], meta: inner.meta ?? null };
+  return { data: [], meta: null };
+}
+
 // ============ Project Management Types ============
 
 export interface ProjectLink {
@@ -815,15 +851,174 @@ export interface ListRequirementsQuery {
   sortOrder?: 'asc' | 'desc';
 }
 
+// ============ Request Policy Types ============
+
+export interface RetryPolicy {
+  /** Retries after the first attempt (0 disables retrying) */
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  retryOnStatuses: number[];
+}
+
+export interface ApiClientOptions {
+  /** Per-attempt timeout in milliseconds (0 disables the timeout) */
+  timeoutMs?: number;
+  retry?: Partial<RetryPolicy>;
+  /** GET response cache settings (`ttlMs: 0` disables caching) */
+  cache?: ResponseCacheOptions;
+}
+
+export interface RequestOptions extends RequestInit {
+  timeoutMs?: number;
+  /** Makes POST/PATCH requests retryable; sent as the Idempotency-Key header */
+  idempotencyKey?: string;
+  /** Set to false for GET requests whose result must always be fresh (e.g. polling) */
+  cache?: boolean;
+}
+
+export interface MutationEvent {
+  method: string;
+  endpoint: string;
+  /** Parsed response body, if any */
+  data: unknown;
+}
+
+export type MutationListener = (event: MutationEvent) => void;
+
+interface RequestContext {
+  signal?: AbortSignal;
+  /** Skip cache lookups but still store the fresh responses */
+  bypassCache?: boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 300,
+  maxDelayMs: 10_000,
+  retryOnStatuses: [429, 502, 503, 504],
+};
+
+export const DEFAULT_REQUEST_TIMEOUT_MS = 30_000;
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+// Mutating one collection also invalidates the collections that embed its entities
+const RELATED_CACHE_COLLECTIONS: Record<string, string[]> = {
+  requirements: ['projects'],
+  'acceptance-criteria': ['requirements', 'projects'],
+  preconditions: ['requirements', 'projects'],
+  'verification-tests': ['requirements', 'projects'],
+  'requirement-links': ['requirements'],
+  'requirement-comments': ['requirements'],
+  documents: ['document-folders'],
+  'document-folders': ['documents'],
+  tags: ['style-guides', 'templates', 'workflows', 'documents', 'requirements'],
+};
+
+/**
+ * First path segment of an endpoint, e.g. `/requirements/abc/comments?x=1` → `requirements`
+ */
+function endpointCollection(endpoint: string): string {
+  return endpoint.split('?')[0].split('/').filter(Boolean)[0] ?? '';
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  const ms = Number.isNaN(seconds) ? Date.parse(header) - Date.now() : seconds * 1000;
+  return Number.isNaN(ms) ? null : Math.max(ms, 0);
+}
+
 export class ThinkPromptApiClient {
   private readonly baseUrl: string;
   private readonly apiKey: string;
+  private readonly timeoutMs: number;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly requestContext = new AsyncLocalStorage<RequestContext>();
+  private readonly mutationListeners = new Set<MutationListener>();
+  private readonly cache: ResponseCache;
   private currentWorkspaceId: string | null = null;
   private workspaces: Workspace[] = [];
 
-  constructor(baseUrl: string, apiKey: string) {
+  constructor(baseUrl: string, apiKey: string, options: ApiClientOptions = {}) {
     this.baseUrl = baseUrl.replace(/\/$/, '');
     this.apiKey = apiKey;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+    this.cache = new ResponseCache(options.cache);
+  }
+
+  /**
+   * Run `fn` so that every request it makes is aborted when `signal` fires (e.g. MCP request cancellation)
+   */
+  withAbortSignal<T>(signal: AbortSignal | undefined, fn: () => Promise<T>): Promise<T> {
+    return this.requestContext.run({ ...this.requestContext.getStore(), signal }, fn);
+  }
+
+  /**
+   * Run `fn` with every GET request going to the API instead of the cache; responses still refresh the cache
+   */
+  withFreshResponses<T>(fn: () => Promise<T>): Promise<T> {
+    return this.requestContext.run({ ...this.requestContext.getStore(), bypassCache: true }, fn);
+  }
+
+  /**
+   * Register a listener called after every successful non-GET request. Returns a function that removes it.
+   */
+  onMutation(listener: MutationListener): () => void {
+    this.mutationListeners.add(listener);
+    return () => this.mutationListeners.delete(listener);
+  }
+
+  /**
+   * Iterate over every item of a paginated list endpoint, fetching pages lazily
+   */
+  async *paginate<T, P extends { page?: number; limit?: number }>(
+    list: (params: P) => Promise<PaginatedResponse<T>>,
+    params: P,
+    options: PaginateOptions = {},
+  ): AsyncGenerator<T, void, undefined> {
+    const { pageSize = 100, maxItems = Infinity } = options;
+    let yielded = 0;
+    for (let page = 1; ; page++) {
+      const { data, meta } = unwrapPage(await list({ ...params, page, limit: pageSize }));
+      for (const item of data) {
+        if (yielded >= maxItems) return;
+        yield item;
+        yielded++;
+      }
+      const lastPage = meta ? page >= meta.totalPages : data.length < pageSize;
+      if (lastPage || data.length === 0) return;
+    }
+  }
+
+  /**
+   * Collect a paginated list endpoint into one response, up to `maxItems`
+   */
+  async collectAll<T, P extends { page?: number; limit?: number }>(
+    list: (params: P) => Promise<PaginatedResponse<T>>,
+    params: P,
+    options: PaginateOptions = {},
+  ): Promise<CollectedPages<T>> {
+    const { pageSize = 100, maxItems = Infinity } = options;
+    let total: number | null = null;
+    let pagesFetched = 0;
+    const countingList = async (pageParams: P) => {
+      const result = await list(pageParams);
+      pagesFetched++;
+      total = unwrapPage(result).meta?.total ?? total;
+      return result;
+    };
+    const data: T[] = [];
+    for await (const item of this.paginate(countingList, params, { pageSize, maxItems })) {
+      data.push(item);
+    }
+    const truncated = total !== null ? data.length < total : data.length >= maxItems;
+    return { data, meta: { total, returned: data.length, pagesFetched, truncated } };
   }
 
   /**
@@ -840,6 +1035,39 @@ export class ThinkPromptApiClient {
     return this.currentWorkspaceId;
   }
 
+  /**
+   * Hit/miss counters and size of the GET response cache
+   */
+  getCacheStats(): CacheStats {
+    return this.cache.stats();
+  }
+
+  /**
+   * Drop cached responses — for one workspace, or all of them when no ID is given
+   */
+  invalidateCache(workspaceId?: string | null): void {
+    if (workspaceId === undefined) {
+      this.cache.clear();
+      return;
+    }
+    const prefix = `${workspaceId ?? ''}|`;
+    this.cache.invalidate((key) => key.startsWith(prefix));
+  }
+
+  private cacheKey(endpoint: string): string {
+    return `${this.currentWorkspaceId ?? ''}|${endpoint}`;
+  }
+
+  /**
+   * Invalidate cached GET responses of the collection a mutation touched, in the current workspace
+   */
+  private invalidateAfterMutation(endpoint: string): void {
+    const collection = endpointCollection(endpoint);
+    const collections = new Set([collection, ...(RELATED_CACHE_COLLECTIONS[collection] ?? [])]);
+    const prefix = `${this.currentWorkspaceId ?? ''}|`;
+    this.cache.invalidate((key) => key.startsWith(prefix) && collections.has(endpointCollection(key.slice(prefix.length))));
+  }
+
   /**
    * Get cached workspaces list
    */
@@ -849,8 +1077,18 @@ export class ThinkPromptApiClient {
 
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {},
+    options: RequestOptions = {},
   ): Promise<T> {
+    const { timeoutMs = this.timeoutMs, idempotencyKey, cache = true, signal: callerSignal, ...init } = options;
+    const method = (init.method ?? 'GET').toUpperCase();
+    const cacheable = method === 'GET' && cache && this.cache.enabled;
+    const cacheKey = this.cacheKey(endpoint);
+    const context = this.requestContext.getStore();
+    if (cacheable && !context?.bypassCache) {
+      const cached = this.cache.get<T>(cacheKey);
+      if (cached !== undefined) return cached;
+    }
+
     const url = `${this.baseUrl}${endpoint}`;
     const headers: Record<string, string> = {
       'X-API-Key': this.apiKey,
@@ -861,32 +1099,122 @@ export class ThinkPromptApiClient {
     if (this.currentWorkspaceId) {
       headers['X-Workspace-ID'] = this.currentWorkspaceId;
     }
+    if (idempotencyKey) {
+      headers['Idempotency-Key'] = idempotencyKey;
+    }
 
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        ...headers,
-        ...options.headers,
-      },
-    });
+    const signal = callerSignal ?? context?.signal;
+    // Non-idempotent requests are only retried when the server can deduplicate them
+    const retryable = IDEMPOTENT_METHODS.has(method) || Boolean(idempotencyKey);
+
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = retryable && attempt < this.retryPolicy.maxRetries;
+
+      let response: Response;
+      try {
+        response = await this.fetchWithTimeout(url, {
+          ...init,
+          headers: {
+            ...headers,
+            ...init.headers,
+          },
+        }, timeoutMs, signal);
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        if (!canRetry) {
+          if (error instanceof TimeoutError) throw error;
+          throw new NetworkError(`Could not reach the ThinkPrompt API: ${error instanceof Error ? error.message : String(error)}`, {
+            hint: `Check that THINKPROMPT_API_URL (${this.baseUrl}) is reachable.`,
+            cause: error,
+          });
+        }
+        await delay(this.backoffDelay(attempt), signal);
+        continue;
+      }
+
+      if (!response.ok) {
+        const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+        if (canRetry && this.retryPolicy.retryOnStatuses.includes(response.status)) {
+          await response.body?.cancel();
+          await delay(retryAfterMs !== null ? Math.min(retryAfterMs, this.retryPolicy.maxDelayMs) : this.backoffDelay(attempt), signal);
+          continue;
+        }
+        const body = await response.text();
+        const workspace = response.status === 403 || response.status === 404 ? await this.resolveWorkspaceForError(endpoint) : null;
+        throw createApiError(response.status, body, { method, endpoint, workspace, retryAfterMs });
+      }
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`API request failed: ${response.status} - ${error}`);
+      if (method !== 'GET') this.invalidateAfterMutation(endpoint);
+
+      // Handle empty responses (204 No Content or empty body)
+      const contentLength = response.headers.get('content-length');
+      const text = response.status === 204 || contentLength === '0' ? '' : await response.text();
+      const data = text ? JSON.parse(text) as T : undefined as T;
+
+      if (cacheable && text) this.cache.set(cacheKey, data);
+      if (method !== 'GET') this.emitMutation({ method, endpoint, data });
+      return data;
     }
+  }
 
-    // Handle empty responses (204 No Content or empty body)
-    const contentLength = response.headers.get('content-length');
-    if (response.status === 204 || contentLength === '0') {
-      return undefined as T;
+  private emitMutation(event: MutationEvent): void {
+    for (const listener of this.mutationListeners) {
+      try {
+        listener(event);
+      } catch {
+        // A failing listener must not fail the request that already succeeded
+      }
     }
+  }
 
-    const text = await response.text();
-    if (!text) {
-      return undefined as T;
+  /**
+   * Fetch with a per-attempt timeout, also aborting when the caller's signal fires
+   */
+  private async fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number, signal?: AbortSignal): Promise<Response> {
+    signal?.throwIfAborted();
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    let timedOut = false;
+    const timer = timeoutMs > 0
+      ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs)
+      : undefined;
+
+    try {
+      return await fetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      if (timedOut) {
+        throw new TimeoutError(`API request timed out after ${timeoutMs}ms`, {
+          hint: 'The API did not respond in time. Retry later or raise THINKPROMPT_REQUEST_TIMEOUT_MS.',
+        });
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
     }
+  }
 
-    return JSON.parse(text) as T;
+  /**
+   * Exponential backoff with full jitter
+   */
+  private backoffDelay(attempt: number): number {
+    const ceiling = Math.min(this.retryPolicy.maxDelayMs, this.retryPolicy.baseDelayMs * 2 ** attempt);
+    return Math.round(Math.random() * ceiling);
+  }
+
+  /**
+   * Best-effort lookup of the active workspace so permission errors can name the caller's role
+   */
+  private async resolveWorkspaceForError(endpoint: string): Promise<Workspace | null> {
+    if (!this.workspaces.length && endpoint !== '/workspaces/list') {
+      await this.listWorkspaces().catch(() => undefined);
+    }
+    if (this.currentWorkspaceId) return this.workspaces.find((w) => w.id === this.currentWorkspaceId) ?? null;
+    return this.workspaces.find((w) => w.isDefault) ?? this.workspaces[0] ?? null;
   }
 
   async listStyleGuides(params?: {
@@ -911,8 +1239,6 @@ export class ThinkPromptApiClient {
     return this.request<StyleGuide>(`/style-guides/${id}`);
   }
 
-
-
   async createStyleGuide(input: CreateStyleGuideInput): Promise<StyleGuide> {
     return this.request<StyleGuide>('/style-guides', {
       method: 'POST',
@@ -1015,6 +1341,7 @@ export class ThinkPromptApiClient {
       `/workspaces/${workspaceId}/switch`,
       { method: 'POST' },
     );
+    if (this.currentWorkspaceId !== workspaceId) this.invalidateCache(this.currentWorkspaceId);
     this.currentWorkspaceId = workspaceId;
     // Update cache - ensure workspaces are loaded first
     if (!Array.isArray(this.workspaces) || !this.workspaces.length) {
@@ -1126,10 +1453,11 @@ export class ThinkPromptApiClient {
     return this.request<WorkflowValidationResult>(`/workflows/${id}/validate`);
   }
 
-  async executeWorkflow(id: string, input?: ExecuteWorkflowInput): Promise<WorkflowExecution> {
+  async executeWorkflow(id: string, input?: ExecuteWorkflowInput, options?: { idempotencyKey?: string }): Promise<WorkflowExecution> {
     return this.request<WorkflowExecution>(`/workflows/${id}/execute`, {
       method: 'POST',
       body: JSON.stringify(input ?? {}),
+      idempotencyKey: options?.idempotencyKey,
     });
   }
 
@@ -1143,6 +1471,7 @@ export class ThinkPromptApiClient {
     const query = searchParams.toString();
     return this.request<PaginatedResponse<WorkflowExecution>>(
       `/workflows/${workflowId}/executions${query ? `?${query}` : ''}`,
+      { cache: false },
     );
   }
 
@@ -1158,11 +1487,13 @@ export class ThinkPromptApiClient {
     const query = searchParams.toString();
     return this.request<PaginatedResponse<WorkflowExecution>>(
       `/workflows/all/executions${query ? `?${query}` : ''}`,
+      { cache: false },
     );
   }
 
   async getWorkflowExecution(executionId: string): Promise<WorkflowExecution> {
-    return this.request<WorkflowExecution>(`/workflows/executions/${executionId}`);
+    // Execution state changes while it runs, so it is never served from the cache
+    return this.request<WorkflowExecution>(`/workflows/executions/${executionId}`, { cache: false });
   }
 
   // ============ Plugin Marketplace Methods ============
@@ -0,0 +1,282 @@
+/**
+ * Requirement Dependency Graph
+ * Crawls requirement links of a project into a graph, detects dependency cycles and inconsistent
+ * parent/child links, and derives an implementation order. Renders as Mermaid or Graphviz DOT.
+ *
+ * A link reads "source <linkType> target": `A depends_on B` and `B blocks A` both mean B comes before A;
+ * `A parent B` makes A the parent of B, `A child B` makes A a child of B.
+ */
+
+import { unwrapPage } from './api-client.js';
+import type { Requirement, RequirementLink, RequirementLinkType, RequirementStatus, ThinkPromptApiClient } from './api-client.js';
+import { mapWithConcurrency } from './async-utils.js';
+import { listScopedRequirements } from './requirement-spec.js';
+import type { RequirementScope } from './requirement-spec.js';
+
+export interface GraphNode {
+  id: string;
+  displayId: string;
+  title: string;
+  status: RequirementStatus;
+  /** Linked from the project but belongs to another project (not crawled further) */
+  external: boolean;
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  type: RequirementLinkType;
+}
+
+export type HierarchyIssueKind = 'parent_cycle' | 'multiple_parents' | 'missing_reciprocal';
+
+export interface HierarchyIssue {
+  kind: HierarchyIssueKind;
+  requirements: string[];
+  message: string;
+}
+
+export interface DependencyGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  /** Each entry lists the displayIds of requirements that depend on each other in a cycle */
+  cycles: string[][];
+  hierarchyIssues: HierarchyIssue[];
+  /** Waves of displayIds; every requirement only depends on requirements of earlier waves */
+  implementationOrder: string[][];
+  /** Requirements that cannot be ordered because they are in or behind a cycle */
+  unordered: string[];
+}
+
+// ============ Crawling ============
+
+/**
+ * Fetch the requirements of a project and the links of each of them
+ */
+export async function crawlRequirementLinks(
+  client: ThinkPromptApiClient,
+  scope: RequirementScope,
+): Promise<{ requirements: Requirement[]; links: RequirementLink[] }> {
+  const requirements = await listScopedRequirements(client, scope);
+  const linkLists = await mapWithConcurrency(requirements, 5, async (r) => unwrapPage(await client.listRequirementLinks(r.id)).data);
+  return { requirements, links: linkLists.flat() };
+}
+
+// ============ Analysis ============
+
+function compareDisplayIds(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+/**
+ * Strongly connected components with more than one node (or a self-loop) are dependency cycles (Tarjan)
+ */
+function findCycles(nodeIds: string[], successors: Map<string, Set<string>>): string[][] {
+  let index = 0;
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+
+  const connect = (node: string) => {
+    indices.set(node, index);
+    lowLinks.set(node, index);
+    index++;
+    stack.push(node);
+    onStack.add(node);
+    for (const next of successors.get(node) ?? []) {
+      if (!indices.has(next)) {
+        connect(next);
+        lowLinks.set(node, Math.min(lowLinks.get(node)!, lowLinks.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLinks.set(node, Math.min(lowLinks.get(node)!, indices.get(next)!));
+      }
+    }
+    if (lowLinks.get(node) !== indices.get(node)) return;
+    const component: string[] = [];
+    let member: string;
+    do {
+      member = stack.pop()!;
+      onStack.delete(member);
+      component.push(member);
+    } while (member !== node);
+    if (component.length > 1 || successors.get(node)?.has(node)) cycles.push(component);
+  };
+
+  for (const node of nodeIds) if (!indices.has(node)) connect(node);
+  return cycles;
+}
+
+/**
+ * Kahn's algorithm in waves; nodes still having unresolved prerequisites at the end are unordered
+ */
+function orderInWaves(nodeIds: string[], successors: Map<string, Set<string>>, compare: (a: string, b: string) => number) {
+  const inDegree = new Map(nodeIds.map((id) => [id, 0]));
+  for (const targets of successors.values()) for (const target of targets) inDegree.set(target, (inDegree.get(target) ?? 0) + 1);
+  const waves: string[][] = [];
+  let current = nodeIds.filter((id) => inDegree.get(id) === 0);
+  const ordered = new Set<string>();
+  while (current.length > 0) {
+    current.sort(compare);
+    waves.push(current);
+    const next: string[] = [];
+    for (const node of current) {
+      ordered.add(node);
+      for (const target of successors.get(node) ?? []) {
+        const remaining = inDegree.get(target)! - 1;
+        inDegree.set(target, remaining);
+        if (remaining === 0) next.push(target);
+      }
+    }
+    current = next;
+  }
+  return { waves, unordered: nodeIds.filter((id) => !ordered.has(id)).sort(compare) };
+}
+
+function checkHierarchy(edges: GraphEdge[], label: (id: string) => string): HierarchyIssue[] {
+  const issues: HierarchyIssue[] = [];
+  // child → parents, normalizing both directions of the relation
+  const parentsOf = new Map<string, Set<string>>();
+  const stated = new Set<string>();
+  for (const edge of edges) {
+    if (edge.type !== 'parent' && edge.type !== 'child') continue;
+    const [parent, child] = edge.type === 'parent' ? [edge.from, edge.to] : [edge.to, edge.from];
+    if (!parentsOf.has(child)) parentsOf.set(child, new Set());
+    parentsOf.get(child)!.add(parent);
+    stated.add(`${edge.type}:${edge.from}:${edge.to}`);
+  }
+
+  for (const [child, parents] of parentsOf) {
+    if (parents.size > 1) {
+      const ids = [...parents].map(label).sort(compareDisplayIds);
+      issues.push({ kind: 'multiple_parents', requirements: [label(child), ...ids], message: `${label(child)} has ${parents.size} parents: ${ids.join(', ')}` });
+    }
+  }
+  const successors = new Map<string, Set<string>>();
+  for (const [child, parents] of parentsOf) for (const parent of parents) {
+    if (!successors.has(parent)) successors.set(parent, new Set());
+    successors.get(parent)!.add(child);
+  }
+  for (const cycle of findCycles([...new Set([...parentsOf.keys(), ...successors.keys()])], successors)) {
+    const ids = cycle.map(label).sort(compareDisplayIds);
+    issues.push({ kind: 'parent_cycle', requirements: ids, message: `Parent/child links form a cycle: ${ids.join(' → ')}` });
+  }
+  for (const key of stated) {
+    const [type, from, to] = key.split(':');
+    const reciprocal = `${type === 'parent' ? 'child' : 'parent'}:${to}:${from}`;
+    if (!stated.has(reciprocal)) {
+      issues.push({
+        kind: 'missing_reciprocal',
+        requirements: [label(from), label(to)],
+        message: `${label(from)} is ${type} of ${label(to)}, but ${label(to)} has no ${type === 'parent' ? 'child' : 'parent'} link back`,
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Build nodes and edges from crawled links and analyse them
+ */
+export function analyzeDependencyGraph(requirements: readonly Requirement[], links: readonly RequirementLink[]): DependencyGraph {
+  const nodes = new Map<string, GraphNode>(requirements.map((r) => [r.id, { id: r.id, displayId: r.displayId, title: r.title, status: r.status, external: false }]));
+  const edges: GraphEdge[] = [];
+  const edgeKeys = new Set<string>();
+  for (const link of links) {
+    // Either end of a link may lie outside the crawled requirements (incoming links from other projects)
+    for (const id of [link.sourceRequirementId, link.targetRequirementId]) {
+      if (nodes.has(id)) continue;
+      const linked = link.linkedRequirement?.id === id ? link.linkedRequirement : undefined;
+      nodes.set(id, { id, displayId: linked?.displayId ?? id, title: linked?.title ?? '', status: linked?.status ?? 'draft', external: true });
+    }
+    const key = `${link.linkType}:${link.sourceRequirementId}:${link.targetRequirementId}`;
+    if (edgeKeys.has(key)) continue;
+    edgeKeys.add(key);
+    edges.push({ from: link.sourceRequirementId, to: link.targetRequirementId, type: link.linkType });
+  }
+
+  const label = (id: string) => nodes.get(id)?.displayId ?? id;
+  const compare = (a: string, b: string) => compareDisplayIds(label(a), label(b));
+  const nodeIds = [...nodes.keys()].sort(compare);
+
+  // Prerequisite edges point from the requirement that must be done first
+  const successors = new Map<string, Set<string>>();
+  for (const edge of edges) {
+    if (edge.type !== 'depends_on' && edge.type !== 'blocks') continue;
+    const [before, after] = edge.type === 'depends_on' ? [edge.to, edge.from] : [edge.from, edge.to];
+    if (!successors.has(before)) successors.set(before, new Set());
+    successors.get(before)!.add(after);
+  }
+
+  const { waves, unordered } = orderInWaves(nodeIds, successors, compare);
+  return {
+    nodes: nodeIds.map((id) => nodes.get(id)!),
+    edges,
+    cycles: findCycles(nodeIds, successors).map((cycle) => cycle.map(label).sort(compareDisplayIds)),
+    hierarchyIssues: checkHierarchy(edges, label),
+    implementationOrder: waves.map((wave) => wave.map(label)),
+    unordered: unordered.map(label),
+  };
+}
+
+// ============ Rendering ============
+
+function analysisComments(graph: DependencyGraph, prefix: string): string[] {
+  return [
+    `${prefix} Implementation order: ${graph.implementationOrder.map((wave, i) => `${i + 1}) ${wave.join(', ')}`).join('  ') || 'none'}`,
+    ...(graph.unordered.length > 0 ? [`${prefix} Unordered (in or behind a cycle): ${graph.unordered.join(', ')}`] : []),
+    ...graph.cycles.map((cycle) => `${prefix} Cycle: ${cycle.join(' ↔ ')}`),
+    ...graph.hierarchyIssues.map((issue) => `${prefix} ${issue.kind}: ${issue.message}`),
+  ];
+}
+
+export function dependencyGraphToMermaid(graph: DependencyGraph): string {
+  const ids = new Map(graph.nodes.map((node, i) => [node.id, `n${i}`]));
+  const inCycle = new Set(graph.cycles.flat());
+  const escape = (text: string) => text.replace(/"/g, '#quot;').replace(/\r?\n/g, ' ');
+  const lines = [
+    ...analysisComments(graph, '%%'),
+    'graph TD',
+    ...graph.nodes.map((node) => {
+      const className = inCycle.has(node.displayId) ? ':::cycle' : node.external ? ':::external' : '';
+      return `  ${ids.get(node.id)}["${escape(`${node.displayId}: ${node.title}`)}<br/><i>${node.status}</i>"]${className}`;
+    }),
+    ...graph.edges.map((edge) => {
+      const arrow = edge.type === 'related' ? '-.-' : edge.type === 'parent' || edge.type === 'child' ? '-.->' : '-->';
+      return `  ${ids.get(edge.from)} ${arrow}|${edge.type}| ${ids.get(edge.to)}`;
+    }),
+    '  classDef cycle stroke:#d33,stroke-width:3px',
+    '  classDef external stroke-dasharray:4 3',
+  ];
+  return `${lines.join('\n')}\n`;
+}
+
+export function dependencyGraphToDot(graph: DependencyGraph): string {
+  const inCycle = new Set(graph.cycles.flat());
+  const escape = (text: string) => text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, ' ');
+  const quote = (text: string) => `"${escape(text)}"`;
+  const edgeStyle: Record<RequirementLinkType, string> = {
+    depends_on: '',
+    blocks: ', color="#c60"',
+    related: ', style=dashed, dir=none',
+    parent: ', style=dotted',
+    child: ', style=dotted',
+  };
+  const lines = [
+    ...analysisComments(graph, '//'),
+    'digraph requirements {',
+    '  rankdir=LR;',
+    '  node [shape=box, style=rounded];',
+    ...graph.nodes.map((node) => {
+      // `\n` is a line break inside a quoted DOT label
+      const attributes = [`label="${escape(node.displayId)}\\n${escape(node.title)}\\n(${node.status})"`];
+      if (inCycle.has(node.displayId)) attributes.push('color="#d33"', 'penwidth=2');
+      if (node.external) attributes.push('style="rounded,dashed"');
+      return `  ${quote(node.id)} [${attributes.join(', ')}];`;
+    }),
+    ...graph.edges.map((edge) => `  ${quote(edge.from)} -> ${quote(edge.to)} [label=${quote(edge.type)}${edgeStyle[edge.type]}];`),
+    '}',
+  ];
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,157 @@
+/**
+ * Document Diff
+ * Compares two versions of a document, or a version with the current document,
+ * and merges an update with concurrent changes for optimistic concurrency
+ */
+
+import { unwrapPage } from './api-client.js';
+import type { Document, DocumentVersion, ThinkPromptApiClient, UpdateDocumentInput } from './api-client.js';
+import { ConflictError, NotFoundError, ValidationError } from './errors.js';
+import { diffFrontmatter, mergeFrontmatter, mergeLines, mergeValue, unifiedDiff } from './text-diff.js';
+import type { FrontmatterDiff } from './text-diff.js';
+
+export interface VersionInfo {
+  version: number;
+  /** True when the side is the current document rather than a stored version */
+  current: boolean;
+  title: string;
+  changeSummary: string | null;
+  createdAt: string;
+}
+
+export interface DocumentVersionDiff {
+  documentId: string;
+  from: VersionInfo;
+  to: VersionInfo;
+  summary: { addedLines: number; removedLines: number; hunks: number; frontmatterKeysChanged: number; titleChanged: boolean };
+  /** Change summaries of the versions after `from` up to `to` */
+  changeSummaries: Array<{ version: number; changeSummary: string | null; createdAt: string }>;
+  frontmatter: FrontmatterDiff;
+  diff: string;
+}
+
+type Side = Pick<DocumentVersion, 'version' | 'title' | 'content' | 'frontmatter'> & VersionInfo;
+
+export async function diffDocumentVersions(
+  client: ThinkPromptApiClient,
+  documentId: string,
+  fromVersion: number,
+  toVersion?: number,
+  context = 3,
+): Promise<DocumentVersionDiff> {
+  const [versions, current] = await Promise.all([
+    client.getDocumentVersions(documentId),
+    toVersion === undefined ? client.getDocument(documentId) : Promise.resolve(undefined),
+  ]);
+  const byNumber = new Map(unwrapPage(versions).data.map((v) => [v.version, v]));
+
+  const versionSide = (version: number, field: string): Side => {
+    const stored = byNumber.get(version);
+    if (!stored) {
+      throw new ValidationError(`Version ${version} of document ${documentId} not found`, [
+        { field, message: 'is not a stored version', allowedValues: [...byNumber.keys()].sort((a, b) => a - b) },
+      ]);
+    }
+    return { ...stored, current: false, changeSummary: stored.changeSummary ?? null };
+  };
+  const currentSide = (doc: Document): Side => ({
+    version: doc.version,
+    title: doc.title,
+    content: doc.content,
+    frontmatter: doc.frontmatter,
+    current: true,
+    changeSummary: byNumber.get(doc.version)?.changeSummary ?? null,
+    createdAt: doc.updatedAt,
+  });
+
+  const from = versionSide(fromVersion, 'fromVersion');
+  const to = current ? currentSide(current) : versionSide(toVersion!, 'toVersion');
+  const label = (side: Side) => `${side.title} (${side.current ? 'current, ' : ''}v${side.version})`;
+  const text = unifiedDiff(from.content ?? '', to.content ?? '', { fromLabel: label(from), toLabel: label(to), context });
+  const frontmatter = diffFrontmatter(from.frontmatter, to.frontmatter);
+  const [low, high] = from.version <= to.version ? [from.version, to.version] : [to.version, from.version];
+  const info = ({ version, current: isCurrent, title, changeSummary, createdAt }: Side): VersionInfo => ({ version, current: isCurrent, title, changeSummary, createdAt });
+
+  return {
+    documentId,
+    from: info(from),
+    to: info(to),
+    summary: {
+      addedLines: text.addedLines,
+      removedLines: text.removedLines,
+      hunks: text.hunks,
+      frontmatterKeysChanged: Object.keys(frontmatter.added).length + Object.keys(frontmatter.removed).length + Object.keys(frontmatter.changed).length,
+      titleChanged: from.title !== to.title,
+    },
+    changeSummaries: [...byNumber.values()]
+      .filter((v) => v.version > low && v.version <= high)
+      .sort((a, b) => a.version - b.version)
+      .map(({ version, changeSummary, createdAt }) => ({ version, changeSummary: changeSummary ?? null, createdAt })),
+    frontmatter,
+    diff: text.text,
+  };
+}
+
+// ============ Optimistic Concurrency ============
+
+export interface DocumentMergeAttempt {
+  /** True when the update and the concurrent changes touch different lines and keys */
+  clean: boolean;
+  title: string;
+  content: string;
+  frontmatter: Record<string, unknown>;
+  conflicts: { title: boolean; contentRegions: number; frontmatterKeys: string[] };
+}
+
+/**
+ * Three-way merge of an update (ours) and the current document (theirs) against the version the update was based on
+ */
+export function mergeDocumentUpdate(base: DocumentVersion, current: Document, update: UpdateDocumentInput): DocumentMergeAttempt {
+  const title = mergeValue(base.title, update.title ?? base.title, current.title);
+  const content = mergeLines(base.content ?? '', update.content ?? base.content ?? '', current.content ?? '', {
+    ours: 'update',
+    base: `base (v${base.version})`,
+    theirs: `current (v${current.version})`,
+  });
+  const frontmatter = mergeFrontmatter(base.frontmatter, update.frontmatter ?? base.frontmatter, current.frontmatter);
+  return {
+    clean: !title.conflict && content.conflicts === 0 && frontmatter.conflicts.length === 0,
+    title: title.value,
+    content: content.text,
+    frontmatter: frontmatter.merged,
+    conflicts: { title: title.conflict, contentRegions: content.conflicts, frontmatterKeys: frontmatter.conflicts },
+  };
+}
+
+/**
+ * Re-fetch the document and compare its version with `expectedVersion`. On a mismatch nothing is written; the
+ * ConflictError carries a merge attempt based on the expected version. The API has no conditional update,
+ * so a write between this check and the update can still go unnoticed.
+ */
+export async function assertDocumentVersion(client: ThinkPromptApiClient, documentId: string, expectedVersion: number, update: UpdateDocumentInput): Promise<void> {
+  const current = await client.withFreshResponses(() => client.getDocument(documentId));
+  if (current.version === expectedVersion) return;
+
+  let merge: DocumentMergeAttempt | null = null;
+  try {
+    merge = mergeDocumentUpdate(await client.getDocumentVersion(documentId, expectedVersion), current, update);
+  } catch (error) {
+    if (!(error instanceof NotFoundError)) throw error;
+  }
+  const hint = !merge
+    ? `Version ${expectedVersion} does not exist, so no merge was attempted. Fetch the document, reapply your changes and pass expectedVersion ${current.version}.`
+    : merge.clean
+      ? `The changes do not overlap. Review details.merge and retry update_document with its title, content and frontmatter and expectedVersion ${current.version}.`
+      : `Resolve the conflicts in details.merge (conflict markers in content, frontmatterKeys keep the current value), then retry with expectedVersion ${current.version}.`;
+  throw new ConflictError(`Document ${documentId} was changed: expected version ${expectedVersion}, current version ${current.version}`, {
+    hint,
+    details: {
+      documentId,
+      expectedVersion,
+      currentVersion: current.version,
+      updatedAt: current.updatedAt,
+      updatedBy: current.updatedBy,
+      merge,
+    },
+  });
+}
@@ -0,0 +1,310 @@
+/**
+ * Document Patches
+ * Applies section-level edits to Markdown content, addressed by heading path ("## API > ### Auth"),
+ * and merges frontmatter keys, so long documents can be changed without resending them
+ */
+
+import type { Document, ThinkPromptApiClient } from './api-client.js';
+import { ConflictError, ValidationError } from './errors.js';
+import { enforceFolderSchema, FRONTMATTER_SCHEMA_TITLE, parseFrontmatterSchema } from './frontmatter-schema.js';
+import { diffFrontmatter, splitLines, unifiedDiff } from './text-diff.js';
+import type { FrontmatterDiff } from './text-diff.js';
+
+export const PATCH_OPERATION_TYPES = ['replace_section', 'append_to_section', 'insert_after_heading', 'search_replace'] as const;
+
+export type PatchOperationType = (typeof PATCH_OPERATION_TYPES)[number];
+
+export interface PatchOperation {
+  type: PatchOperationType;
+  /** Heading path; required except for search_replace, where it limits the search to the section */
+  section?: string;
+  content?: string;
+  search?: string;
+  replace?: string;
+  /** Number of matches search_replace must find (default: 1) */
+  expectedCount?: number;
+}
+
+export interface DocumentPatch {
+  operations?: PatchOperation[];
+  /** Keys to set; null removes a key */
+  frontmatter?: Record<string, unknown>;
+  /** Default: generated from the applied changes */
+  changeSummary?: string;
+}
+
+export interface MarkdownSection {
+  level: number;
+  title: string;
+  /** Full heading path, e.g. "## API > ### Auth" */
+  path: string;
+  /** Line index of the heading */
+  line: number;
+  /** Line index after the section, i.e. of the next heading at the same or a higher level */
+  end: number;
+}
+
+export interface AppliedPatch {
+  content: string;
+  frontmatter: Record<string, unknown>;
+  /** One entry per operation and one for the frontmatter, in order */
+  changes: string[];
+}
+
+export interface DocumentPatchResult {
+  documentId: string;
+  dryRun: boolean;
+  /** False when the patch left content and frontmatter as they were; nothing is saved then */
+  changed: boolean;
+  fromVersion: number;
+  version: number;
+  changeSummary: string;
+  changes: string[];
+  summary: { addedLines: number; removedLines: number };
+  frontmatter: FrontmatterDiff;
+  diff: string;
+}
+
+// ============ Sections ============
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const CLOSING_FENCE = /^ {0,3}(`{3,}|~{3,})[ \t]*$/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+
+function headingLabel(level: number, title: string): string {
+  return `${'#'.repeat(level)} ${title}`;
+}
+
+/**
+ * ATX headings (`#` to `######`) outside fenced code blocks, with the range each section spans
+ */
+export function parseSections(lines: readonly string[]): MarkdownSection[] {
+  const sections: MarkdownSection[] = [];
+  const open: MarkdownSection[] = [];
+  let fence: string | null = null;
+  lines.forEach((line, index) => {
+    if (fence) {
+      const closing = CLOSING_FENCE.exec(line);
+      if (closing && closing[1][0] === fence[0] && closing[1].length >= fence.length) fence = null;
+      return;
+    }
+    const fenceMatch = FENCE.exec(line);
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      return;
+    }
+    const heading = ATX_HEADING.exec(line);
+    if (!heading) return;
+    const level = heading[1].length;
+    while (open.length > 0 && open[open.length - 1].level >= level) open.pop()!.end = index;
+    const title = (heading[2] ?? '').trim();
+    const path = [...open.map((s) => headingLabel(s.level, s.title)), headingLabel(level, title)].join(' > ');
+    const section: MarkdownSection = { level, title, path, line: index, end: lines.length };
+    sections.push(section);
+    open.push(section);
+  });
+  return sections;
+}
+
+const normalizeTitle = (title: string) => title.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Resolve a heading path such as "## API > ### Auth" or "API > Auth". Each segment must be a heading inside the
+ * previous one (at any depth); the `#` prefix pins the level and title matching ignores case.
+ */
+export function findSection(sections: readonly MarkdownSection[], path: string, field: string): MarkdownSection {
+  const segments = path.split(/\s+>\s+/).map((segment) => {
+    const match = /^(#{1,6})\s+(.*)$/.exec(segment.trim());
+    return match ? { level: match[1].length, title: normalizeTitle(match[2]) } : { level: undefined, title: normalizeTitle(segment) };
+  });
+  let candidates: readonly MarkdownSection[] = sections;
+  let matches: MarkdownSection[] = [];
+  for (const segment of segments) {
+    matches = candidates.filter((s) => (segment.level === undefined || s.level === segment.level) && normalizeTitle(s.title) === segment.title);
+    // Prefer the outermost match, so "API" finds "## API" rather than a nested "### API" inside it
+    matches = matches.filter((s) => !matches.some((outer) => outer !== s && outer.line < s.line && s.line < outer.end));
+    if (matches.length !== 1) break;
+    const [parent] = matches;
+    candidates = sections.filter((s) => s.line > parent.line && s.line < parent.end);
+  }
+
+  if (matches.length === 1) return matches[0];
+  if (matches.length === 0) {
+    throw new ValidationError(`Section "${path}" not found`, [
+      { field, message: 'does not match a heading of the document', allowedValues: sections.map((s) => s.path) },
+    ], { hint: 'Address sections by heading path, e.g. "## API > ### Auth"; get_document shows the current headings.' });
+  }
+  throw new ValidationError(`Section "${path}" is ambiguous`, [
+    { field, message: `matches ${matches.length} headings`, allowedValues: matches.map((s) => s.path) },
+  ], { hint: 'Use the full heading path to pick one of the matching sections.' });
+}
+
+// ============ Operations ============
+
+/** Insert lines as a block separated from the surrounding text by blank lines */
+function insertBlock(lines: string[], at: number, block: string[]): void {
+  if (block.length === 0) return;
+  const before = at > 0 && lines[at - 1].trim() !== '' ? [''] : [];
+  const after = at < lines.length && lines[at].trim() !== '' ? [''] : [];
+  lines.splice(at, 0, ...before, ...block, ...after);
+}
+
+function countMatches(text: string, search: string): number {
+  return text.split(search).length - 1;
+}
+
+function quote(text: string, max = 40): string {
+  const line = text.replace(/\s+/g, ' ');
+  return `"${line.length > max ? `${line.slice(0, max - 1)}…` : line}"`;
+}
+
+function requireString(op: PatchOperation, key: 'section' | 'content' | 'search' | 'replace', field: string): string {
+  const value = op[key];
+  if (typeof value !== 'string') throw new ValidationError(`${op.type} needs ${key}`, [{ field: `${field}.${key}`, message: `is required for ${op.type}` }]);
+  return value;
+}
+
+function applyOperation(lines: string[], op: PatchOperation, field: string): { lines: string[]; change: string } {
+  if (op.type === 'search_replace') {
+    const search = requireString(op, 'search', field);
+    const replace = requireString(op, 'replace', field);
+    const expectedCount = op.expectedCount ?? 1;
+    if (search === '') throw new ValidationError('search_replace needs a non-empty search string', [{ field: `${field}.search`, message: 'must not be empty' }]);
+    if (!Number.isInteger(expectedCount) || expectedCount < 1) {
+      throw new ValidationError('expectedCount must be a positive integer', [{ field: `${field}.expectedCount`, message: 'must be an integer >= 1' }]);
+    }
+    const section = op.section === undefined ? undefined : findSection(parseSections(lines), op.section, `${field}.section`);
+    const [start, end] = section ? [section.line, section.end] : [0, lines.length];
+    const text = lines.slice(start, end).join('\n');
+    const found = countMatches(text, search);
+    if (found !== expectedCount) {
+      throw new ValidationError(`Expected ${expectedCount} match(es) of ${quote(search)}${section ? ` in "${section.path}"` : ''}, found ${found}`, [
+        { field: `${field}.expectedCount`, message: `does not match the ${found} occurrence(s) found` },
+      ], { hint: 'Make the search string more specific, narrow it with section, or set expectedCount to the intended number of replacements.' });
+    }
+    const replaced = text.split(search).join(replace);
+    return {
+      lines: [...lines.slice(0, start), ...(replaced === '' ? [] : replaced.replace(/\r\n/g, '\n').split('\n')), ...lines.slice(end)],
+      change: `Replaced ${found} occurrence(s) of ${quote(search)}${section ? ` in "${section.path}"` : ''}`,
+    };
+  }
+
+  const section = findSection(parseSections(lines), requireString(op, 'section', field), `${field}.section`);
+  const block = splitLines(requireString(op, 'content', field));
+  const result = [...lines];
+  switch (op.type) {
+    case 'replace_section':
+      result.splice(section.line + 1, section.end - section.line - 1, ...(section.end < lines.length ? [''] : []));
+      insertBlock(result, section.line + 1, block);
+      return { lines: result, change: `Replaced section "${section.path}"` };
+    case 'append_to_section': {
+      let at = section.end;
+      while (at > section.line + 1 && result[at - 1].trim() === '') at--;
+      insertBlock(result, at, block);
+      return { lines: result, change: `Appended to "${section.path}"` };
+    }
+    case 'insert_after_heading':
+      insertBlock(result, section.line + 1, block);
+      return { lines: result, change: `Inserted after "${section.path}"` };
+    default:
+      throw new ValidationError(`Unknown patch operation ${String(op.type)}`, [{ field: `${field}.type`, message: 'is not a patch operation', allowedValues: [...PATCH_OPERATION_TYPES] }]);
+  }
+}
+
+/**
+ * Apply the operations in order, each to the result of the previous one, then merge the frontmatter keys.
+ * Any failing operation rejects the whole patch.
+ */
+export function applyDocumentPatch(content: string, frontmatter: Record<string, unknown> | null | undefined, patch: DocumentPatch): AppliedPatch {
+  const operations = patch.operations ?? [];
+  const frontmatterPatch = patch.frontmatter ?? {};
+  if (operations.length === 0 && Object.keys(frontmatterPatch).length === 0) {
+    throw new ValidationError('The patch is empty', [{ field: 'operations', message: 'at least one operation or frontmatter key is required' }]);
+  }
+
+  let lines = splitLines(content);
+  const changes: string[] = [];
+  operations.forEach((op, index) => {
+    const applied = applyOperation(lines, op, `operations.${index}`);
+    lines = applied.lines;
+    changes.push(applied.change);
+  });
+
+  const merged: Record<string, unknown> = { ...frontmatter };
+  for (const [key, value] of Object.entries(frontmatterPatch)) {
+    if (value === null) delete merged[key];
+    else merged[key] = value;
+  }
+  const diff = diffFrontmatter(frontmatter, merged);
+  const set = [...Object.keys(diff.added), ...Object.keys(diff.changed)];
+  const removed = Object.keys(diff.removed);
+  if (set.length > 0 || removed.length > 0) {
+    changes.push(`Frontmatter: ${[set.length > 0 ? `set ${set.join(', ')}` : '', removed.length > 0 ? `removed ${removed.join(', ')}` : ''].filter(Boolean).join('; ')}`);
+  }
+
+  const text = lines.join('\n');
+  return { content: text === '' || !content.endsWith('\n') ? text : `${text}\n`, frontmatter: merged, changes };
+}
+
+export interface PatchDocumentOptions {
+  dryRun?: boolean;
+  /** Fail unless the document is still at this version */
+  expectedVersion?: number;
+}
+
+function versionConflict(documentId: string, expectedVersion: number, current: Document): ConflictError {
+  return new ConflictError(`Document ${documentId} was changed: expected version ${expectedVersion}, current version ${current.version}`, {
+    hint: `Fetch the document, check that the operations still apply and retry with expectedVersion ${current.version}.`,
+    details: { documentId, expectedVersion, currentVersion: current.version, updatedAt: current.updatedAt, updatedBy: current.updatedBy },
+  });
+}
+
+/**
+ * Patch the current version of a document and save the result as a new version (unless `dryRun`).
+ * The version is checked again before writing, so an edit made while the patch was applied is not overwritten.
+ */
+export async function patchDocument(
+  client: ThinkPromptApiClient,
+  documentId: string,
+  patch: DocumentPatch,
+  { dryRun = false, expectedVersion }: PatchDocumentOptions = {},
+): Promise<DocumentPatchResult> {
+  const document = await client.withFreshResponses(() => client.getDocument(documentId));
+  if (expectedVersion !== undefined && document.version !== expectedVersion) throw versionConflict(documentId, expectedVersion, document);
+  const applied = applyDocumentPatch(document.content ?? '', document.frontmatter, patch);
+  if (document.title === FRONTMATTER_SCHEMA_TITLE) parseFrontmatterSchema(applied.content);
+  else if (patch.frontmatter) applied.frontmatter = (await enforceFolderSchema(client, document.folderId, applied.frontmatter)) ?? applied.frontmatter;
+  const diff = unifiedDiff(document.content ?? '', applied.content, {
+    fromLabel: `${document.title} (v${document.version})`,
+    toLabel: `${document.title} (patched)`,
+  });
+  const frontmatter = diffFrontmatter(document.frontmatter, applied.frontmatter);
+  const frontmatterChanged = Object.keys(frontmatter.added).length + Object.keys(frontmatter.removed).length + Object.keys(frontmatter.changed).length > 0;
+  const changed = diff.hunks > 0 || frontmatterChanged;
+  const changeSummary = patch.changeSummary ?? (applied.changes.join('; ') || 'No changes');
+
+  let version = document.version;
+  if (changed && !dryRun) {
+    // The API has no conditional update; this narrows the window to the update request itself
+    const current = await client.withFreshResponses(() => client.getDocument(documentId));
+    if (current.version !== document.version) throw versionConflict(documentId, document.version, current);
+    const updated = await client.updateDocument(documentId, {
+      content: diff.hunks > 0 ? applied.content : undefined,
+      frontmatter: frontmatterChanged ? applied.frontmatter : undefined,
+      changeSummary,
+    });
+    version = updated.version;
+  }
+  return {
+    documentId,
+    dryRun,
+    changed,
+    fromVersion: document.version,
+    version,
+    changeSummary,
+    changes: applied.changes,
+    summary: { addedLines: diff.addedLines, removedLines: diff.removedLines },
+    frontmatter,
+    diff: diff.text,
+  };
+}
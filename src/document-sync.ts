@@ -0,0 +1,477 @@
+/**
+ * Document Sync
+ * Two-way sync between a local directory of Markdown files and ThinkPrompt documents.
+ * Directories map to document folders (by name), `<slug>.md` files with YAML frontmatter to documents.
+ * A state file in the directory records the version and content hash of each document at its last sync,
+ * so changes on either side are detected without comparing timestamps.
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type { Document, DocumentFolder, DocumentQueryParams, ThinkPromptApiClient } from './api-client.js';
+import { mapWithConcurrency } from './async-utils.js';
+import { ConflictError, toErrorPayload, ValidationError } from './errors.js';
+import type { ErrorPayload } from './errors.js';
+import { applyFolderSchemaToCreate, applyFolderSchemaToUpdate } from './frontmatter-schema.js';
+import { parseFrontmatter, stringifyFrontmatter } from './frontmatter.js';
+
+export const SYNC_STATE_FILE = '.thinkprompt-sync.json';
+
+export type SyncDirection = 'push' | 'pull' | 'both';
+export type ConflictStrategy = 'report' | 'prefer_local' | 'prefer_remote';
+
+export type SyncAction =
+  | 'create_remote_folder'
+  | 'create_local_directory'
+  | 'push_create'
+  | 'push_update'
+  | 'pull'
+  | 'in_sync'
+  | 'unchanged'
+  | 'conflict'
+  | 'skipped';
+
+export interface SyncItem {
+  /** Path relative to the local directory, `/`-separated */
+  path: string;
+  kind: 'folder' | 'document';
+  action: SyncAction;
+  reason?: string;
+  documentId?: string;
+  /** Document version at the last sync and in ThinkPrompt now */
+  syncedVersion?: number;
+  remoteVersion?: number;
+  status: 'planned' | 'applied' | 'failed';
+  error?: ErrorPayload;
+}
+
+export interface SyncOptions {
+  localPath: string;
+  projectId?: string;
+  /** Sync only this folder's subtree; it maps to the local directory itself */
+  folderId?: string;
+  direction?: SyncDirection;
+  onConflict?: ConflictStrategy;
+  dryRun?: boolean;
+}
+
+export interface SyncResult {
+  localPath: string;
+  dryRun: boolean;
+  summary: Partial<Record<SyncAction, number>> & { failed: number };
+  items: SyncItem[];
+}
+
+interface SyncStateEntry {
+  documentId: string;
+  version: number;
+  hash: string;
+}
+
+interface SyncState {
+  scope: { projectId: string | null; folderId: string | null };
+  documents: Record<string, SyncStateEntry>;
+}
+
+interface DocumentParts {
+  title: string;
+  frontmatter: Record<string, unknown>;
+  content: string;
+}
+
+interface LocalDocument extends DocumentParts {
+  hash: string;
+}
+
+const PUSH_ACTIONS: ReadonlySet<SyncAction> = new Set(['create_remote_folder', 'push_create', 'push_update']);
+const PULL_ACTIONS: ReadonlySet<SyncAction> = new Set(['create_local_directory', 'pull']);
+
+// ============ Local Files ============
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value === null || typeof value !== 'object') return value;
+  return Object.fromEntries(Object.keys(value).sort().map((key) => [key, sortKeys((value as Record<string, unknown>)[key])]));
+}
+
+/**
+ * Hash of title, frontmatter and content, independent of YAML formatting and line endings
+ */
+export function documentHash(parts: DocumentParts): string {
+  const canonical = JSON.stringify(sortKeys({
+    title: parts.title,
+    frontmatter: parts.frontmatter,
+    content: parts.content.replace(/\r\n/g, '\n').trimEnd(),
+  }));
+  return createHash('sha256').update(canonical).digest('hex');
+}
+
+/**
+ * The `title` frontmatter key holds the document title; without it the first `# heading` or the file name is used
+ */
+export function parseDocumentFile(text: string, fileName: string): DocumentParts {
+  const { frontmatter, content } = parseFrontmatter(text);
+  const { title, ...rest } = frontmatter;
+  const heading = /^#\s+(.+)$/m.exec(content)?.[1].trim();
+  return {
+    title: typeof title === 'string' && title.trim() ? title.trim() : heading ?? path.basename(fileName, '.md'),
+    frontmatter: rest,
+    content,
+  };
+}
+
+export function renderDocumentFile(document: Pick<Document, 'title' | 'frontmatter' | 'content'>): string {
+  const { title: _ignored, ...frontmatter } = document.frontmatter ?? {};
+  return stringifyFrontmatter({ title: document.title, ...frontmatter }, document.content ?? '');
+}
+
+function remoteParts(document: Document): DocumentParts {
+  const { title: _ignored, ...frontmatter } = document.frontmatter ?? {};
+  return { title: document.title, frontmatter, content: document.content ?? '' };
+}
+
+/**
+ * Turn a folder name or slug into a single path segment: separators and characters that are not allowed
+ * in file names are replaced, and leading dots are dropped so `.` and `..` cannot leave the directory
+ */
+function pathSegment(name: string): string {
+  return name.replace(/[/\\:*?"<>|\u0000-\u001f]/g, '-').replace(/^[\s.]+/, '').trim() || 'untitled';
+}
+
+function isInside(root: string, resolved: string): boolean {
+  const relative = path.relative(root, resolved);
+  return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * Resolve a synced path against the local directory, refusing any path that leaves it
+ */
+function resolveLocalPath(root: string, relativePath: string): string {
+  const resolved = path.resolve(root, relativePath);
+  if (resolved === root || !isInside(root, resolved)) {
+    throw new ValidationError('Synced path is outside the local directory', [{ field: 'path', message: `${relativePath} must stay inside ${root}` }]);
+  }
+  return resolved;
+}
+
+async function scanLocal(root: string): Promise<{ directories: Set<string>; files: Map<string, LocalDocument> }> {
+  const directories = new Set<string>();
+  const files = new Map<string, LocalDocument>();
+  const walk = async (relative: string) => {
+    let entries;
+    try {
+      entries = await readdir(path.join(root, relative), { withFileTypes: true });
+    } catch (error) {
+      // A directory that does not exist yet is synced as empty
+      if (!relative && (error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) continue;
+      const entryPath = relative ? `${relative}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        directories.add(entryPath);
+        await walk(entryPath);
+      } else if (entry.isFile() && entry.name.endsWith('.md')) {
+        const parts = parseDocumentFile(await readFile(path.join(root, entryPath), 'utf8'), entry.name);
+        files.set(entryPath, { ...parts, hash: documentHash(parts) });
+      }
+    }
+  };
+  await walk('');
+  return { directories, files };
+}
+
+async function readState(root: string, scope: SyncState['scope']): Promise<SyncState> {
+  let state: SyncState;
+  try {
+    state = JSON.parse(await readFile(path.join(root, SYNC_STATE_FILE), 'utf8')) as SyncState;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { scope, documents: {} };
+    throw new ValidationError(`Cannot read ${SYNC_STATE_FILE}`, [{ field: 'localPath', message: (error as Error).message }], {
+      hint: `Fix or delete ${SYNC_STATE_FILE}; without it every differing document is reported as a conflict on the next sync.`,
+    });
+  }
+  if (state.scope?.projectId !== scope.projectId || state.scope?.folderId !== scope.folderId) {
+    throw new ValidationError('The directory was synced with a different project or folder', [
+      { field: 'localPath', message: `was synced with projectId ${state.scope?.projectId ?? 'none'} and folderId ${state.scope?.folderId ?? 'none'}` },
+    ], { hint: 'Use the same projectId and folderId as the previous sync, or sync into another directory.' });
+  }
+  return { scope, documents: state.documents ?? {} };
+}
+
+/**
+ * Resolve the local directory; with a sync root it must lie inside that root
+ */
+export function resolveSyncPath(localPath: string, syncRoot: string | undefined): string {
+  if (!syncRoot) return path.resolve(localPath);
+  const root = path.resolve(syncRoot);
+  const resolved = path.resolve(root, localPath);
+  if (!isInside(root, resolved)) {
+    throw new ValidationError('Local path is outside the sync root', [{ field: 'localPath', message: `must be inside ${root}` }], {
+      hint: 'Pass a path relative to THINKPROMPT_SYNC_ROOT.',
+    });
+  }
+  return resolved;
+}
+
+// ============ Remote Documents ============
+
+async function scanRemote(client: ThinkPromptApiClient, options: SyncOptions, state: SyncState) {
+  const tree = await client.getDocumentFolderTree({ projectId: options.projectId });
+  // The tree nests folders in `children`; collect all and rebuild the hierarchy from parentId
+  const all = new Map<string, DocumentFolder>();
+  const collect = (folders: DocumentFolder[] | undefined) => folders?.forEach((folder) => {
+    all.set(folder.id, folder);
+    collect(folder.children);
+  });
+  collect(Array.isArray(tree) ? tree as DocumentFolder[] : tree.folders);
+
+  const rootId = options.folderId ?? null;
+  if (rootId && !all.has(rootId)) {
+    throw new ValidationError('Folder not found in the document folder tree', [{ field: 'folderId', message: `no folder ${rootId}${options.projectId ? ` in project ${options.projectId}` : ''}` }]);
+  }
+  const folderPaths = new Map<string | null, string>([[rootId, '']]);
+  const visit = (parentId: string | null, parentPath: string) => {
+    for (const folder of all.values()) {
+      if ((folder.parentId ?? null) !== parentId) continue;
+      const folderPath = parentPath ? `${parentPath}/${pathSegment(folder.name)}` : pathSegment(folder.name);
+      folderPaths.set(folder.id, folderPath);
+      visit(folder.id, folderPath);
+    }
+  };
+  visit(rootId, '');
+
+  const { data } = await client.collectAll((params: DocumentQueryParams) => client.listDocuments(params), { projectId: options.projectId });
+  const documents = new Map<string, Document>();
+  // Pushed files keep their name even when the server derives a different slug
+  const syncedPaths = new Map(Object.entries(state.documents).map(([filePath, entry]) => [entry.documentId, filePath]));
+  for (const document of data) {
+    const folderPath = folderPaths.get(document.folderId ?? null);
+    if (folderPath === undefined) continue;
+    const syncedPath = syncedPaths.get(document.id);
+    const syncedDir = syncedPath && path.posix.dirname(syncedPath);
+    documents.set(syncedPath && (syncedDir === '.' ? '' : syncedDir) === folderPath
+      ? syncedPath
+      : folderPath ? `${folderPath}/${pathSegment(document.slug)}.md` : `${pathSegment(document.slug)}.md`, document);
+  }
+  const folders = new Map([...folderPaths].filter(([id]) => id !== rootId).map(([id, folderPath]) => [folderPath, id as string]));
+  return { folders, documents, rootId };
+}
+
+// ============ Planning ============
+
+interface PlannedDocument {
+  item: SyncItem;
+  local?: LocalDocument;
+  remote?: Document;
+  /** Full remote document, fetched when its content is needed */
+  remoteFull?: Document;
+}
+
+function compareByDepth(a: string, b: string): number {
+  return a.split('/').length - b.split('/').length || a.localeCompare(b);
+}
+
+function resolveConflict(planned: PlannedDocument, strategy: ConflictStrategy): void {
+  const { item, local, remote } = planned;
+  if (strategy === 'prefer_local' && local) {
+    item.action = remote ? 'push_update' : 'push_create';
+  } else if (strategy === 'prefer_remote' && remote) {
+    item.action = 'pull';
+  } else {
+    return;
+  }
+  item.reason = `${item.reason}; resolved with ${strategy}`;
+}
+
+/**
+ * Sync a local directory with ThinkPrompt. With `dryRun` (the default) only the plan is returned.
+ */
+export async function syncDocuments(client: ThinkPromptApiClient, options: SyncOptions): Promise<SyncResult> {
+  const { direction = 'both', onConflict = 'report', dryRun = true } = options;
+  const root = path.resolve(options.localPath);
+  const state = await readState(root, { projectId: options.projectId ?? null, folderId: options.folderId ?? null });
+  // Versions and content drive the plan, so remote reads bypass the response cache
+  const [local, remote] = await Promise.all([scanLocal(root), client.withFreshResponses(() => scanRemote(client, options, state))]);
+
+  // Folders
+  const folderItems: SyncItem[] = [];
+  for (const dir of [...local.directories].filter((d) => !remote.folders.has(d)).sort(compareByDepth)) {
+    folderItems.push({ path: dir, kind: 'folder', action: 'create_remote_folder', status: 'planned' });
+  }
+  for (const dir of [...remote.folders.keys()].filter((d) => !local.directories.has(d)).sort(compareByDepth)) {
+    folderItems.push({ path: dir, kind: 'folder', action: 'create_local_directory', status: 'planned' });
+  }
+
+  // Documents
+  const paths = [...new Set([...local.files.keys(), ...remote.documents.keys(), ...Object.keys(state.documents)])].sort();
+  const planned = await mapWithConcurrency(paths, 5, async (filePath): Promise<PlannedDocument | null> => {
+    const localDoc = local.files.get(filePath);
+    const remoteDoc = remote.documents.get(filePath);
+    let synced: SyncStateEntry | undefined = state.documents[filePath];
+    // A different document now lives at this path; treat it as never synced
+    if (synced && remoteDoc && synced.documentId !== remoteDoc.id) synced = undefined;
+    if (!localDoc && !remoteDoc) {
+      delete state.documents[filePath];
+      return null;
+    }
+    const item: SyncItem = {
+      path: filePath,
+      kind: 'document',
+      action: 'unchanged',
+      documentId: remoteDoc?.id ?? synced?.documentId,
+      syncedVersion: synced?.version,
+      remoteVersion: remoteDoc?.version,
+      status: 'planned',
+    };
+    const entry: PlannedDocument = { item, local: localDoc, remote: remoteDoc };
+
+    if (localDoc && remoteDoc) {
+      const remoteChanged = !synced || synced.version !== remoteDoc.version;
+      const localChanged = !synced || synced.hash !== localDoc.hash;
+      if (!remoteChanged && !localChanged) return entry;
+      entry.remoteFull = await client.withFreshResponses(() => client.getDocument(remoteDoc.id));
+      if (documentHash(remoteParts(entry.remoteFull)) === localDoc.hash) {
+        item.action = 'in_sync';
+      } else if (!localChanged) {
+        item.action = 'pull';
+      } else if (!remoteChanged) {
+        item.action = 'push_update';
+      } else {
+        item.action = 'conflict';
+        item.reason = synced ? 'Changed locally and in ThinkPrompt since the last sync' : 'Exists locally and in ThinkPrompt with different content and was never synced';
+      }
+    } else if (localDoc) {
+      item.action = synced ? 'conflict' : 'push_create';
+      if (synced) item.reason = 'Deleted, moved or archived in ThinkPrompt since the last sync';
+    } else {
+      item.action = synced ? 'conflict' : 'pull';
+      if (synced) item.reason = 'Deleted or moved locally since the last sync';
+    }
+    if (item.action === 'conflict') resolveConflict(entry, onConflict);
+    return entry;
+  });
+  const documents = planned.filter((entry): entry is PlannedDocument => entry !== null);
+
+  // Direction and missing parent folders
+  const skippedFolders = new Set<string>();
+  for (const item of folderItems) {
+    if ((direction === 'pull' && PUSH_ACTIONS.has(item.action)) || (direction === 'push' && PULL_ACTIONS.has(item.action))) {
+      item.reason = `${item.action === 'create_remote_folder' ? 'Local' : 'Remote'} folder not synced (direction: ${direction})`;
+      item.action = 'skipped';
+      skippedFolders.add(item.path);
+    }
+  }
+  for (const { item } of documents) {
+    if ((direction === 'pull' && PUSH_ACTIONS.has(item.action)) || (direction === 'push' && PULL_ACTIONS.has(item.action))) {
+      item.reason = `${PUSH_ACTIONS.has(item.action) ? 'Local' : 'Remote'} change not synced (direction: ${direction})`;
+      item.action = 'skipped';
+    } else if (item.action === 'push_create' && skippedFolders.has(path.posix.dirname(item.path))) {
+      item.reason = 'Folder does not exist in ThinkPrompt';
+      item.action = 'skipped';
+    }
+  }
+
+  const items = [...folderItems, ...documents.map((entry) => entry.item)];
+  if (!dryRun) await applyPlan(client, root, options, remote, folderItems, documents, state);
+  const summary: SyncResult['summary'] = { failed: 0 };
+  for (const item of items) {
+    summary[item.action] = (summary[item.action] ?? 0) + 1;
+    if (item.status === 'failed') summary.failed++;
+  }
+  return { localPath: root, dryRun, summary, items };
+}
+
+// ============ Applying ============
+
+async function applyPlan(
+  client: ThinkPromptApiClient,
+  root: string,
+  options: SyncOptions,
+  remote: Awaited<ReturnType<typeof scanRemote>>,
+  folderItems: SyncItem[],
+  documents: PlannedDocument[],
+  state: SyncState,
+): Promise<void> {
+  await mkdir(root, { recursive: true });
+  const folderIds = new Map<string, string | null>([['', remote.rootId], ...remote.folders]);
+  // Parents come first, so folders are created one at a time
+  for (const item of folderItems) {
+    try {
+      if (item.action === 'create_remote_folder') {
+        const parentId = folderIds.get(path.posix.dirname(item.path) === '.' ? '' : path.posix.dirname(item.path));
+        if (parentId === undefined) throw new Error('Parent folder was not created');
+        const folder = await client.createDocumentFolder({ name: path.posix.basename(item.path), parentId: parentId ?? undefined, projectId: options.projectId });
+        folderIds.set(item.path, folder.id);
+        item.status = 'applied';
+      } else if (item.action === 'create_local_directory') {
+        await mkdir(resolveLocalPath(root, item.path), { recursive: true });
+        item.status = 'applied';
+      }
+    } catch (error) {
+      item.status = 'failed';
+      item.error = toErrorPayload(error);
+    }
+  }
+
+  await mapWithConcurrency(documents, 4, async (entry) => {
+    const { item, local } = entry;
+    try {
+      if (item.action === 'push_create') {
+        const dir = path.posix.dirname(item.path);
+        const folderId = folderIds.get(dir === '.' ? '' : dir);
+        if (folderId === undefined) throw new Error('Folder was not created in ThinkPrompt');
+        // Pushes follow the same per-folder frontmatter schema as create_document and update_document
+        const created = await client.createDocument(await applyFolderSchemaToCreate(client, {
+          title: local!.title,
+          content: local!.content,
+          frontmatter: local!.frontmatter,
+          folderId: folderId ?? undefined,
+          projectId: options.projectId,
+        }));
+        state.documents[item.path] = { documentId: created.id, version: created.version, hash: local!.hash };
+        item.documentId = created.id;
+        item.remoteVersion = created.version;
+      } else if (item.action === 'push_update') {
+        // A remote edit made since planning must not be overwritten; the next sync plans with it
+        const current = await client.withFreshResponses(() => client.getDocument(entry.remote!.id));
+        if (current.version !== entry.remote!.version) {
+          item.action = 'conflict';
+          item.reason = 'Changed in ThinkPrompt while syncing';
+          item.remoteVersion = current.version;
+          throw new ConflictError(`Document ${current.id} was changed in ThinkPrompt during the sync`, {
+            hint: 'Run sync_documents again to plan with the current version.',
+            details: { documentId: current.id, expectedVersion: entry.remote!.version, currentVersion: current.version },
+          });
+        }
+        const updated = await client.updateDocument(entry.remote!.id, await applyFolderSchemaToUpdate(client, entry.remote!.id, {
+          title: local!.title,
+          content: local!.content,
+          frontmatter: local!.frontmatter,
+          changeSummary: `Synced from local file ${item.path}`,
+        }));
+        state.documents[item.path] = { documentId: updated.id, version: updated.version, hash: local!.hash };
+        item.remoteVersion = updated.version;
+      } else if (item.action === 'pull') {
+        const document = entry.remoteFull ?? await client.getDocument(entry.remote!.id);
+        const filePath = resolveLocalPath(root, item.path);
+        await mkdir(path.dirname(filePath), { recursive: true });
+        await writeFile(filePath, renderDocumentFile(document), 'utf8');
+        state.documents[item.path] = { documentId: document.id, version: document.version, hash: documentHash(remoteParts(document)) };
+      } else if (item.action === 'in_sync') {
+        state.documents[item.path] = { documentId: entry.remote!.id, version: entry.remoteFull!.version, hash: local!.hash };
+      } else {
+        return;
+      }
+      item.status = 'applied';
+    } catch (error) {
+      item.status = 'failed';
+      item.error = toErrorPayload(error);
+    }
+  });
+
+  await writeFile(path.join(root, SYNC_STATE_FILE), `${JSON.stringify(state, null, 2)}\n`, 'utf8');
+}
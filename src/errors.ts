@@ -0,0 +1,245 @@
+/**
+ * ThinkPrompt Errors
+ * Typed error hierarchy with machine-readable codes and recovery hints for agents
+ */
+
+import type { Workspace } from './api-client.js';
+
+export type ErrorCode =
+  | 'invalid_arguments'
+  | 'validation_failed'
+  | 'not_found'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'conflict'
+  | 'rate_limited'
+  | 'server_error'
+  | 'network_error'
+  | 'timeout'
+  | 'api_error'
+  | 'internal_error';
+
+export interface FieldError {
+  field: string;
+  message: string;
+  allowedValues?: unknown[];
+}
+
+/**
+ * Render a value path as a FieldError field: `steps[0].action`
+ */
+export function formatFieldPath(path: readonly PropertyKey[]): string {
+  return path.reduce<string>((acc, segment) => {
+    if (typeof segment === 'number') return `${acc}[${segment}]`;
+    return acc ? `${acc}.${String(segment)}` : String(segment);
+  }, '') || '(root)';
+}
+
+export interface ErrorPayload {
+  code: ErrorCode;
+  status: number | null;
+  message: string;
+  hint?: string;
+  fieldErrors?: FieldError[];
+  retryAfterMs?: number;
+  details?: Record<string, unknown>;
+}
+
+export interface ThinkPromptErrorOptions {
+  status?: number | null;
+  hint?: string;
+  details?: Record<string, unknown>;
+  cause?: unknown;
+}
+
+export class ThinkPromptError extends Error {
+  readonly code: ErrorCode;
+  readonly status: number | null;
+  readonly hint?: string;
+  readonly details?: Record<string, unknown>;
+
+  constructor(code: ErrorCode, message: string, options: ThinkPromptErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'ThinkPromptError';
+    this.code = code;
+    this.status = options.status ?? null;
+    this.hint = options.hint;
+    this.details = options.details;
+  }
+
+  toPayload(): ErrorPayload {
+    return { code: this.code, status: this.status, message: this.message, hint: this.hint, details: this.details };
+  }
+}
+
+export class ValidationError extends ThinkPromptError {
+  readonly fieldErrors: FieldError[];
+
+  constructor(message: string, fieldErrors: FieldError[], options: ThinkPromptErrorOptions & { code?: ErrorCode } = {}) {
+    super(options.code ?? 'validation_failed', message, { hint: 'Fix the listed fields and retry.', ...options });
+    this.name = 'ValidationError';
+    this.fieldErrors = fieldErrors;
+  }
+
+  toPayload(): ErrorPayload {
+    return { ...super.toPayload(), fieldErrors: this.fieldErrors };
+  }
+}
+
+export class NotFoundError extends ThinkPromptError {
+  constructor(message: string, options: ThinkPromptErrorOptions = {}) {
+    super('not_found', message, { status: 404, ...options });
+    this.name = 'NotFoundError';
+  }
+}
+
+export class AuthenticationError extends ThinkPromptError {
+  constructor(message: string, options: ThinkPromptErrorOptions = {}) {
+    super('unauthorized', message, { status: 401, ...options });
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class ForbiddenError extends ThinkPromptError {
+  readonly workspaceRole: Workspace['role'] | null;
+
+  constructor(message: string, workspaceRole: Workspace['role'] | null, options: ThinkPromptErrorOptions = {}) {
+    super('forbidden', message, { status: 403, ...options });
+    this.name = 'ForbiddenError';
+    this.workspaceRole = workspaceRole;
+  }
+}
+
+export class ConflictError extends ThinkPromptError {
+  constructor(message: string, options: ThinkPromptErrorOptions = {}) {
+    super('conflict', message, { status: 409, ...options });
+    this.name = 'ConflictError';
+  }
+}
+
+export class RateLimitError extends ThinkPromptError {
+  readonly retryAfterMs: number | null;
+
+  constructor(message: string, retryAfterMs: number | null, options: ThinkPromptErrorOptions = {}) {
+    super('rate_limited', message, { status: 429, ...options });
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  toPayload(): ErrorPayload {
+    return { ...super.toPayload(), retryAfterMs: this.retryAfterMs ?? undefined };
+  }
+}
+
+export class ServerError extends ThinkPromptError {
+  constructor(message: string, options: ThinkPromptErrorOptions = {}) {
+    super('server_error', message, options);
+    this.name = 'ServerError';
+  }
+}
+
+export class NetworkError extends ThinkPromptError {
+  constructor(message: string, options: ThinkPromptErrorOptions & { code?: ErrorCode } = {}) {
+    super(options.code ?? 'network_error', message, options);
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends NetworkError {
+  constructor(message: string, options: ThinkPromptErrorOptions = {}) {
+    super(message, { code: 'timeout', ...options });
+    this.name = 'TimeoutError';
+  }
+}
+
+// ============ API Error Mapping ============
+
+export interface ApiErrorContext {
+  method: string;
+  endpoint: string;
+  workspace?: Workspace | null;
+  retryAfterMs?: number | null;
+}
+
+/**
+ * Parse a NestJS error body: `{ statusCode, message: string | string[], error }`
+ */
+export function parseErrorBody(body: string): { message: string; messages: string[]; raw: unknown } {
+  let raw: unknown = body;
+  try {
+    raw = JSON.parse(body);
+  } catch {
+    return { message: body.trim(), messages: body.trim() ? [body.trim()] : [], raw };
+  }
+  const message = (raw as { message?: unknown })?.message;
+  const messages = Array.isArray(message) ? message.map(String) : typeof message === 'string' ? [message] : [];
+  const error = (raw as { error?: unknown })?.error;
+  return { message: messages.join('; ') || (typeof error === 'string' ? error : ''), messages, raw };
+}
+
+/**
+ * class-validator messages start with the property path, e.g. "scope.inScope must be an array"
+ */
+function toFieldError(message: string): FieldError {
+  const match = message.match(/^([\w.[\]]+)\s+(.*)$/);
+  if (!match) return { field: '(root)', message };
+  const allowed = match[2].match(/must be one of the following values:\s*(.+)$/);
+  return {
+    field: match[1],
+    message: match[2],
+    allowedValues: allowed ? allowed[1].split(',').map((v) => v.trim()).filter(Boolean) : undefined,
+  };
+}
+
+/**
+ * Map a failed HTTP response to the matching typed error
+ */
+export function createApiError(status: number, body: string, context: ApiErrorContext): ThinkPromptError {
+  const parsed = parseErrorBody(body);
+  const target = `${context.method} ${context.endpoint}`;
+  const message = parsed.message || `API request failed: ${status}`;
+  const workspaceLabel = context.workspace ? `"${context.workspace.name}"` : 'the current workspace';
+
+  switch (status) {
+    case 400:
+    case 422:
+      return new ValidationError(message, parsed.messages.map(toFieldError), { status });
+    case 401:
+      return new AuthenticationError(message, {
+        hint: 'The API key is missing, invalid or expired. Verify THINKPROMPT_API_KEY (or the X-ThinkPrompt-Key header) at thinkprompt.ai/settings.',
+      });
+    case 403: {
+      const role = context.workspace?.role ?? null;
+      const hint = role === 'viewer'
+        ? `Your role in ${workspaceLabel} is "viewer", which is read-only. Ask a workspace admin for editor access, or use switch_workspace to a workspace where you can edit.`
+        : `Your role${role ? ` ("${role}")` : ''} in ${workspaceLabel} does not allow ${target}. Check the workspace role with get_current_workspace.`;
+      return new ForbiddenError(message, role, { hint });
+    }
+    case 404:
+      return new NotFoundError(message, {
+        hint: `Nothing found for ${target}. Check the ID — the resource may have been deleted or belong to another workspace than ${workspaceLabel}.`,
+      });
+    case 409:
+      return new ConflictError(message, { hint: 'The resource was changed concurrently or already exists. Re-fetch it and retry.' });
+    case 429:
+      return new RateLimitError(message, context.retryAfterMs ?? null, {
+        hint: context.retryAfterMs != null
+          ? `Rate limit reached. Wait ${Math.ceil(context.retryAfterMs / 1000)}s before retrying.`
+          : 'Rate limit reached. Wait before retrying.',
+      });
+    default:
+      if (status >= 500) {
+        return new ServerError(message, { status, hint: 'The ThinkPrompt API failed internally. Retrying later may help; the request was not necessarily applied.' });
+      }
+      return new ThinkPromptError('api_error', message, { status });
+  }
+}
+
+/**
+ * Convert any thrown value into the payload returned to MCP clients
+ */
+export function toErrorPayload(error: unknown): ErrorPayload {
+  if (error instanceof ThinkPromptError) return error.toPayload();
+  const message = error instanceof Error ? error.message : String(error);
+  return { code: 'internal_error', status: null, message };
+}
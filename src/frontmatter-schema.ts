@@ -0,0 +1,290 @@
+/**
+ * Frontmatter Schemas
+ * Per-folder JSON Schemas for document frontmatter, stored as a `_frontmatter-schema` document in the folder.
+ * Frontmatter is validated and completed with defaults before documents are written.
+ */
+
+import { z } from 'zod';
+
+import type { CreateDocumentInput, Document, DocumentQueryParams, ThinkPromptApiClient, UpdateDocumentInput } from './api-client.js';
+import { formatFieldPath, ValidationError } from './errors.js';
+import type { FieldError } from './errors.js';
+
+export const FRONTMATTER_SCHEMA_TITLE = '_frontmatter-schema';
+
+export const SCHEMA_TYPES = ['string', 'number', 'integer', 'boolean', 'array', 'object', 'null'] as const;
+
+export const SCHEMA_FORMATS = ['date', 'date-time', 'email', 'uri'] as const;
+
+/**
+ * The JSON Schema subset supported for frontmatter
+ */
+export interface FrontmatterSchema {
+  $schema?: string;
+  title?: string;
+  description?: string;
+  type?: (typeof SCHEMA_TYPES)[number] | Array<(typeof SCHEMA_TYPES)[number]>;
+  enum?: unknown[];
+  const?: unknown;
+  /** Filled in when the key is missing */
+  default?: unknown;
+  properties?: Record<string, FrontmatterSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: FrontmatterSchema;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: (typeof SCHEMA_FORMATS)[number];
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface FolderSchema {
+  folderId: string;
+  /** The `_frontmatter-schema` document holding the schema */
+  documentId: string;
+  schema: FrontmatterSchema;
+}
+
+export interface FrontmatterValidation {
+  /** The frontmatter with defaults filled in */
+  value: Record<string, unknown>;
+  errors: FieldError[];
+  /** Keys that were missing and filled from `default` */
+  defaulted: string[];
+}
+
+export interface FolderValidationReport {
+  folderId: string;
+  schemaDocumentId: string;
+  checked: number;
+  valid: number;
+  invalid: Array<{ documentId: string; title: string; errors: FieldError[] }>;
+  /** Valid documents that lack keys with a default; the defaults are stored on their next update */
+  missingDefaults: Array<{ documentId: string; title: string; keys: string[] }>;
+}
+
+// ============ Schema Parsing ============
+
+const schemaSchema: z.ZodType<FrontmatterSchema> = z.lazy(() => z.strictObject({
+  $schema: z.string().optional(),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  type: z.union([z.enum(SCHEMA_TYPES), z.array(z.enum(SCHEMA_TYPES)).min(1)]).optional(),
+  enum: z.array(z.unknown()).min(1).optional(),
+  const: z.unknown().optional(),
+  default: z.unknown().optional(),
+  properties: z.record(z.string(), schemaSchema).optional(),
+  required: z.array(z.string()).optional(),
+  additionalProperties: z.boolean().optional(),
+  items: schemaSchema.optional(),
+  minItems: z.number().int().min(0).optional(),
+  maxItems: z.number().int().min(0).optional(),
+  uniqueItems: z.boolean().optional(),
+  minLength: z.number().int().min(0).optional(),
+  maxLength: z.number().int().min(0).optional(),
+  pattern: z.string().refine((pattern) => {
+    try {
+      new RegExp(pattern, 'u');
+      return true;
+    } catch {
+      return false;
+    }
+  }, 'is not a valid regular expression').optional(),
+  format: z.enum(SCHEMA_FORMATS).optional(),
+  minimum: z.number().optional(),
+  maximum: z.number().optional(),
+}));
+
+/**
+ * Parse the content of a schema document: JSON, optionally wrapped in a ```json code fence
+ */
+export function parseFrontmatterSchema(content: string, field = 'content'): FrontmatterSchema {
+  const fenced = /^\s*```(?:json)?[ \t]*\r?\n([\s\S]*?)\r?\n```\s*$/.exec(content);
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fenced ? fenced[1] : content);
+  } catch (error) {
+    throw new ValidationError('Frontmatter schema is not valid JSON', [
+      { field, message: error instanceof Error ? error.message : String(error) },
+    ], { hint: `The ${FRONTMATTER_SCHEMA_TITLE} document must contain a JSON Schema object, optionally in a \`\`\`json code block.` });
+  }
+  const parsed = schemaSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new ValidationError('Frontmatter schema is invalid', parsed.error.issues.map((issue) => ({
+      field: formatFieldPath([field, ...issue.path]),
+      message: issue.message,
+    })), { hint: 'Supported keywords: type, enum, const, default, properties, required, additionalProperties, items, minItems, maxItems, uniqueItems, minLength, maxLength, pattern, format, minimum, maximum.' });
+  }
+  if (parsed.data.type !== undefined && parsed.data.type !== 'object') {
+    throw new ValidationError('Frontmatter schema must describe an object', [{ field: `${field}.type`, message: 'must be "object"' }]);
+  }
+  return parsed.data;
+}
+
+// ============ Validation ============
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function typeOf(value: unknown): (typeof SCHEMA_TYPES)[number] | 'undefined' {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (Number.isInteger(value)) return 'integer';
+  const type = typeof value;
+  return type === 'string' || type === 'number' || type === 'boolean' || type === 'object' ? type : 'undefined';
+}
+
+const FORMATS: Record<(typeof SCHEMA_FORMATS)[number], { pattern: RegExp; label: string }> = {
+  'date': { pattern: /^\d{4}-\d{2}-\d{2}$/, label: 'a date (YYYY-MM-DD)' },
+  'date-time': { pattern: /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/, label: 'a date-time (ISO 8601)' },
+  'email': { pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/, label: 'an email address' },
+  'uri': { pattern: /^[a-z][a-z\d+.-]*:\S+$/i, label: 'a URI' },
+};
+
+function validateValue(schema: FrontmatterSchema, value: unknown, field: string, errors: FieldError[]): void {
+  const error = (message: string, allowedValues?: unknown[]) => errors.push(allowedValues ? { field, message, allowedValues } : { field, message });
+  if (schema.type !== undefined) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = typeOf(value);
+    if (!allowed.includes(actual as never) && !(actual === 'integer' && allowed.includes('number'))) {
+      error(`must be ${allowed.join(' or ')}, got ${actual === 'integer' ? 'number' : actual}`);
+      return;
+    }
+  }
+  if (schema.enum && !schema.enum.some((option) => JSON.stringify(option) === JSON.stringify(value))) error('must be one of the allowed values', schema.enum);
+  if ('const' in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) error(`must be ${JSON.stringify(schema.const)}`);
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) error(`must be at least ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) error(`must be at most ${schema.maxLength} characters`);
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) error(`must match ${schema.pattern}`);
+    if (schema.format && !FORMATS[schema.format].pattern.test(value)) error(`must be ${FORMATS[schema.format].label}`);
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) error(`must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) error(`must be <= ${schema.maximum}`);
+  }
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) error(`must have at least ${schema.minItems} item(s)`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) error(`must have at most ${schema.maxItems} item(s)`);
+    if (schema.uniqueItems && new Set(value.map((item) => JSON.stringify(item))).size !== value.length) error('must not contain duplicates');
+    if (schema.items) value.forEach((item, index) => validateValue(schema.items!, item, `${field}[${index}]`, errors));
+  }
+  if (isPlainObject(value)) validateObject(schema, value, field, errors);
+}
+
+function validateObject(schema: FrontmatterSchema, value: Record<string, unknown>, field: string, errors: FieldError[]): void {
+  for (const key of schema.required ?? []) {
+    if (!(key in value)) errors.push({ field: `${field}.${key}`, message: 'is required' });
+  }
+  for (const [key, item] of Object.entries(value)) {
+    const property = schema.properties?.[key];
+    if (property) validateValue(property, item, `${field}.${key}`, errors);
+    else if (schema.additionalProperties === false) errors.push({ field: `${field}.${key}`, message: 'is not allowed', allowedValues: Object.keys(schema.properties ?? {}) });
+  }
+}
+
+/**
+ * Fill missing top-level keys from their `default`, then validate. The input is not modified.
+ */
+export function validateFrontmatter(schema: FrontmatterSchema, frontmatter: Record<string, unknown> | null | undefined, field = 'frontmatter'): FrontmatterValidation {
+  const value: Record<string, unknown> = { ...frontmatter };
+  const defaulted: string[] = [];
+  for (const [key, property] of Object.entries(schema.properties ?? {})) {
+    if (!(key in value) && property.default !== undefined) {
+      value[key] = structuredClone(property.default);
+      defaulted.push(key);
+    }
+  }
+  const errors: FieldError[] = [];
+  validateValue(schema, value, field, errors);
+  return { value, errors, defaulted };
+}
+
+// ============ Folder Schemas ============
+
+/**
+ * The schema stored in the folder itself; schemas are not inherited by subfolders
+ */
+export async function findFolderSchema(client: ThinkPromptApiClient, folderId: string): Promise<FolderSchema | null> {
+  const { data } = await client.collectAll((params: DocumentQueryParams) => client.listDocuments(params), { folderId, search: FRONTMATTER_SCHEMA_TITLE });
+  const holder = data.find((document) => document.title === FRONTMATTER_SCHEMA_TITLE && document.folderId === folderId && !document.isArchived);
+  if (!holder) return null;
+  const { content } = await client.getDocument(holder.id);
+  return { folderId, documentId: holder.id, schema: parseFrontmatterSchema(content, `${FRONTMATTER_SCHEMA_TITLE}.content`) };
+}
+
+/**
+ * Validate frontmatter against the schema of the folder a document is written to.
+ * Returns the frontmatter with defaults, or undefined when the folder has no schema.
+ */
+export async function enforceFolderSchema(
+  client: ThinkPromptApiClient,
+  folderId: string | null | undefined,
+  frontmatter: Record<string, unknown> | null | undefined,
+): Promise<Record<string, unknown> | undefined> {
+  if (!folderId) return undefined;
+  const folderSchema = await findFolderSchema(client, folderId);
+  if (!folderSchema) return undefined;
+  const { value, errors } = validateFrontmatter(folderSchema.schema, frontmatter);
+  if (errors.length > 0) {
+    throw new ValidationError(`Frontmatter does not match the schema of folder ${folderId}: ${errors.map((e) => `${e.field} ${e.message}`).join('; ')}`, errors, {
+      hint: `Fix the listed frontmatter keys. The schema is the ${FRONTMATTER_SCHEMA_TITLE} document in the folder.`,
+      details: { folderId, schemaDocumentId: folderSchema.documentId },
+    });
+  }
+  return value;
+}
+
+export async function applyFolderSchemaToCreate(client: ThinkPromptApiClient, input: CreateDocumentInput): Promise<CreateDocumentInput> {
+  if (input.title === FRONTMATTER_SCHEMA_TITLE) {
+    parseFrontmatterSchema(input.content ?? '');
+    return input;
+  }
+  const frontmatter = await enforceFolderSchema(client, input.folderId, input.frontmatter);
+  return frontmatter ? { ...input, frontmatter } : input;
+}
+
+/**
+ * Frontmatter is checked when an update sets it or moves the document to another folder, so documents
+ * that predate a schema can still be edited otherwise. Changes to a schema document must keep it valid.
+ */
+export async function applyFolderSchemaToUpdate(client: ThinkPromptApiClient, documentId: string, input: UpdateDocumentInput): Promise<UpdateDocumentInput> {
+  if (input.frontmatter === undefined && input.folderId === undefined && input.content === undefined && input.title === undefined) return input;
+  // Validate against the folder and frontmatter the update is applied to, not a cached copy
+  const current = await client.withFreshResponses(() => client.getDocument(documentId));
+  if ((input.title ?? current.title) === FRONTMATTER_SCHEMA_TITLE) {
+    parseFrontmatterSchema(input.content ?? current.content ?? '');
+    return input;
+  }
+  if (input.frontmatter === undefined && (input.folderId === undefined || input.folderId === current.folderId)) return input;
+  const frontmatter = await enforceFolderSchema(client, input.folderId ?? current.folderId, input.frontmatter ?? current.frontmatter);
+  return frontmatter ? { ...input, frontmatter } : input;
+}
+
+export async function validateFolderDocuments(client: ThinkPromptApiClient, folderId: string): Promise<FolderValidationReport> {
+  const folderSchema = await findFolderSchema(client, folderId);
+  if (!folderSchema) {
+    throw new ValidationError(`Folder ${folderId} has no frontmatter schema`, [
+      { field: 'folderId', message: `has no ${FRONTMATTER_SCHEMA_TITLE} document` },
+    ], { hint: `Create a document titled ${FRONTMATTER_SCHEMA_TITLE} in the folder with a JSON Schema as its content.` });
+  }
+  const { data } = await client.collectAll((params: DocumentQueryParams) => client.listDocuments(params), { folderId });
+  const documents = data.filter((document: Document) => document.folderId === folderId && document.id !== folderSchema.documentId && !document.isArchived);
+
+  const report: FolderValidationReport = { folderId, schemaDocumentId: folderSchema.documentId, checked: documents.length, valid: 0, invalid: [], missingDefaults: [] };
+  for (const document of documents) {
+    const { errors, defaulted } = validateFrontmatter(folderSchema.schema, document.frontmatter);
+    if (errors.length > 0) {
+      report.invalid.push({ documentId: document.id, title: document.title, errors });
+      continue;
+    }
+    report.valid++;
+    if (defaulted.length > 0) report.missingDefaults.push({ documentId: document.id, title: document.title, keys: defaulted });
+  }
+  return report;
+}
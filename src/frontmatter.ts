@@ -0,0 +1,66 @@
+/**
+ * Frontmatter
+ * YAML frontmatter serialization and parsing for Markdown documents
+ */
+
+import { parseDocument, stringify } from 'yaml';
+
+import { ValidationError } from './errors.js';
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// ============ Serialization ============
+
+/**
+ * Serialize a frontmatter object as YAML (block style)
+ */
+export function stringifyYaml(data: Record<string, unknown>): string {
+  // lineWidth 0 keeps long strings on one line instead of folding them. Only the final line break is
+  // removed: blank lines before it belong to a `|+` block scalar.
+  return stringify(data, { lineWidth: 0 }).replace(/\n$/, '');
+}
+
+/**
+ * Prepend `frontmatter` to Markdown `content` as a `---` delimited YAML block; empty frontmatter is omitted
+ */
+export function stringifyFrontmatter(frontmatter: Record<string, unknown> | null | undefined, content: string): string {
+  if (!frontmatter || Object.keys(frontmatter).length === 0) return content;
+  return `---\n${stringifyYaml(frontmatter)}\n---\n\n${content}`;
+}
+
+// ============ Parsing ============
+
+/**
+ * Parse a YAML frontmatter block; it must be a mapping (or empty)
+ */
+export function parseYaml(text: string): Record<string, unknown> {
+  const document = parseDocument(text);
+  const [error] = document.errors;
+  if (error) {
+    const message = error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, '');
+    throw new ValidationError(`Invalid YAML frontmatter: ${message}`, [
+      { field: 'frontmatter', message: `line ${error.linePos?.[0].line ?? 1}: ${message}` },
+    ]);
+  }
+  const value: unknown = document.toJS();
+  if (value === null || value === undefined) return {};
+  if (!isPlainObject(value)) {
+    throw new ValidationError('Invalid YAML frontmatter: frontmatter must be a mapping of keys to values', [
+      { field: 'frontmatter', message: 'line 1: frontmatter must be a mapping of keys to values' },
+    ]);
+  }
+  return value;
+}
+
+/**
+ * Split a Markdown file into its `---` delimited YAML frontmatter and the content after it
+ */
+export function parseFrontmatter(text: string): { frontmatter: Record<string, unknown>; content: string } {
+  const normalized = text.replace(/^\uFEFF/, '');
+  const match = /^---[ \t]*\r?\n([\s\S]*?)^(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/m.exec(normalized);
+  if (!match || match.index !== 0) return { frontmatter: {}, content: normalized };
+  const content = normalized.slice(match[0].length).replace(/^\r?\n/, '');
+  return { frontmatter: parseYaml(match[1]), content };
+}
@@ -0,0 +1,402 @@
+/**
+ * Gherkin
+ * Converts requirements and their acceptance criteria into Gherkin `.feature` files and back
+ */
+
+import type {
+  AcceptanceCriteriaType,
+  AcceptanceCriterion,
+  CreateAcceptanceCriterionInput,
+  Requirement,
+  ThinkPromptApiClient,
+  UpdateAcceptanceCriterionInput,
+} from './api-client.js';
+import { toErrorPayload } from './errors.js';
+import type { ErrorPayload } from './errors.js';
+
+export interface FeatureFile {
+  requirementId: string;
+  displayId: string;
+  fileName: string;
+  scenarioCount: number;
+  content: string;
+}
+
+const STEP_KEYWORD_PREFIX = /^(?:given|when|then|and|but)\s+/i;
+
+/**
+ * Gherkin tags cannot contain whitespace; `Payment Flow` becomes `@Payment-Flow`
+ */
+export function toGherkinTag(name: string): string {
+  return `@${name.trim().replace(/[\s@]+/g, '-').replace(/[^\p{L}\p{N}_.:-]/gu, '')}`;
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().normalize('NFKD').replace(/[^\w\s-]/g, '').trim().replace(/[\s_-]+/g, '-').slice(0, 60);
+}
+
+/**
+ * Render one step text as a keyword line plus `And` lines for every further line of the text.
+ * Data table rows and doc strings are kept as step arguments.
+ */
+function stepLines(keyword: 'Given' | 'When' | 'Then', text: string): string[] {
+  const result: string[] = [];
+  let docStringDelimiter: string | null = null;
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (docStringDelimiter) {
+      result.push(`      ${raw}`.trimEnd());
+      if (line === docStringDelimiter) docStringDelimiter = null;
+      continue;
+    }
+    if (!line) continue;
+    if (line.startsWith('"""') || line.startsWith('```')) {
+      docStringDelimiter = line.slice(0, 3);
+      result.push(`      ${line}`);
+    } else if (line.startsWith('|')) {
+      result.push(`      ${line}`);
+    } else {
+      // Authors often write the keyword themselves ("Given a user…") — avoid "Given Given"
+      result.push(`    ${result.length === 0 ? keyword : 'And'} ${line.replace(STEP_KEYWORD_PREFIX, '')}`);
+    }
+  }
+  return result;
+}
+
+export function renderScenario(criterion: AcceptanceCriterion, requirementTags: readonly string[]): string {
+  const tags = [toGherkinTag(criterion.type), ...requirementTags];
+  return [
+    `  ${tags.join(' ')}`,
+    `  Scenario: ${criterion.scenarioName.replace(/\r?\n/g, ' ')}`,
+    ...stepLines('Given', criterion.givenContext),
+    ...stepLines('When', criterion.whenAction),
+    ...stepLines('Then', criterion.thenOutcome),
+  ].join('\n');
+}
+
+/**
+ * Render a requirement as a feature file: the title becomes the Feature name, the user story its description
+ * and every acceptance criterion a Scenario tagged with its type and the requirement's tags.
+ * The leading `# requirement:` comment lets an import map the file back to the requirement.
+ */
+export function requirementToFeature(requirement: Requirement, criteria: readonly AcceptanceCriterion[]): FeatureFile {
+  const requirementTags = [...new Set((requirement.tags ?? []).map((tag) => toGherkinTag(tag.name)))];
+  const userStory = (requirement.description?.userStory ?? '').split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+  const scenarios = [...criteria].sort((a, b) => a.sortOrder - b.sortOrder).map((ac) => renderScenario(ac, requirementTags));
+  const content = [
+    `# requirement: ${requirement.id}`,
+    toGherkinTag(requirement.displayId),
+    `Feature: ${requirement.title.replace(/\r?\n/g, ' ')}`,
+    ...userStory.map((line) => `  ${line}`),
+    ...scenarios.flatMap((scenario) => ['', scenario]),
+  ].join('\n');
+  return {
+    requirementId: requirement.id,
+    displayId: requirement.displayId,
+    fileName: `${requirement.displayId}${requirement.title ? `-${slugify(requirement.title)}` : ''}.feature`,
+    scenarioCount: scenarios.length,
+    content: `${content}\n`,
+  };
+}
+
+// ============ Import ============
+
+export interface ParsedScenario {
+  scenarioName: string;
+  type: AcceptanceCriteriaType;
+  tags: string[];
+  givenContext: string;
+  whenAction: string;
+  thenOutcome: string;
+  /** 1-based line of the Scenario (or Scenario Outline) keyword */
+  line: number;
+}
+
+export interface ParsedFeature {
+  featureName: string | null;
+  /** From the `# requirement: <id>` comment written by the export */
+  requirementId: string | null;
+  scenarios: ParsedScenario[];
+  warnings: string[];
+}
+
+interface ScenarioDraft {
+  name: string;
+  tags: string[];
+  line: number;
+  outline: boolean;
+  steps: Record<'given' | 'when' | 'then', string[]>;
+  examples: { header: string[]; rows: string[][] }[];
+}
+
+const CRITERIA_TYPES: readonly AcceptanceCriteriaType[] = ['positive', 'negative', 'edge_case'];
+
+function parseTableRow(line: string): string[] {
+  return line.replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, '|'));
+}
+
+function substitute(text: string, values: Record<string, string>): string {
+  return text.replace(/<([^<>]+)>/g, (match, key: string) => values[key] ?? match);
+}
+
+function finishScenario(draft: ScenarioDraft, background: string[], warnings: string[]): ParsedScenario[] {
+  const typeTag = draft.tags.map((tag) => tag.slice(1)).find((tag): tag is AcceptanceCriteriaType => CRITERIA_TYPES.includes(tag as AcceptanceCriteriaType));
+  const base = {
+    type: typeTag ?? 'positive',
+    tags: draft.tags,
+    line: draft.line,
+  };
+  if (draft.steps.when.length === 0 || draft.steps.then.length === 0) {
+    warnings.push(`Line ${draft.line}: scenario "${draft.name}" has no ${draft.steps.when.length === 0 ? 'When' : 'Then'} step`);
+  }
+  const render = (values: Record<string, string>) => ({
+    givenContext: substitute([...background, ...draft.steps.given].join('\n'), values),
+    whenAction: substitute(draft.steps.when.join('\n'), values),
+    thenOutcome: substitute(draft.steps.then.join('\n'), values),
+  });
+  if (!draft.outline) return [{ ...base, scenarioName: draft.name, ...render({}) }];
+
+  const rows = draft.examples.flatMap((table) => table.rows.map((row) => Object.fromEntries(table.header.map((key, i) => [key, row[i] ?? '']))));
+  if (rows.length === 0) {
+    warnings.push(`Line ${draft.line}: scenario outline "${draft.name}" has no Examples rows; imported with placeholders`);
+    return [{ ...base, scenarioName: draft.name, ...render({}) }];
+  }
+  // Each example row becomes its own acceptance criterion
+  return rows.map((values) => {
+    const substituted = substitute(draft.name, values);
+    return {
+      ...base,
+      scenarioName: substituted !== draft.name ? substituted : `${draft.name} (${Object.values(values).join(', ')})`,
+      ...render(values),
+    };
+  });
+}
+
+/**
+ * Parse Scenarios and Scenario Outlines from feature file text.
+ * Background steps are prepended to every scenario's Given; And/But lines, doc strings and data tables
+ * continue the preceding step, and each Examples row of an outline becomes a separate scenario.
+ */
+export function parseFeature(text: string): ParsedFeature {
+  const lines = text.split(/\r?\n/);
+  const result: ParsedFeature = { featureName: null, requirementId: null, scenarios: [], warnings: [] };
+  let pendingTags: string[] = [];
+  let featureTags: string[] = [];
+  let background: string[] = [];
+  let inBackground = false;
+  let current: ScenarioDraft | null = null;
+  let section: 'given' | 'when' | 'then' | null = null;
+  let docString: { delimiter: string; indent: number } | null = null;
+  let examples: ScenarioDraft['examples'][number] | null = null;
+
+  const flush = () => {
+    if (current) result.scenarios.push(...finishScenario(current, background, result.warnings));
+    current = null;
+    section = null;
+    examples = null;
+  };
+  const appendToStep = (textLine: string) => {
+    const target = inBackground ? background : current && section ? current.steps[section] : null;
+    if (!target || target.length === 0) return false;
+    target[target.length - 1] += `\n${textLine}`;
+    return true;
+  };
+
+  lines.forEach((raw, index) => {
+    const lineNumber = index + 1;
+    const line = raw.trim();
+
+    if (docString) {
+      if (line === docString.delimiter) {
+        appendToStep(line);
+        docString = null;
+      } else {
+        appendToStep(raw.slice(Math.min(docString.indent, raw.length - raw.trimStart().length)));
+      }
+      return;
+    }
+    if (!line) return;
+    if (line.startsWith('#')) {
+      const requirement = line.match(/^#\s*requirement:\s*(\S+)/i);
+      if (requirement) result.requirementId = requirement[1];
+      return;
+    }
+    if (line.startsWith('@')) {
+      pendingTags.push(...line.split(/\s+/).filter((tag) => tag.startsWith('@')));
+      return;
+    }
+
+    const keyword = line.match(/^(Feature|Rule|Background|Scenario Outline|Scenario Template|Scenario|Example|Examples|Scenarios):\s*(.*)$/);
+    if (keyword) {
+      const [, name, title] = keyword;
+      switch (name) {
+        case 'Feature':
+          result.featureName = title;
+          featureTags = pendingTags;
+          break;
+        case 'Rule':
+          flush();
+          inBackground = false;
+          break;
+        case 'Background':
+          flush();
+          inBackground = true;
+          section = 'given';
+          break;
+        case 'Examples':
+        case 'Scenarios':
+          if (current?.outline) {
+            examples = { header: [], rows: [] };
+            current.examples.push(examples);
+          } else {
+            result.warnings.push(`Line ${lineNumber}: Examples outside of a Scenario Outline are ignored`);
+          }
+          break;
+        default:
+          flush();
+          inBackground = false;
+          current = {
+            name: title,
+            tags: [...new Set([...featureTags, ...pendingTags])],
+            line: lineNumber,
+            outline: name === 'Scenario Outline' || name === 'Scenario Template',
+            steps: { given: [], when: [], then: [] },
+            examples: [],
+          };
+      }
+      pendingTags = [];
+      return;
+    }
+
+    if (line.startsWith('|')) {
+      if (examples) {
+        if (examples.header.length === 0) examples.header = parseTableRow(line);
+        else examples.rows.push(parseTableRow(line));
+      } else if (!appendToStep(line)) {
+        result.warnings.push(`Line ${lineNumber}: data table without a preceding step is ignored`);
+      }
+      return;
+    }
+    if (line.startsWith('"""') || line.startsWith('```')) {
+      docString = { delimiter: line.slice(0, 3), indent: raw.length - raw.trimStart().length };
+      appendToStep(line);
+      return;
+    }
+
+    const step = line.match(/^(Given|When|Then|And|But|\*)\s+(.*)$/);
+    if (step) {
+      const [, stepKeyword, body] = step;
+      if (inBackground) {
+        background.push(body);
+        return;
+      }
+      if (!current) {
+        result.warnings.push(`Line ${lineNumber}: step outside of a scenario is ignored`);
+        return;
+      }
+      if (stepKeyword === 'Given' || stepKeyword === 'When' || stepKeyword === 'Then') section = stepKeyword.toLowerCase() as 'given' | 'when' | 'then';
+      current.steps[section ?? 'given'].push(body);
+      return;
+    }
+    // Free text below Feature/Scenario lines is description and has no counterpart in acceptance criteria
+  });
+  flush();
+
+  const seen = new Set<string>();
+  for (const scenario of result.scenarios) {
+    if (seen.has(scenario.scenarioName)) result.warnings.push(`Line ${scenario.line}: duplicate scenario name "${scenario.scenarioName}"`);
+    seen.add(scenario.scenarioName);
+  }
+  return result;
+}
+
+export type ScenarioChangeAction = 'create' | 'update' | 'delete';
+
+export interface ScenarioChange {
+  action: ScenarioChangeAction;
+  scenarioName: string;
+  acceptanceCriterionId?: string;
+  changedFields?: string[];
+  input?: CreateAcceptanceCriterionInput | UpdateAcceptanceCriterionInput;
+  status: 'planned' | 'applied' | 'failed';
+  error?: ErrorPayload;
+}
+
+export interface GherkinImportPlan {
+  changes: ScenarioChange[];
+  unchanged: string[];
+}
+
+// Compare step texts regardless of indentation, blank lines and leading step keywords
+function normalizeStepText(text: string): string {
+  return text.split(/\r?\n/).map((line) => line.trim().replace(STEP_KEYWORD_PREFIX, '')).filter(Boolean).join('\n');
+}
+
+/**
+ * Diff parsed scenarios against existing acceptance criteria by scenarioName. Criteria without a scenario
+ * are only deleted with `deleteMissing`, so importing a partial feature file never removes anything.
+ */
+export function planGherkinImport(
+  scenarios: readonly ParsedScenario[],
+  existing: readonly AcceptanceCriterion[],
+  options: { deleteMissing?: boolean } = {},
+): GherkinImportPlan {
+  const { deleteMissing = false } = options;
+  const existingByName = new Map(existing.map((ac) => [ac.scenarioName.trim(), ac]));
+  const imported = new Set<string>();
+  const changes: ScenarioChange[] = [];
+  const unchanged: string[] = [];
+
+  for (const scenario of scenarios) {
+    const name = scenario.scenarioName.trim();
+    if (imported.has(name)) continue;
+    imported.add(name);
+    const input: CreateAcceptanceCriterionInput & { type: AcceptanceCriteriaType } = { scenarioName: name, givenContext: scenario.givenContext, whenAction: scenario.whenAction, thenOutcome: scenario.thenOutcome, type: scenario.type };
+    const match = existingByName.get(name);
+    if (!match) {
+      changes.push({ action: 'create', scenarioName: name, input, status: 'planned' });
+      continue;
+    }
+    const changedFields: (keyof typeof input)[] = (['givenContext', 'whenAction', 'thenOutcome'] as const)
+      .filter((field) => normalizeStepText(match[field]) !== normalizeStepText(input[field]));
+    if (match.type !== input.type) changedFields.push('type');
+    if (changedFields.length === 0) {
+      unchanged.push(name);
+      continue;
+    }
+    const update: UpdateAcceptanceCriterionInput = Object.fromEntries(changedFields.map((field) => [field, input[field]]));
+    changes.push({ action: 'update', scenarioName: name, acceptanceCriterionId: match.id, changedFields, input: update, status: 'planned' });
+  }
+  if (deleteMissing) {
+    for (const ac of existing) {
+      if (!imported.has(ac.scenarioName.trim())) changes.push({ action: 'delete', scenarioName: ac.scenarioName, acceptanceCriterionId: ac.id, status: 'planned' });
+    }
+  }
+  return { changes, unchanged };
+}
+
+export type GherkinImportApi = Pick<ThinkPromptApiClient, 'createAcceptanceCriterion' | 'updateAcceptanceCriterion' | 'deleteAcceptanceCriterion'>;
+
+/**
+ * Apply a plan one change at a time; a failed change is reported and does not stop the remaining ones
+ */
+export async function applyGherkinImport(api: GherkinImportApi, requirementId: string, plan: GherkinImportPlan): Promise<GherkinImportPlan> {
+  const changes: ScenarioChange[] = [];
+  for (const change of plan.changes) {
+    try {
+      if (change.action === 'create') {
+        const created = await api.createAcceptanceCriterion(requirementId, change.input as CreateAcceptanceCriterionInput);
+        changes.push({ ...change, acceptanceCriterionId: created?.id, status: 'applied' });
+      } else if (change.action === 'update') {
+        await api.updateAcceptanceCriterion(change.acceptanceCriterionId as string, change.input ?? {});
+        changes.push({ ...change, status: 'applied' });
+      } else {
+        await api.deleteAcceptanceCriterion(change.acceptanceCriterionId as string);
+        changes.push({ ...change, status: 'applied' });
+      }
+    } catch (error) {
+      changes.push({ ...change, status: 'failed', error: toErrorPayload(error) });
+    }
+  }
+  return { changes, unchanged: plan.unchanged };
+}
@@ -5,21 +5,48 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
 
 import express from 'express';
 import type { Request, Response, NextFunction } from 'express';
 import { randomUUID } from 'node:crypto';
 
-import { ThinkPromptApiClient } from './api-client.js';
+import { ThinkPromptApiClient, unwrapPage } from './api-client.js';
+import { describeVariable, extractPlaceholders, renderPlaceholders, renderStyleGuide } from './variables.js';
+import { MAX_EXECUTION_TIMEOUT_MS, MAX_POLL_INTERVAL_MS, MIN_POLL_INTERVAL_MS, waitForWorkflowExecution } from './workflow-execution.js';
+import { runWorkflowLocally } from './workflow-runner.js';
+import { ResourceWatcher } from './resource-watcher.js';
+import { documentToMarkdown, projectToMarkdown, requirementToMarkdown } from './resource-content.js';
+import { fetchRequirementDetails, renderRequirementSpec } from './requirement-spec.js';
+import { applyGherkinImport, parseFeature, planGherkinImport, requirementToFeature } from './gherkin.js';
+import { mapWithConcurrency } from './async-utils.js';
+import { generateTestScaffold } from './test-scaffold.js';
+import { buildTraceabilityMatrix, traceabilityToCsv, traceabilityToMarkdown } from './traceability.js';
+import { analyzeDependencyGraph, crawlRequirementLinks, dependencyGraphToDot, dependencyGraphToMermaid } from './dependency-graph.js';
+import { assertInitialStatus, checkStatusTransition, loadLifecycleConfig, transitionError } from './requirement-lifecycle.js';
+import { createRequirementBundle } from './requirement-bundle.js';
+import { lintRequirement } from './requirement-lint.js';
+import { resolveSyncPath, syncDocuments } from './document-sync.js';
+import { assertDocumentVersion, diffDocumentVersions } from './document-diff.js';
+import { patchDocument } from './document-patch.js';
+import { applyFolderSchemaToCreate, applyFolderSchemaToUpdate, validateFolderDocuments } from './frontmatter-schema.js';
+import { createToolCallParser } from './tool-validation.js';
+import type { ToolCallOf } from './tool-validation.js';
+import { toErrorPayload, ValidationError } from './errors.js';
 import type {
-  ListRequirementsQuery,
-  CreateRequirementInput,
-  UpdateRequirementInput,
+  ApiClientOptions,
+  PaginatedResponse,
   Requirement,
   AcceptanceCriterion,
   VerificationTest,
@@ -28,8 +55,7 @@ import type {
   DiscoveryItem,
   DiscoveryReadiness,
   McpServerEntry,
-  CreateMcpServerInput,
-  UpdateMcpServerInput,
+  UpdateDocumentInput,
 } from './api-client.js';
 
 // Response helpers to reduce boilerplate
@@ -37,10 +63,18 @@ function jsonResponse(data: unknown) {
   return { content: [{ type: 'text' as const, text: JSON.stringify(data, null, 2) }] };
 }
 
+function textResponse(text: string) {
+  return { content: [{ type: 'text' as const, text }] };
+}
+
 function successResponse(message: string) {
   return jsonResponse({ success: true, message });
 }
 
+function errorResponse(error: unknown) {
+  return { ...jsonResponse({ error: toErrorPayload(error) }), isError: true };
+}
+
 // Safely extract array from API response (handles both raw arrays and { data: [...] } wrappers)
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 function extractArray<T>(result: any): T[] {
@@ -49,6 +83,17 @@ function extractArray<T>(result: any): T[] {
   return [];
 }
 
+// Return one page, or every page (up to maxItems) when `all` or `maxItems` is set
+async function listResponse<T, A extends { page?: number; limit?: number; all?: boolean; maxItems?: number }>(
+  client: ThinkPromptApiClient,
+  list: (params: Omit<A, 'all' | 'maxItems'>) => Promise<PaginatedResponse<T>>,
+  args: A,
+) {
+  const { all, maxItems, ...params } = args;
+  if (!all && maxItems === undefined) return jsonResponse(await list(params));
+  return jsonResponse(await client.collectAll(list, params, { maxItems }));
+}
+
 // Compact mode helpers for requirement sub-entities
 function compactRequirement(r: Requirement) {
   return {
@@ -113,10 +158,66 @@ const API_URL = process.env.THINKPROMPT_API_URL ?? 'http://localhost:3000/api/v1
 const API_KEY = process.env.THINKPROMPT_API_KEY ?? '';
 const MCP_API_KEY = process.env.MCP_API_KEY ?? '';
 const PORT = parseInt(process.env.PORT ?? '8080', 10);
+const REQUEST_TIMEOUT_MS = process.env.THINKPROMPT_REQUEST_TIMEOUT_MS ? parseInt(process.env.THINKPROMPT_REQUEST_TIMEOUT_MS, 10) : undefined;
+const MAX_RETRIES = process.env.THINKPROMPT_MAX_RETRIES ? parseInt(process.env.THINKPROMPT_MAX_RETRIES, 10) : undefined;
+const RESOURCE_POLL_INTERVAL_MS = process.env.THINKPROMPT_RESOURCE_POLL_INTERVAL_MS ? parseInt(process.env.THINKPROMPT_RESOURCE_POLL_INTERVAL_MS, 10) : undefined;
+const CACHE_TTL_MS = process.env.THINKPROMPT_CACHE_TTL_MS ? parseInt(process.env.THINKPROMPT_CACHE_TTL_MS, 10) : undefined;
+const CACHE_MAX_ENTRIES = process.env.THINKPROMPT_CACHE_MAX_ENTRIES ? parseInt(process.env.THINKPROMPT_CACHE_MAX_ENTRIES, 10) : undefined;
+const SESSION_IDLE_TIMEOUT_MS = process.env.THINKPROMPT_SESSION_IDLE_TIMEOUT_MS ? parseInt(process.env.THINKPROMPT_SESSION_IDLE_TIMEOUT_MS, 10) : 1_800_000;
+const SYNC_ROOT = process.env.THINKPROMPT_SYNC_ROOT || undefined;
+const USE_STDIO = process.argv.includes('--stdio');
+const REQUIREMENT_LIFECYCLE_PATH = process.env.THINKPROMPT_REQUIREMENT_LIFECYCLE || undefined;
+const API_CLIENT_OPTIONS: ApiClientOptions = {
+  timeoutMs: REQUEST_TIMEOUT_MS,
+  retry: MAX_RETRIES !== undefined ? { maxRetries: MAX_RETRIES } : undefined,
+  cache: { ttlMs: CACHE_TTL_MS, maxEntries: CACHE_MAX_ENTRIES },
+};
 
 // Global apiClient for stdio mode; HTTP mode creates per-session clients
 let apiClient: ThinkPromptApiClient | null = null;
 
+// Item schemas shared by create_workflow and update_workflow
+const WORKFLOW_RESOURCE_SCHEMA = {
+  type: 'object',
+  properties: { resourceType: { type: 'string', enum: ['prompt', 'template', 'task', 'feature', 'project'] }, resourceId: { type: 'string' }, alias: { type: 'string' }, sortOrder: { type: 'number' } },
+  required: ['resourceType', 'resourceId'],
+} as const;
+
+const WORKFLOW_STEP_SCHEMA = {
+  type: 'object',
+  properties: { stepNumber: { type: 'number' }, title: { type: 'string' }, description: { type: 'string' }, actionType: { type: 'string', enum: ['execute_prompt', 'load_template', 'create_task', 'update_task_status', 'generate_tasks', 'custom'] }, actionConfig: { type: 'object' }, condition: { type: 'string' }, conditionType: { type: 'string', enum: ['none', 'simple', 'ai'] }, timeoutMs: { type: 'number' }, onError: { type: 'string', enum: ['fail', 'skip', 'continue'] } },
+  required: ['stepNumber', 'title', 'actionType', 'actionConfig'],
+} as const;
+
+// Auto-pagination options shared by the list tools
+const FETCH_ALL_PROPERTIES = {
+  all: { type: 'boolean', description: 'Fetch every page and return all items in one response (page and limit are ignored)' },
+  maxItems: { type: 'number', description: 'Stop after this many items (implies all)' },
+} as const;
+
+// Mirror RequirementDescription and RequirementScope, so validated arguments type-check against the requirement inputs
+const REQUIREMENT_DESCRIPTION_SCHEMA = {
+  type: 'object',
+  properties: {
+    overview: { type: 'string' }, background: { type: 'string' }, userStory: { type: 'string' }, businessValue: { type: 'string' },
+    affectedRoles: { type: 'array', items: { type: 'string' } }, successCriteria: { type: 'array', items: { type: 'string' } },
+  },
+} as const;
+
+const REQUIREMENT_SCOPE_SCHEMA = {
+  type: 'object',
+  properties: {
+    inScope: { type: 'array', items: { type: 'string' } }, outOfScope: { type: 'array', items: { type: 'string' } },
+    assumptions: { type: 'array', items: { type: 'string' } }, constraints: { type: 'array', items: { type: 'string' } },
+  },
+} as const;
+
+const TEST_STEP_SCHEMA = {
+  type: 'object',
+  properties: { step: { type: 'number' }, action: { type: 'string' }, expected: { type: 'string' } },
+  required: ['step', 'action', 'expected'],
+} as const;
+
 // ============================================================
 // Tool definitions array — shared across all server instances
 // ============================================================
@@ -131,6 +232,7 @@ const TOOL_DEFINITIONS = [
           page: { type: 'number', description: 'Page number for pagination (default: 1)' },
           search: { type: 'string', description: 'Search query to filter style guides by title or description' },
           tags: { type: 'array', items: { type: 'string' }, description: 'Filter style guides by tags' },
+          ...FETCH_ALL_PROPERTIES,
         },
       },
     },
@@ -165,7 +267,7 @@ const TOOL_DEFINITIONS = [
                 label: { type: 'string', description: 'Display label' },
                 description: { type: 'string', description: 'Variable description' },
                 required: { type: 'boolean', description: 'Whether the variable is required' },
-                defaultValue: { description: 'Default value for the variable' },
+                defaultValue: { type: ['string', 'number', 'boolean'], description: 'Default value for the variable' },
                 options: { type: 'array', items: { type: 'string' }, description: 'Options for select type' },
               },
               required: ['name', 'type'],
@@ -197,7 +299,7 @@ const TOOL_DEFINITIONS = [
                 label: { type: 'string', description: 'Display label' },
                 description: { type: 'string', description: 'Variable description' },
                 required: { type: 'boolean', description: 'Whether the variable is required' },
-                defaultValue: { description: 'Default value for the variable' },
+                defaultValue: { type: ['string', 'number', 'boolean'], description: 'Default value for the variable' },
                 options: { type: 'array', items: { type: 'string' }, description: 'Options for select type' },
               },
               required: ['name', 'type'],
@@ -208,6 +310,18 @@ const TOOL_DEFINITIONS = [
         required: ['id'],
       },
     },
+    {
+      name: 'render_style_guide',
+      description: 'Render a style guide server-side: validates the given values against its variables (required, type, select options, min/max, pattern), applies default values, fills {{variable}} placeholders and returns the final text. Also reports unknown and unused variables.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'The UUID of the style guide to render' },
+          values: { type: 'object', additionalProperties: true, description: 'Variable values keyed by variable name' },
+        },
+        required: ['id'],
+      },
+    },
     // Template tools
     {
       name: 'list_templates',
@@ -222,6 +336,7 @@ const TOOL_DEFINITIONS = [
           category: { type: 'string', description: 'Filter by category' },
           language: { type: 'string', description: 'Filter by language code' },
           tags: { type: 'array', items: { type: 'string' }, description: 'Filter by tag IDs' },
+          ...FETCH_ALL_PROPERTIES,
         },
       },
     },
@@ -275,6 +390,7 @@ const TOOL_DEFINITIONS = [
       description: 'Switch to a different workspace.',
       inputSchema: { type: 'object', properties: { workspaceId: { type: 'string', description: 'The UUID of the workspace to switch to' } }, required: ['workspaceId'] },
     },
+    { name: 'get_cache_stats', description: 'Get hit/miss counters, size and settings of the API response cache for this session.', inputSchema: { type: 'object', properties: { clear: { type: 'boolean', description: 'Clear the cache after reading the stats' } } } },
     // Tag tools
     { name: 'list_tags', description: 'List all tags in the current workspace.', inputSchema: { type: 'object', properties: {} } },
     { name: 'get_tag', description: 'Get detailed information about a specific tag.', inputSchema: { type: 'object', properties: { id: { type: 'string', description: 'The UUID of the tag' } }, required: ['id'] } },
@@ -298,7 +414,7 @@ const TOOL_DEFINITIONS = [
           name: { type: 'string', description: 'Project name' },
           slug: { type: 'string', description: 'Uppercase prefix for task numbering' },
           description: { type: 'string', description: 'Project description' },
-          links: { type: 'array', items: { type: 'object', properties: { type: { type: 'string' }, url: { type: 'string' }, label: { type: 'string' } } }, description: 'Links to design, wiki, etc.' },
+          links: { type: 'array', items: { type: 'object', properties: { type: { type: 'string' }, url: { type: 'string' }, label: { type: 'string' } }, required: ['type', 'url'] }, description: 'Links to design, wiki, etc.' },
         },
         required: ['name', 'slug'],
       },
@@ -313,6 +429,7 @@ const TOOL_DEFINITIONS = [
           limit: { type: 'number' }, page: { type: 'number' }, search: { type: 'string' },
           category: { type: 'string' }, status: { type: 'string', enum: ['draft', 'active', 'deprecated'] },
           includeArchived: { type: 'boolean' },
+          ...FETCH_ALL_PROPERTIES,
         },
       },
     },
@@ -327,8 +444,8 @@ const TOOL_DEFINITIONS = [
           category: { type: 'string' }, isPublic: { type: 'boolean' },
           status: { type: 'string', enum: ['draft', 'active', 'deprecated'] },
           tagIds: { type: 'array', items: { type: 'string' } },
-          resources: { type: 'array', items: { type: 'object', properties: { resourceType: { type: 'string', enum: ['prompt', 'template', 'task', 'feature', 'project'] }, resourceId: { type: 'string' }, alias: { type: 'string' }, sortOrder: { type: 'number' } }, required: ['resourceType', 'resourceId'] } },
-          steps: { type: 'array', items: { type: 'object', properties: { stepNumber: { type: 'number' }, title: { type: 'string' }, description: { type: 'string' }, actionType: { type: 'string', enum: ['execute_prompt', 'load_template', 'create_task', 'update_task_status', 'generate_tasks', 'custom'] }, actionConfig: { type: 'object' }, condition: { type: 'string' }, conditionType: { type: 'string', enum: ['none', 'simple', 'ai'] }, timeoutMs: { type: 'number' }, onError: { type: 'string', enum: ['fail', 'skip', 'continue'] } }, required: ['stepNumber', 'title', 'actionType', 'actionConfig'] } },
+          resources: { type: 'array', items: WORKFLOW_RESOURCE_SCHEMA },
+          steps: { type: 'array', items: WORKFLOW_STEP_SCHEMA },
         },
         required: ['title'],
       },
@@ -343,7 +460,8 @@ const TOOL_DEFINITIONS = [
           customInstructions: { type: 'string' }, category: { type: 'string' },
           isPublic: { type: 'boolean' }, status: { type: 'string', enum: ['draft', 'active', 'deprecated'] },
           tagIds: { type: 'array', items: { type: 'string' } },
-          resources: { type: 'array' }, steps: { type: 'array' },
+          resources: { type: 'array', items: WORKFLOW_RESOURCE_SCHEMA },
+          steps: { type: 'array', items: WORKFLOW_STEP_SCHEMA },
         },
         required: ['id'],
       },
@@ -352,6 +470,36 @@ const TOOL_DEFINITIONS = [
     { name: 'validate_workflow', description: 'Validate a workflow.', inputSchema: { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] } },
     { name: 'get_workflow_executions', description: 'Get execution history for a workflow.', inputSchema: { type: 'object', properties: { workflowId: { type: 'string' }, page: { type: 'number' }, limit: { type: 'number' } }, required: ['workflowId'] } },
     { name: 'get_workflow_execution', description: 'Get details of a specific workflow execution.', inputSchema: { type: 'object', properties: { executionId: { type: 'string' } }, required: ['executionId'] } },
+    {
+      name: 'execute_workflow',
+      description: 'Execute a workflow. Use dryRun to preview the execution plan without running it. With waitForCompletion, polls until the execution completes, fails or is cancelled and streams per-step status as progress notifications.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'The UUID of the workflow to execute' },
+          variables: { type: 'object', additionalProperties: true, description: 'Input variables for the workflow' },
+          dryRun: { type: 'boolean', description: 'Preview the execution without running any steps (default: false)' },
+          idempotencyKey: { type: 'string', description: 'Optional key that lets the request be retried safely without starting a second execution' },
+          waitForCompletion: { type: 'boolean', description: 'Wait until the execution reaches a terminal status (default: false)' },
+          pollIntervalMs: { type: 'number', minimum: MIN_POLL_INTERVAL_MS, maximum: MAX_POLL_INTERVAL_MS, description: `Polling interval while waiting, ${MIN_POLL_INTERVAL_MS}–${MAX_POLL_INTERVAL_MS} (default: 2000)` },
+          timeoutMs: { type: 'number', minimum: 0, maximum: MAX_EXECUTION_TIMEOUT_MS, description: `Maximum time to wait before returning the current state, up to ${MAX_EXECUTION_TIMEOUT_MS} (default: 300000)` },
+        },
+        required: ['id'],
+      },
+    },
+    {
+      name: 'run_workflow_locally',
+      description: 'Run a workflow client-side for debugging: walks steps in order, resolves resource aliases, evaluates simple conditions and honours onError/timeoutMs. Returns a step trace plus instructions for steps the assistant must perform itself (prompt execution, AI conditions, task updates).',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'The UUID of the workflow to run' },
+          variables: { type: 'object', additionalProperties: true, description: 'Input variables for the workflow' },
+        },
+        required: ['id'],
+      },
+    },
+    { name: 'list_all_workflow_executions', description: 'List workflow executions across all workflows in the current workspace.', inputSchema: { type: 'object', properties: { workflowId: { type: 'string', description: 'Optional: only executions of this workflow' }, page: { type: 'number' }, limit: { type: 'number' } } } },
     // Plugin Marketplace Tools
     {
       name: 'search_marketplace_plugins',
@@ -364,6 +512,7 @@ const TOOL_DEFINITIONS = [
           sortBy: { type: 'string', enum: ['installs', 'rating', 'recent', 'name'] },
           sortOrder: { type: 'string', enum: ['asc', 'desc'] },
           page: { type: 'number' }, limit: { type: 'number' },
+          ...FETCH_ALL_PROPERTIES,
         },
       },
     },
@@ -397,13 +546,14 @@ const TOOL_DEFINITIONS = [
           projectId: { type: 'string' }, folderId: { type: 'string' }, search: { type: 'string' },
           tagIds: { type: 'array', items: { type: 'string' } }, includeArchived: { type: 'boolean' },
           page: { type: 'number' }, limit: { type: 'number' }, compact: { type: 'boolean', description: 'Return compact response without content/frontmatter (default: true)' },
+          ...FETCH_ALL_PROPERTIES,
         },
       },
     },
     { name: 'get_document', description: 'Get a document by ID.', inputSchema: { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] } },
     {
       name: 'create_document',
-      description: 'Create a new markdown document.',
+      description: 'Create a new markdown document. If the folder has a frontmatter schema (a _frontmatter-schema document holding a JSON Schema), the frontmatter is validated against it and missing keys get their defaults.',
       inputSchema: {
         type: 'object',
         properties: {
@@ -417,13 +567,44 @@ const TOOL_DEFINITIONS = [
     },
     {
       name: 'update_document',
-      description: 'Update a document.',
+      description: 'Update a document. Pass expectedVersion (the version you read) to avoid overwriting concurrent changes: if the document has moved on, nothing is written and a conflict error returns a three-way merge of your update with the current document. Setting frontmatter or moving the document to another folder validates the frontmatter against that folder\'s schema.',
       inputSchema: {
         type: 'object',
         properties: {
           id: { type: 'string' }, title: { type: 'string' }, content: { type: 'string' },
           frontmatter: { type: 'object', additionalProperties: true },
           folderId: { type: 'string' }, changeSummary: { type: 'string' },
+          expectedVersion: { type: 'number', description: 'Fail with a merge attempt unless the document is still at this version' },
+        },
+        required: ['id'],
+      },
+    },
+    {
+      name: 'patch_document',
+      description: 'Change parts of a document without sending its full content. Operations are applied in order and address sections by heading path, e.g. "## API > ### Auth" (the # prefixes are optional): replace_section replaces everything below the heading up to the next heading of the same or a higher level (subsections included), append_to_section adds content at the end of the section, insert_after_heading adds it directly below the heading, and search_replace replaces literal text (in the whole document or one section) and fails unless it finds exactly expectedCount matches. frontmatter sets keys; null removes a key. If any operation fails, nothing is saved. Pass expectedVersion (the version you read) to make sure the operations are applied to that version. The result is saved as a new version with a changeSummary generated from the operations; dryRun returns the diff without saving.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          operations: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                type: { type: 'string', enum: ['replace_section', 'append_to_section', 'insert_after_heading', 'search_replace'] },
+                section: { type: 'string', description: 'Heading path, e.g. "## API > ### Auth". Optional for search_replace' },
+                content: { type: 'string', description: 'Markdown for replace_section, append_to_section and insert_after_heading' },
+                search: { type: 'string' },
+                replace: { type: 'string' },
+                expectedCount: { type: 'number', description: 'Matches search_replace must find (default: 1)' },
+              },
+              required: ['type'],
+            },
+          },
+          frontmatter: { type: 'object', additionalProperties: true, description: 'Keys to merge into the frontmatter; null removes a key' },
+          changeSummary: { type: 'string', description: 'Default: generated from the operations' },
+          expectedVersion: { type: 'number', description: 'Fail with a conflict error unless the document is still at this version' },
+          dryRun: { type: 'boolean', description: 'Return the diff without saving (default: false)' },
         },
         required: ['id'],
       },
@@ -432,9 +613,39 @@ const TOOL_DEFINITIONS = [
     { name: 'search_documents', description: 'Full-text search across documents.', inputSchema: { type: 'object', properties: { query: { type: 'string' }, projectId: { type: 'string' }, folderId: { type: 'string' }, limit: { type: 'number' } }, required: ['query'] } },
     { name: 'get_document_versions', description: 'Get the version history of a document.', inputSchema: { type: 'object', properties: { documentId: { type: 'string' } }, required: ['documentId'] } },
     { name: 'get_document_version', description: 'Get a specific version of a document.', inputSchema: { type: 'object', properties: { documentId: { type: 'string' }, version: { type: 'number' } }, required: ['documentId', 'version'] } },
+    {
+      name: 'diff_document_versions',
+      description: 'Compare two versions of a document, or a version with the current document, without returning the full texts. Returns a line-level unified diff, added/removed/changed frontmatter keys, a summary of added and removed lines, and the changeSummary of every version in between. Versions more than 2000 lines apart are diffed as one replaced block.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          documentId: { type: 'string' },
+          fromVersion: { type: 'number' },
+          toVersion: { type: 'number', description: 'Version to compare with (default: the current document)' },
+          context: { type: 'number', description: 'Unchanged lines around each change (default: 3)' },
+        },
+        required: ['documentId', 'fromVersion'],
+      },
+    },
     { name: 'restore_document_version', description: 'Restore a document to a previous version.', inputSchema: { type: 'object', properties: { documentId: { type: 'string' }, version: { type: 'number' } }, required: ['documentId', 'version'] } },
     { name: 'add_document_tags', description: 'Add tags to a document.', inputSchema: { type: 'object', properties: { documentId: { type: 'string' }, tagIds: { type: 'array', items: { type: 'string' } } }, required: ['documentId', 'tagIds'] } },
     { name: 'remove_document_tag', description: 'Remove a tag from a document.', inputSchema: { type: 'object', properties: { documentId: { type: 'string' }, tagId: { type: 'string' } }, required: ['documentId', 'tagId'] } },
+    {
+      name: 'sync_documents',
+      description: 'Two-way sync between a local directory of Markdown files and ThinkPrompt documents. Subdirectories map to document folders, <slug>.md files with YAML frontmatter (the title key is the document title) to documents. Changes are detected from the document version and a content hash recorded in .thinkprompt-sync.json at the last sync; documents changed on both sides are reported as conflicts. Runs as a dry-run plan unless dryRun is false.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          localPath: { type: 'string', description: 'Local directory (relative to THINKPROMPT_SYNC_ROOT when set)' },
+          projectId: { type: 'string' },
+          folderId: { type: 'string', description: 'Sync only this folder; it maps to the local directory itself (default: documents without folder)' },
+          direction: { type: 'string', enum: ['push', 'pull', 'both'], description: 'push: local → ThinkPrompt, pull: ThinkPrompt → local (default: both)' },
+          onConflict: { type: 'string', enum: ['report', 'prefer_local', 'prefer_remote'], description: 'How to handle documents changed on both sides (default: report)' },
+          dryRun: { type: 'boolean', description: 'Only return the planned changes (default: true)' },
+        },
+        required: ['localPath'],
+      },
+    },
     // Document Folder Tools
     { name: 'list_document_folders', description: 'List document folders.', inputSchema: { type: 'object', properties: { projectId: { type: 'string' }, parentId: { type: 'string' }, includeArchived: { type: 'boolean' } } } },
     { name: 'get_document_folder_tree', description: 'Get hierarchical folder tree structure.', inputSchema: { type: 'object', properties: { projectId: { type: 'string' } } } },
@@ -443,6 +654,11 @@ const TOOL_DEFINITIONS = [
     { name: 'update_document_folder', description: 'Update a document folder.', inputSchema: { type: 'object', properties: { id: { type: 'string' }, name: { type: 'string' }, parentId: { type: 'string' } }, required: ['id'] } },
     { name: 'delete_document_folder', description: 'Delete a document folder.', inputSchema: { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] } },
     { name: 'reorder_document_folders', description: 'Reorder document folders.', inputSchema: { type: 'object', properties: { items: { type: 'array', items: { type: 'object', properties: { id: { type: 'string' }, sortOrder: { type: 'number' } }, required: ['id', 'sortOrder'] } } }, required: ['items'] } },
+    {
+      name: 'validate_folder_documents',
+      description: 'Check the frontmatter of every document in a folder against the folder\'s JSON Schema (the _frontmatter-schema document in that folder). Reports each non-conforming document with field errors, and valid documents that lack keys with a default.',
+      inputSchema: { type: 'object', properties: { folderId: { type: 'string' } }, required: ['folderId'] },
+    },
     // Requirement Tools
     {
       name: 'list_requirements',
@@ -460,6 +676,71 @@ const TOOL_DEFINITIONS = [
       },
     },
     { name: 'get_requirement', description: 'Get a single requirement by ID with full details.', inputSchema: { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] } },
+    {
+      name: 'export_gherkin',
+      description: 'Export requirements as Gherkin .feature files (one per requirement) for Cucumber/Playwright-BDD. Pass requirementId for a single requirement, or featureId and/or list_requirements filters to export several. Acceptance criteria become Scenarios tagged with their type and the requirement tags.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          requirementId: { type: 'string', description: 'Export only this requirement' },
+          featureId: { type: 'string', description: 'Export all requirements of this feature' },
+          status: { type: 'string', enum: ['draft', 'in_discovery', 'structured', 'quality_check', 'in_review', 'approved', 'exported'] },
+          tagId: { type: 'string' }, assigneeId: { type: 'string' }, search: { type: 'string' }, includeArchived: { type: 'boolean' },
+          includeEmpty: { type: 'boolean', description: 'Also return files for requirements without acceptance criteria (default: false)' },
+        },
+      },
+    },
+    {
+      name: 'import_gherkin',
+      description: 'Import a Gherkin .feature file into the acceptance criteria of a requirement. Scenarios (and each Examples row of a Scenario Outline) are matched to existing criteria by scenarioName, then created or updated; criteria without a scenario in the file are only deleted with deleteMissing. Runs as a dry-run preview unless dryRun is false.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          featureText: { type: 'string', description: 'Content of the .feature file' },
+          requirementId: { type: 'string', description: 'Target requirement (default: the "# requirement: <id>" comment written by export_gherkin)' },
+          dryRun: { type: 'boolean', description: 'Only return the planned changes (default: true)' },
+          deleteMissing: { type: 'boolean', description: 'Delete acceptance criteria that have no scenario in the file (default: false)' },
+        },
+        required: ['featureText'],
+      },
+    },
+    {
+      name: 'generate_test_scaffold',
+      description: 'Generate test file skeletons from the verification tests of a requirement. Automated tests become test cases in the chosen framework with one commented arrange/act/assert block per test step; manual tests become a Markdown checklist. The requirement displayId is embedded for traceability.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          requirementId: { type: 'string', description: 'The UUID of the requirement' },
+          framework: { type: 'string', enum: ['vitest', 'jest', 'playwright', 'pytest'], description: 'Test framework for automated tests' },
+          testTypes: { type: 'array', items: { type: 'string', enum: ['unit', 'integration', 'e2e', 'manual', 'performance'] }, description: 'Only include these test types (default: all)' },
+        },
+        required: ['requirementId', 'framework'],
+      },
+    },
+    {
+      name: 'get_traceability_matrix',
+      description: 'Build a requirement → acceptance criteria → verification tests → links traceability matrix for a project or feature. Flags requirements without acceptance criteria, criteria without tests, unmet preconditions, and approved requirements with unresolved comments. Tests are matched to criteria heuristically: a test covers a criterion when it mentions the criterion ID or scenario name; each row lists the matched test per criterion.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          projectId: { type: 'string' }, featureId: { type: 'string' }, includeArchived: { type: 'boolean' },
+          format: { type: 'string', enum: ['json', 'markdown', 'csv'], description: 'Output format (default: json)' },
+          flaggedOnly: { type: 'boolean', description: 'Only include requirements with at least one flag' },
+        },
+      },
+    },
+    {
+      name: 'get_requirement_dependency_graph',
+      description: 'Crawl the requirement links of a project or feature into a dependency graph. Detects dependency cycles (depends_on/blocks) and inconsistent parent/child links (cycles, multiple parents, missing reciprocal link), and computes an implementation order as waves by topological sort. Output as JSON, Mermaid or Graphviz DOT; diagrams carry the analysis as comments.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          projectId: { type: 'string' }, featureId: { type: 'string' }, includeArchived: { type: 'boolean' },
+          format: { type: 'string', enum: ['json', 'mermaid', 'dot'], description: 'Output format (default: json)' },
+        },
+      },
+    },
+    { name: 'get_requirement_spec', description: 'Get the full specification of a requirement as one Markdown document: description, scope, preconditions (met/unmet), Given/When/Then acceptance criteria, verification test steps, links and open comment threads.', inputSchema: { type: 'object', properties: { id: { type: 'string', description: 'The UUID of the requirement' } }, required: ['id'] } },
     {
       name: 'create_requirement',
       description: 'Create a new requirement.',
@@ -467,8 +748,8 @@ const TOOL_DEFINITIONS = [
         type: 'object',
         properties: {
           title: { type: 'string' },
-          description: { type: 'object', properties: { overview: { type: 'string' }, background: { type: 'string' }, userStory: { type: 'string' }, businessValue: { type: 'string' }, affectedRoles: { type: 'array', items: { type: 'string' } }, successCriteria: { type: 'array', items: { type: 'string' } } } },
-          scope: { type: 'object', properties: { inScope: { type: 'array', items: { type: 'string' } }, outOfScope: { type: 'array', items: { type: 'string' } }, assumptions: { type: 'array', items: { type: 'string' } }, constraints: { type: 'array', items: { type: 'string' } } } },
+          description: REQUIREMENT_DESCRIPTION_SCHEMA,
+          scope: REQUIREMENT_SCOPE_SCHEMA,
           featureId: { type: 'string' },
           status: { type: 'string', enum: ['draft', 'in_discovery', 'structured', 'quality_check', 'in_review', 'approved', 'exported'] },
           tagIds: { type: 'array', items: { type: 'string' } },
@@ -477,6 +758,65 @@ const TOOL_DEFINITIONS = [
         required: ['title'],
       },
     },
+    {
+      name: 'create_requirement_bundle',
+      description: 'Create a requirement together with its acceptance criteria, preconditions, verification tests, links and tags in one call. Sub-entities are created in parallel (controlled by concurrency). If any item fails, everything created so far is rolled back (the requirement is archived) and the per-item report shows what failed.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          requirement: {
+            type: 'object',
+            properties: {
+              title: { type: 'string' },
+              description: REQUIREMENT_DESCRIPTION_SCHEMA,
+              scope: REQUIREMENT_SCOPE_SCHEMA,
+              featureId: { type: 'string' },
+              status: { type: 'string', enum: ['draft', 'in_discovery', 'structured', 'quality_check', 'in_review', 'approved', 'exported'] },
+              tagIds: { type: 'array', items: { type: 'string' } },
+              assigneeIds: { type: 'array', items: { type: 'string' } },
+            },
+            required: ['title'],
+          },
+          acceptanceCriteria: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { scenarioName: { type: 'string' }, givenContext: { type: 'string' }, whenAction: { type: 'string' }, thenOutcome: { type: 'string' }, type: { type: 'string', enum: ['positive', 'negative', 'edge_case'] }, sortOrder: { type: 'number' } },
+              required: ['scenarioName', 'givenContext', 'whenAction', 'thenOutcome'],
+            },
+          },
+          preconditions: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { category: { type: 'string', enum: ['technical_deps', 'data_requirements', 'env_config', 'architecture'] }, title: { type: 'string' }, description: { type: 'string' }, sortOrder: { type: 'number' } },
+              required: ['category', 'title'],
+            },
+          },
+          verificationTests: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                testName: { type: 'string' }, testType: { type: 'string', enum: ['unit', 'integration', 'e2e', 'manual', 'performance'] }, description: { type: 'string' },
+                steps: { type: 'array', items: TEST_STEP_SCHEMA }, expectedResult: { type: 'string' }, automationHint: { type: 'string' }, sortOrder: { type: 'number' },
+              },
+              required: ['testName', 'testType'],
+            },
+          },
+          links: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { targetRequirementId: { type: 'string' }, linkType: { type: 'string', enum: ['depends_on', 'blocks', 'related', 'parent', 'child'] }, description: { type: 'string' } },
+              required: ['targetRequirementId', 'linkType'],
+            },
+          },
+          concurrency: { type: 'number', description: 'Maximum parallel requests for sub-entities (default: 4, max: 10)' },
+        },
+        required: ['requirement'],
+      },
+    },
     {
       name: 'update_requirement',
       description: 'Update an existing requirement.',
@@ -484,8 +824,8 @@ const TOOL_DEFINITIONS = [
         type: 'object',
         properties: {
           id: { type: 'string' }, title: { type: 'string' },
-          description: { type: 'object' }, scope: { type: 'object' },
-          featureId: { type: 'string' },
+          description: REQUIREMENT_DESCRIPTION_SCHEMA, scope: REQUIREMENT_SCOPE_SCHEMA,
+          featureId: { type: ['string', 'null'], description: 'null removes the requirement from its feature' },
           tagIds: { type: 'array', items: { type: 'string' } },
           assigneeIds: { type: 'array', items: { type: 'string' } },
         },
@@ -494,12 +834,13 @@ const TOOL_DEFINITIONS = [
     },
     {
       name: 'update_requirement_status',
-      description: 'Update only the status of a requirement.',
+      description: 'Update only the status of a requirement. Enforces the lifecycle draft → in_discovery → structured → quality_check → in_review → approved → exported (one step forward, any step back) and the guards of the target status, e.g. minimum quality score, positive and negative acceptance criteria, met preconditions and no unresolved comments before approved. A rejected transition lists the failed guards.',
       inputSchema: {
         type: 'object',
         properties: {
           id: { type: 'string' },
           status: { type: 'string', enum: ['draft', 'in_discovery', 'structured', 'quality_check', 'in_review', 'approved', 'exported'] },
+          dryRun: { type: 'boolean', description: 'Only check the transition and return the guard results' },
         },
         required: ['id', 'status'],
       },
@@ -540,13 +881,13 @@ const TOOL_DEFINITIONS = [
           requirementId: { type: 'string' }, testName: { type: 'string' },
           testType: { type: 'string', enum: ['unit', 'integration', 'e2e', 'manual', 'performance'] },
           description: { type: 'string' },
-          steps: { type: 'array', items: { type: 'object', properties: { step: { type: 'number' }, action: { type: 'string' }, expected: { type: 'string' } }, required: ['step', 'action', 'expected'] } },
+          steps: { type: 'array', items: TEST_STEP_SCHEMA },
           expectedResult: { type: 'string' }, automationHint: { type: 'string' }, sortOrder: { type: 'number' },
         },
         required: ['requirementId', 'testName', 'testType'],
       },
     },
-    { name: 'update_verification_test', description: 'Update an existing verification test.', inputSchema: { type: 'object', properties: { id: { type: 'string' }, testName: { type: 'string' }, testType: { type: 'string', enum: ['unit', 'integration', 'e2e', 'manual', 'performance'] }, description: { type: 'string' }, steps: { type: 'array' }, expectedResult: { type: 'string' }, automationHint: { type: 'string' }, sortOrder: { type: 'number' } }, required: ['id'] } },
+    { name: 'update_verification_test', description: 'Update an existing verification test.', inputSchema: { type: 'object', properties: { id: { type: 'string' }, testName: { type: 'string' }, testType: { type: 'string', enum: ['unit', 'integration', 'e2e', 'manual', 'performance'] }, description: { type: 'string' }, steps: { type: 'array', items: TEST_STEP_SCHEMA }, expectedResult: { type: 'string' }, automationHint: { type: 'string' }, sortOrder: { type: 'number' } }, required: ['id'] } },
     { name: 'delete_verification_test', description: 'Delete a verification test.', inputSchema: { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] } },
     // Requirement Link Tools
     { name: 'list_requirement_links', description: 'List links for a requirement.', inputSchema: { type: 'object', properties: { requirementId: { type: 'string' }, limit: { type: 'number' } }, required: ['requirementId'] } },
@@ -564,6 +905,23 @@ const TOOL_DEFINITIONS = [
     // Requirement Quality Tools
     { name: 'calculate_requirement_quality', description: 'Calculate the quality score for a requirement.', inputSchema: { type: 'object', properties: { requirementId: { type: 'string' } }, required: ['requirementId'] } },
     { name: 'get_requirement_quality', description: 'Get the cached quality score for a requirement.', inputSchema: { type: 'object', properties: { requirementId: { type: 'string' } }, required: ['requirementId'] } },
+    {
+      name: 'lint_requirement',
+      description: 'Check a requirement offline, without the backend quality calculation. Scores completeness, clarity, testability and atomicity and returns issues in the same shape as calculate_requirement_quality: vague words ("fast", "user-friendly"), missing user story or business value, empty scope lists, acceptance criteria without Then outcome, compound "and" requirements. Pass requirementId for a saved requirement, or title/description/scope/acceptanceCriteria to check a draft before saving.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          requirementId: { type: 'string', description: 'Lint a saved requirement with its acceptance criteria and verification tests' },
+          title: { type: 'string' },
+          description: REQUIREMENT_DESCRIPTION_SCHEMA,
+          scope: REQUIREMENT_SCOPE_SCHEMA,
+          acceptanceCriteria: {
+            type: 'array',
+            items: { type: 'object', properties: { scenarioName: { type: 'string' }, givenContext: { type: 'string' }, whenAction: { type: 'string' }, thenOutcome: { type: 'string' }, type: { type: 'string', enum: ['positive', 'negative', 'edge_case'] } } },
+          },
+        },
+      },
+    },
     // Requirement Activity Tools
     { name: 'get_requirement_activity', description: 'Get the activity log for a requirement.', inputSchema: { type: 'object', properties: { requirementId: { type: 'string' }, limit: { type: 'number' } }, required: ['requirementId'] } },
 
@@ -678,7 +1036,7 @@ const TOOL_DEFINITIONS = [
           url: { type: "string", description: "Server URL (for HTTP connections)" },
           command: { type: "string", description: "Command to run (for stdio connections)" },
           args: { type: "array", items: { type: "string" }, description: "Command arguments" },
-          env: { type: "object", description: "Environment variables as key-value pairs" },
+          env: { type: "object", additionalProperties: { type: "string" }, description: "Environment variables as key-value pairs" },
           category: { type: "string", enum: ["general", "code", "data", "devops", "communication", "productivity", "custom"] },
           status: { type: "string", enum: ["active", "inactive", "deprecated"] },
           tools: { type: "array", items: { type: "object", properties: { name: { type: "string" }, description: { type: "string" } }, required: ["name"] }, description: "Tools provided by this server" },
@@ -702,7 +1060,7 @@ const TOOL_DEFINITIONS = [
           url: { type: "string" },
           command: { type: "string" },
           args: { type: "array", items: { type: "string" } },
-          env: { type: "object" },
+          env: { type: "object", additionalProperties: { type: "string" } },
           category: { type: "string", enum: ["general", "code", "data", "devops", "communication", "productivity", "custom"] },
           status: { type: "string", enum: ["active", "inactive", "deprecated"] },
           tools: { type: "array", items: { type: "object", properties: { name: { type: "string" }, description: { type: "string" } }, required: ["name"] } },
@@ -729,13 +1087,18 @@ const TOOL_DEFINITIONS = [
 // ============================================================
 // Tool call handler — shared logic for all server instances
 // ============================================================
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-async function handleToolCall(name: string, args: any, client: ThinkPromptApiClient) {
+type ToolCallExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+// Tool arguments are typed from each tool's declared inputSchema
+type ToolDefinition = (typeof TOOL_DEFINITIONS)[number];
+type ToolCall = ToolCallOf<ToolDefinition>;
+
+// Validate raw arguments against the tool's inputSchema before any API call is made
+const parseToolCall = createToolCallParser(TOOL_DEFINITIONS);
+
+async function handleToolCall({ name, args }: ToolCall, client: ThinkPromptApiClient, extra?: ToolCallExtra) {
   switch (name) {
-    case 'list_style_guides': {
-      const result = await client.listStyleGuides(args);
-      return jsonResponse(result);
-    }
+    case 'list_style_guides': return listResponse(client, (params) => client.listStyleGuides(params), args);
     case 'get_style_guide': {
       const result = await client.getStyleGuide(args.id);
       return jsonResponse(result);
@@ -750,6 +1113,17 @@ async function handleToolCall(name: string, args: any, client: ThinkPromptApiCli
       const result = await client.updateStyleGuide(id, { title, content, description, variables, isPublic });
       return jsonResponse(result);
     }
+    case 'render_style_guide': {
+      const { id, values = {} } = args;
+      const styleGuide = await client.getStyleGuide(id);
+      const { text, errors, appliedDefaults, unknownVariables, unusedVariables, unresolvedPlaceholders } = renderStyleGuide(styleGuide, values);
+      if (errors.length > 0) {
+        throw new ValidationError(`Style guide "${styleGuide.title}" cannot be rendered with the given values`, errors.map((e) => ({ field: e.variable, message: e.message })), {
+          details: { unknownVariables, unusedVariables },
+        });
+      }
+      return jsonResponse({ id: styleGuide.id, title: styleGuide.title, text, appliedDefaults, unknownVariables, unusedVariables, unresolvedPlaceholders });
+    }
     case 'list_workspaces': {
       const workspaces = await client.listWorkspaces();
       const currentId = client.getCurrentWorkspaceId();
@@ -764,6 +1138,11 @@ async function handleToolCall(name: string, args: any, client: ThinkPromptApiCli
       const result = await client.switchWorkspace(args.workspaceId);
       return jsonResponse(result);
     }
+    case 'get_cache_stats': {
+      const stats = client.getCacheStats();
+      if (args.clear) client.invalidateCache();
+      return jsonResponse({ ...stats, cleared: args.clear === true });
+    }
     case 'list_tags': return jsonResponse(await client.listTags());
     case 'get_tag': return jsonResponse(await client.getTag(args.id));
     case 'create_tag': return jsonResponse(await client.createTag({ name: args.name, color: args.color }));
@@ -773,7 +1152,7 @@ async function handleToolCall(name: string, args: any, client: ThinkPromptApiCli
     case 'get_project': return jsonResponse(await client.getProject(args.id));
     case 'get_project_statistics': return jsonResponse(await client.getProjectStatistics(args.projectId));
     case 'create_project': return jsonResponse(await client.createProject({ name: args.name, slug: args.slug, description: args.description, links: args.links }));
-    case 'list_templates': return jsonResponse(await client.listTemplates(args));
+    case 'list_templates': return listResponse(client, (params) => client.listTemplates(params), args);
     case 'get_template': return jsonResponse(await client.getTemplate(args.id));
     case 'create_template': {
       const { title, content, type, description, category, language, useCaseHints, isPublic, tagIds } = args;
@@ -783,7 +1162,7 @@ async function handleToolCall(name: string, args: any, client: ThinkPromptApiCli
       const { id, ...updateData } = args;
       return jsonResponse(await client.updateTemplate(id, updateData));
     }
-    case 'list_workflows': return jsonResponse(await client.listWorkflows(args));
+    case 'list_workflows': return listResponse(client, (params) => client.listWorkflows(params), args);
     case 'get_workflow': return jsonResponse(await client.getWorkflow(args.id));
     case 'create_workflow': return jsonResponse(await client.createWorkflow(args));
     case 'update_workflow': { const { id, ...data } = args; return jsonResponse(await client.updateWorkflow(id, data)); }
@@ -791,38 +1170,83 @@ async function handleToolCall(name: string, args: any, client: ThinkPromptApiCli
     case 'validate_workflow': return jsonResponse(await client.validateWorkflow(args.id));
     case 'get_workflow_executions': return jsonResponse(await client.getWorkflowExecutions(args.workflowId, { page: args.page, limit: args.limit }));
     case 'get_workflow_execution': return jsonResponse(await client.getWorkflowExecution(args.executionId));
-    case 'search_marketplace_plugins': return jsonResponse(await client.searchMarketplacePlugins(args));
+    case 'execute_workflow': {
+      const { id, variables, dryRun = false, idempotencyKey, waitForCompletion = false, pollIntervalMs, timeoutMs } = args;
+      const execution = await client.executeWorkflow(id, { variables, dryRun }, { idempotencyKey });
+      if (dryRun || !waitForCompletion) return jsonResponse(execution);
+      const progressToken = extra?._meta?.progressToken;
+      let progress = 0;
+      const result = await waitForWorkflowExecution(client, execution, {
+        pollIntervalMs,
+        timeoutMs,
+        signal: extra?.signal,
+        onStepUpdate: async (step, current) => {
+          if (progressToken === undefined || !extra) return;
+          progress += 1;
+          await extra.sendNotification({
+            method: 'notifications/progress',
+            params: { progressToken, progress, message: `Step ${step.stepNumber}/${current.steps.length} "${step.stepTitle}": ${step.status}${step.errorMessage ? ` (${step.errorMessage})` : ''}` },
+          });
+        },
+      });
+      return jsonResponse({ ...result.execution, timedOut: result.timedOut });
+    }
+    case 'run_workflow_locally': {
+      const workflow = await client.getWorkflow(args.id);
+      return jsonResponse(await runWorkflowLocally(workflow, client, { variables: args.variables }));
+    }
+    case 'list_all_workflow_executions': return jsonResponse(await client.getAllWorkflowExecutions({ workflowId: args.workflowId, page: args.page, limit: args.limit }));
+    case 'search_marketplace_plugins': return listResponse(client, (params) => client.searchMarketplacePlugins(params), args);
     case 'get_marketplace_plugin': return jsonResponse(await client.getMarketplacePlugin(args.nameOrId));
     case 'get_plugin_categories': return jsonResponse(await client.getPluginCategories());
     case 'get_featured_plugins': return jsonResponse(await client.getFeaturedPlugins());
     case 'register_marketplace_plugin': return jsonResponse(await client.registerMarketplacePlugin(args));
     case 'track_plugin_install': return jsonResponse(await client.trackPluginInstall(args.nameOrId, { version: args.version, source: args.source }));
     case 'list_documents': {
-      const { compact = true, ...params } = args;
-      const result = await client.listDocuments(params);
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const responseData = (result as any)?.data;
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const documents = Array.isArray(responseData) ? responseData : (responseData as any)?.data ?? [];
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const meta = Array.isArray(responseData) ? (result as any)?.meta : (responseData as any)?.meta;
+      const { compact = true, all, maxItems, ...params } = args;
+      const { data: documents, meta } = all || maxItems !== undefined
+        ? await client.collectAll((pageParams: typeof params) => client.listDocuments(pageParams), params, { maxItems })
+        : unwrapPage(await client.listDocuments(params));
       if (compact && documents.length > 0) {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const compactData = documents.map((doc: any) => { const { content, frontmatter, ...rest } = doc; return rest; });
+        const compactData = documents.map(({ content, frontmatter, ...rest }) => rest);
         return jsonResponse({ data: compactData, meta });
       }
       return jsonResponse({ data: documents, meta });
     }
     case 'get_document': return jsonResponse(await client.getDocument(args.id));
-    case 'create_document': return jsonResponse(await client.createDocument({ title: args.title, content: args.content, frontmatter: args.frontmatter, folderId: args.folderId, projectId: args.projectId, tagIds: args.tagIds }));
-    case 'update_document': return jsonResponse(await client.updateDocument(args.id, { title: args.title, content: args.content, frontmatter: args.frontmatter, folderId: args.folderId, changeSummary: args.changeSummary }));
+    case 'create_document': {
+      const input = await applyFolderSchemaToCreate(client, { title: args.title, content: args.content, frontmatter: args.frontmatter, folderId: args.folderId, projectId: args.projectId, tagIds: args.tagIds });
+      return jsonResponse(await client.createDocument(input));
+    }
+    case 'update_document': {
+      const input: UpdateDocumentInput = { title: args.title, content: args.content, frontmatter: args.frontmatter, folderId: args.folderId, changeSummary: args.changeSummary };
+      if (args.expectedVersion !== undefined) await assertDocumentVersion(client, args.id, args.expectedVersion, input);
+      return jsonResponse(await client.updateDocument(args.id, await applyFolderSchemaToUpdate(client, args.id, input)));
+    }
+    case 'patch_document': {
+      const { id, dryRun, expectedVersion, ...patch } = args;
+      return jsonResponse(await patchDocument(client, id, patch, { dryRun, expectedVersion }));
+    }
     case 'delete_document': { await client.deleteDocument(args.id); return successResponse('Document deleted (archived) successfully'); }
     case 'search_documents': return jsonResponse(await client.searchDocuments({ query: args.query, projectId: args.projectId, folderId: args.folderId, limit: args.limit }));
     case 'get_document_versions': return jsonResponse(await client.getDocumentVersions(args.documentId));
     case 'get_document_version': return jsonResponse(await client.getDocumentVersion(args.documentId, args.version));
+    case 'diff_document_versions': {
+      const { documentId, fromVersion, toVersion, context = 3 } = args;
+      return jsonResponse(await diffDocumentVersions(client, documentId, fromVersion, toVersion, Math.max(0, Math.floor(context))));
+    }
     case 'restore_document_version': return jsonResponse(await client.restoreDocumentVersion(args.documentId, args.version));
     case 'add_document_tags': { await client.addDocumentTags(args.documentId, args.tagIds); return successResponse('Tags added successfully'); }
     case 'remove_document_tag': { await client.removeDocumentTag(args.documentId, args.tagId); return successResponse('Tag removed successfully'); }
+    case 'sync_documents': {
+      const { localPath, ...options } = args;
+      if (!USE_STDIO && !SYNC_ROOT) {
+        throw new ValidationError('Document sync needs THINKPROMPT_SYNC_ROOT in HTTP mode', [{ field: 'localPath', message: 'local file access is disabled on this server' }], {
+          hint: 'Run the server with --stdio, or set THINKPROMPT_SYNC_ROOT to the directory that may be synced.',
+        });
+      }
+      return jsonResponse(await syncDocuments(client, { localPath: resolveSyncPath(localPath, SYNC_ROOT), ...options }));
+    }
     case 'list_document_folders': return jsonResponse(await client.listDocumentFolders(args));
     case 'get_document_folder_tree': return jsonResponse(await client.getDocumentFolderTree(args));
     case 'get_document_folder': return jsonResponse(await client.getDocumentFolder(args.id));
@@ -830,9 +1254,10 @@ async function handleToolCall(name: string, args: any, client: ThinkPromptApiCli
     case 'update_document_folder': return jsonResponse(await client.updateDocumentFolder(args.id, { name: args.name, parentId: args.parentId }));
     case 'delete_document_folder': { await client.deleteDocumentFolder(args.id); return successResponse('Folder deleted successfully'); }
     case 'reorder_document_folders': { await client.reorderDocumentFolders({ items: args.items }); return successResponse('Folders reordered successfully'); }
+    case 'validate_folder_documents': return jsonResponse(await validateFolderDocuments(client, args.folderId));
     case 'list_requirements': {
       const { compact = true, ...params } = args;
-      const rawResult = await client.listRequirements(params as ListRequirementsQuery);
+      const rawResult = await client.listRequirements(params);
       if (compact) {
         const items = extractArray<Requirement>(rawResult);
         return jsonResponse(items.map(compactRequirement));
@@ -840,9 +1265,93 @@ async function handleToolCall(name: string, args: any, client: ThinkPromptApiCli
       return jsonResponse(rawResult);
     }
     case 'get_requirement': return jsonResponse(await client.getRequirement(args.id));
-    case 'create_requirement': return jsonResponse(await client.createRequirement(args as CreateRequirementInput));
-    case 'update_requirement': { const { id, ...updateData } = args; return jsonResponse(await client.updateRequirement(id, updateData as UpdateRequirementInput)); }
-    case 'update_requirement_status': return jsonResponse(await client.updateRequirementStatus(args.id, args.status));
+    case 'export_gherkin': {
+      const { requirementId, includeEmpty = false, ...filters } = args;
+      const requirements = requirementId ? [await client.getRequirement(requirementId)] : extractArray<Requirement>(await client.listRequirements(filters));
+      const files = await mapWithConcurrency(requirements, 5, async (requirement) => {
+        const criteria = extractArray<AcceptanceCriterion>(await client.listAcceptanceCriteria(requirement.id));
+        return requirementToFeature(requirement, criteria);
+      });
+      const exported = includeEmpty || requirementId ? files : files.filter((file) => file.scenarioCount > 0);
+      return jsonResponse({
+        files: exported,
+        skipped: files.filter((file) => !exported.includes(file)).map(({ requirementId: id, displayId }) => ({ requirementId: id, displayId, reason: 'no acceptance criteria' })),
+      });
+    }
+    case 'import_gherkin': {
+      const { featureText, dryRun = true, deleteMissing = false } = args;
+      const parsed = parseFeature(featureText);
+      const requirementId = args.requirementId ?? parsed.requirementId;
+      if (!requirementId) {
+        throw new ValidationError('No target requirement for the Gherkin import', [{ field: 'requirementId', message: 'is required when the feature file has no "# requirement: <id>" comment' }]);
+      }
+      if (parsed.scenarios.length === 0 && deleteMissing) {
+        throw new ValidationError('The feature file contains no scenarios; importing it would delete every acceptance criterion', [{ field: 'featureText', message: 'contains no Scenario or Scenario Outline' }], {
+          hint: 'Check the file content, or leave deleteMissing off.',
+        });
+      }
+      const existing = extractArray<AcceptanceCriterion>(await client.listAcceptanceCriteria(requirementId));
+      const plan = planGherkinImport(parsed.scenarios, existing, { deleteMissing });
+      const result = dryRun ? plan : await applyGherkinImport(client, requirementId, plan);
+      const count = (action: string) => result.changes.filter((c) => c.action === action).length;
+      return jsonResponse({
+        requirementId,
+        dryRun,
+        featureName: parsed.featureName,
+        summary: { create: count('create'), update: count('update'), delete: count('delete'), unchanged: result.unchanged.length, failed: result.changes.filter((c) => c.status === 'failed').length },
+        changes: result.changes,
+        warnings: parsed.warnings,
+      });
+    }
+    case 'generate_test_scaffold': {
+      const { requirementId, framework, testTypes } = args;
+      const [requirement, rawTests] = await Promise.all([client.getRequirement(requirementId), client.listVerificationTests(requirementId)]);
+      const tests = extractArray<VerificationTest>(rawTests).filter((test) => !testTypes || testTypes.includes(test.testType));
+      const files = generateTestScaffold(requirement, tests, framework);
+      return jsonResponse({ requirementId, displayId: requirement.displayId, framework, files, message: files.length === 0 ? 'No matching verification tests' : undefined });
+    }
+    case 'get_traceability_matrix': {
+      const { projectId, featureId, includeArchived, format = 'json', flaggedOnly = false } = args;
+      if (!projectId && !featureId) {
+        throw new ValidationError('A project or feature is required', [{ field: 'projectId', message: 'or featureId is required' }]);
+      }
+      const matrix = await buildTraceabilityMatrix(client, { projectId, featureId, includeArchived });
+      if (flaggedOnly) matrix.rows = matrix.rows.filter((row) => row.flags.length > 0);
+      if (format === 'markdown') return textResponse(traceabilityToMarkdown(matrix));
+      if (format === 'csv') return textResponse(traceabilityToCsv(matrix));
+      return jsonResponse(matrix);
+    }
+    case 'get_requirement_dependency_graph': {
+      const { projectId, featureId, includeArchived, format = 'json' } = args;
+      if (!projectId && !featureId) {
+        throw new ValidationError('A project or feature is required', [{ field: 'projectId', message: 'or featureId is required' }]);
+      }
+      const { requirements, links } = await crawlRequirementLinks(client, { projectId, featureId, includeArchived });
+      const graph = analyzeDependencyGraph(requirements, links);
+      if (format === 'mermaid') return textResponse(dependencyGraphToMermaid(graph));
+      if (format === 'dot') return textResponse(dependencyGraphToDot(graph));
+      return jsonResponse(graph);
+    }
+    case 'get_requirement_spec': return textResponse(renderRequirementSpec(await fetchRequirementDetails(client, args.id)));
+    case 'create_requirement': {
+      assertInitialStatus(loadLifecycleConfig(REQUIREMENT_LIFECYCLE_PATH), args.status);
+      return jsonResponse(await client.createRequirement(args));
+    }
+    case 'create_requirement_bundle': {
+      const { requirement, concurrency = 4, ...children } = args;
+      assertInitialStatus(loadLifecycleConfig(REQUIREMENT_LIFECYCLE_PATH), requirement.status, 'requirement.status');
+      const result = await createRequirementBundle(client, { requirement, ...children }, Math.min(Math.max(Math.floor(concurrency), 1), 10));
+      return jsonResponse(result);
+    }
+    case 'update_requirement': { const { id, ...updateData } = args; return jsonResponse(await client.updateRequirement(id, updateData)); }
+    case 'update_requirement_status': {
+      const { id, status, dryRun = false } = args;
+      const lifecycle = loadLifecycleConfig(REQUIREMENT_LIFECYCLE_PATH);
+      const check = await checkStatusTransition(client, lifecycle, id, status);
+      if (dryRun) return jsonResponse({ ...check, allowedTransitions: lifecycle.transitions[check.from] ?? [] });
+      if (!check.allowed) throw transitionError(check, lifecycle);
+      return jsonResponse(await client.updateRequirementStatus(id, status));
+    }
     case 'delete_requirement': { await client.deleteRequirement(args.id); return successResponse('Requirement archived successfully'); }
     case 'search_requirements': {
       const rawResult = await client.searchRequirements({ q: args.q, includeArchived: args.includeArchived });
@@ -919,6 +1428,25 @@ async function handleToolCall(name: string, args: any, client: ThinkPromptApiCli
     case 'get_requirement_tags': return jsonResponse(await client.getRequirementTags(args.requirementId));
     case 'calculate_requirement_quality': return jsonResponse(await client.calculateRequirementQuality(args.requirementId));
     case 'get_requirement_quality': return jsonResponse(await client.getRequirementQuality(args.requirementId));
+    case 'lint_requirement': {
+      const { requirementId, title, description, scope, acceptanceCriteria } = args;
+      if (requirementId) {
+        const [requirement, criteria, tests] = await Promise.all([
+          client.getRequirement(requirementId),
+          client.listAcceptanceCriteria(requirementId),
+          client.listVerificationTests(requirementId),
+        ]);
+        return jsonResponse(lintRequirement({
+          ...requirement,
+          acceptanceCriteria: extractArray<AcceptanceCriterion>(criteria),
+          verificationTests: extractArray<VerificationTest>(tests),
+        }));
+      }
+      if (title === undefined) {
+        throw new ValidationError('A requirement or draft is required', [{ field: 'requirementId', message: 'or title is required' }]);
+      }
+      return jsonResponse(lintRequirement({ title, description, scope, acceptanceCriteria }));
+    }
     case 'get_requirement_activity': {
       const { requirementId, limit = 50 } = args;
       const raw = await client.getRequirementActivity(requirementId);
@@ -958,11 +1486,11 @@ async function handleToolCall(name: string, args: any, client: ThinkPromptApiCli
     case "get_mcp_server": return jsonResponse(await client.getMcpServer(args.id));
     case "create_mcp_server": {
       const { ...createData } = args;
-      return jsonResponse(await client.createMcpServer(createData as CreateMcpServerInput));
+      return jsonResponse(await client.createMcpServer(createData));
     }
     case "update_mcp_server": {
       const { id: serverId, ...updateData } = args;
-      return jsonResponse(await client.updateMcpServer(serverId, updateData as UpdateMcpServerInput));
+      return jsonResponse(await client.updateMcpServer(serverId, updateData));
     }
     case "delete_mcp_server": {
       await client.deleteMcpServer(args.id);
@@ -973,10 +1501,112 @@ async function handleToolCall(name: string, args: any, client: ThinkPromptApiCli
   }
 }
 
+// ============================================================
+// Resource list handler — cursor pagination across resource types
+// ============================================================
+const RESOURCE_PAGE_SIZE = 100;
+const RESOURCE_LIST_ORDER = ['style-guide', 'template', 'workflow'] as const;
+
+type ListedResourceType = (typeof RESOURCE_LIST_ORDER)[number];
+interface ResourceCursor { type: ListedResourceType; page: number }
+interface ListedResource { uri: string; name: string; description?: string; mimeType: string }
+
+async function listResourcePage(type: ListedResourceType, page: number, client: ThinkPromptApiClient) {
+  const params = { page, limit: RESOURCE_PAGE_SIZE };
+  let resources: ListedResource[];
+  let meta: PaginatedResponse<unknown>['meta'] | null;
+  switch (type) {
+    case 'style-guide': {
+      const result = unwrapPage(await client.listStyleGuides(params));
+      resources = result.data.map((sg) => ({ uri: `style-guide://${sg.id}`, name: sg.title, description: sg.description ?? undefined, mimeType: 'text/plain' }));
+      meta = result.meta;
+      break;
+    }
+    case 'template': {
+      const result = unwrapPage(await client.listTemplates(params));
+      resources = result.data.map((t) => ({ uri: `template://${t.id}`, name: `[${t.type}] ${t.title}`, description: t.description ?? `${t.type} template${t.category ? ` for ${t.category}` : ''}`, mimeType: 'text/plain' }));
+      meta = result.meta;
+      break;
+    }
+    case 'workflow': {
+      const result = unwrapPage(await client.listWorkflows(params));
+      resources = result.data.map((w) => ({ uri: `workflow://${w.id}`, name: `[WORKFLOW] ${w.title}`, description: w.description ?? `Workflow with ${w.resources.length} resources and ${w.steps.length} steps`, mimeType: 'text/plain' }));
+      meta = result.meta;
+      break;
+    }
+  }
+  const hasMore = meta ? page < meta.totalPages : resources.length === RESOURCE_PAGE_SIZE;
+  return { resources, hasMore };
+}
+
+function encodeResourceCursor(cursor: ResourceCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeResourceCursor(cursor: string | undefined): ResourceCursor {
+  if (!cursor) return { type: RESOURCE_LIST_ORDER[0], page: 1 };
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as Partial<ResourceCursor>;
+    if (RESOURCE_LIST_ORDER.includes(decoded.type as ListedResourceType) && Number.isInteger(decoded.page) && (decoded.page as number) >= 1) {
+      return decoded as ResourceCursor;
+    }
+  } catch { /* fall through */ }
+  throw new Error(`Invalid resource cursor: ${cursor}`);
+}
+
+/**
+ * Return one page of resources. The cursor walks style guides, then templates, then workflows.
+ */
+async function handleResourceList(cursor: ResourceCursor, client: ThinkPromptApiClient) {
+  let position: ResourceCursor | null = cursor;
+  while (position) {
+    const { resources, hasMore } = await listResourcePage(position.type, position.page, client);
+    const nextType: ListedResourceType | undefined = RESOURCE_LIST_ORDER[RESOURCE_LIST_ORDER.indexOf(position.type) + 1];
+    const next: ResourceCursor | null = hasMore ? { type: position.type, page: position.page + 1 } : nextType ? { type: nextType, page: 1 } : null;
+    // Skip over empty resource types so clients never receive an empty page with a cursor
+    if (resources.length > 0 || !next) return { resources, nextCursor: next ? encodeResourceCursor(next) : undefined };
+    position = next;
+  }
+  return { resources: [] };
+}
+
+// Entities that are not listed but can be read by ID (e.g. when @-mentioned in a client)
+const RESOURCE_TEMPLATES = [
+  { uriTemplate: 'document://{id}', name: 'Document', description: 'A document as Markdown with its YAML frontmatter', mimeType: 'text/markdown' },
+  { uriTemplate: 'document://{id}@{version}', name: 'Document version', description: 'A specific version of a document as Markdown with its YAML frontmatter', mimeType: 'text/markdown' },
+  { uriTemplate: 'requirement://{id}', name: 'Requirement', description: 'A requirement with description, scope and related entity counts', mimeType: 'text/markdown' },
+  { uriTemplate: 'requirement://{id}/spec', name: 'Requirement specification', description: 'The full requirement specification including acceptance criteria, preconditions, tests, links and open comments', mimeType: 'text/markdown' },
+  { uriTemplate: 'project://{id}', name: 'Project', description: 'A project with description and links', mimeType: 'text/markdown' },
+  { uriTemplate: 'mcp-server://{id}', name: 'MCP server', description: 'An MCP server registry entry including its configuration', mimeType: 'application/json' },
+];
+
 // ============================================================
 // Resource read handler — shared logic
 // ============================================================
 async function handleResourceRead(uri: string, client: ThinkPromptApiClient) {
+  const documentMatch = uri.match(/^document:\/\/([^@/]+)(?:@(\d+))?$/);
+  if (documentMatch) {
+    const [, documentId, version] = documentMatch;
+    const document = version ? await client.getDocumentVersion(documentId, Number(version)) : await client.getDocument(documentId);
+    return { contents: [{ uri, mimeType: 'text/markdown', text: documentToMarkdown(document) }] };
+  }
+  const specMatch = uri.match(/^requirement:\/\/([^/]+)\/spec$/);
+  if (specMatch) {
+    const details = await fetchRequirementDetails(client, specMatch[1]);
+    return { contents: [{ uri, mimeType: 'text/markdown', text: renderRequirementSpec(details) }] };
+  }
+  if (uri.startsWith('requirement://')) {
+    const requirement = await client.getRequirement(uri.replace('requirement://', ''));
+    return { contents: [{ uri, mimeType: 'text/markdown', text: requirementToMarkdown(requirement) }] };
+  }
+  if (uri.startsWith('project://')) {
+    const project = await client.getProject(uri.replace('project://', ''));
+    return { contents: [{ uri, mimeType: 'text/markdown', text: projectToMarkdown(project) }] };
+  }
+  if (uri.startsWith('mcp-server://')) {
+    const mcpServer = await client.getMcpServer(uri.replace('mcp-server://', ''));
+    return { contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(mcpServer, null, 2) }] };
+  }
   if (uri.startsWith('style-guide://')) {
     const styleGuideId = uri.replace('style-guide://', '');
     const styleGuide = await client.getStyleGuide(styleGuideId);
@@ -1004,45 +1634,115 @@ async function handleResourceRead(uri: string, client: ThinkPromptApiClient) {
   throw new Error(`Unknown resource URI: ${uri}`);
 }
 
+// ============================================================
+// Prompt handlers — style guides and templates as MCP prompts
+// ============================================================
+const STYLE_GUIDE_PROMPT_PREFIX = 'style-guide:';
+const TEMPLATE_PROMPT_PREFIX = 'template:';
+
+async function handlePromptList(client: ThinkPromptApiClient) {
+  const [styleGuidesResult, templatesResult] = await Promise.all([
+    client.collectAll((params) => client.listStyleGuides(params), {}),
+    client.collectAll((params) => client.listTemplates(params), {}),
+  ]);
+  const styleGuidePrompts = styleGuidesResult.data.map((sg) => ({
+    name: `${STYLE_GUIDE_PROMPT_PREFIX}${sg.id}`,
+    title: sg.title,
+    description: sg.description ?? undefined,
+    arguments: (sg.variables ?? []).map((v) => ({ name: v.name, description: describeVariable(v), required: v.required === true && v.defaultValue === undefined })),
+  }));
+  const templatePrompts = templatesResult.data.map((t) => ({
+    name: `${TEMPLATE_PROMPT_PREFIX}${t.id}`,
+    title: `[${t.type}] ${t.title}`,
+    description: t.description ?? `${t.type} template${t.category ? ` for ${t.category}` : ''}`,
+    arguments: extractPlaceholders(t.content).map((placeholder) => ({ name: placeholder, required: false })),
+  }));
+  return { prompts: [...styleGuidePrompts, ...templatePrompts] };
+}
+
+async function handlePromptGet(name: string, args: Record<string, string>, client: ThinkPromptApiClient) {
+  if (name.startsWith(STYLE_GUIDE_PROMPT_PREFIX)) {
+    const styleGuide = await client.getStyleGuide(name.slice(STYLE_GUIDE_PROMPT_PREFIX.length));
+    const { text, errors } = renderStyleGuide(styleGuide, args);
+    if (errors.length > 0) throw new Error(`Invalid prompt arguments: ${errors.map((e) => e.message).join('; ')}`);
+    return {
+      description: styleGuide.description ?? styleGuide.title,
+      messages: [{ role: 'user' as const, content: { type: 'text' as const, text } }],
+    };
+  }
+  if (name.startsWith(TEMPLATE_PROMPT_PREFIX)) {
+    const template = await client.getTemplate(name.slice(TEMPLATE_PROMPT_PREFIX.length));
+    return {
+      description: template.description ?? template.title,
+      messages: [{ role: 'user' as const, content: { type: 'text' as const, text: renderPlaceholders(template.content, args) } }],
+    };
+  }
+  throw new Error(`Unknown prompt: ${name}`);
+}
+
 // ============================================================
 // Server factory — creates a new Server with all handlers
 // ============================================================
 function createServer(client: ThinkPromptApiClient): Server {
+  const resourceCapabilities = { subscribe: true, listChanged: true };
   const server = new Server(
     { name: '@honeyfield/thinkprompt-mcp', version: '1.7.0' },
-    { capabilities: { tools: {}, resources: {} } },
+    { capabilities: { tools: {}, resources: resourceCapabilities, prompts: {} } },
   );
 
+  const watcher = new ResourceWatcher(client, {
+    pollIntervalMs: RESOURCE_POLL_INTERVAL_MS,
+    watchListChanges: resourceCapabilities.listChanged,
+    onUpdated: (uri) => server.sendResourceUpdated({ uri }),
+    onListChanged: () => server.sendResourceListChanged(),
+  });
+  server.oninitialized = () => watcher.start();
+  server.onclose = () => watcher.stop();
+
   server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [...TOOL_DEFINITIONS] }));
 
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const { name, arguments: args } = request.params;
     try {
-      return await handleToolCall(name, args, client);
+      return await client.withAbortSignal(extra.signal, () => handleToolCall(parseToolCall(name, args), client, extra));
     } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      return { content: [{ type: 'text', text: `Error: ${message}` }], isError: true };
+      return errorResponse(error);
     }
   });
 
-  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+  server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+    const cursor = decodeResourceCursor(request.params?.cursor);
     try {
-      const [styleGuidesResult, templatesResult, workflowsResult] = await Promise.all([
-        client.listStyleGuides({ limit: 100 }),
-        client.listTemplates({ limit: 100 }),
-        client.listWorkflows({ limit: 100 }),
-      ]);
-      const styleGuideResources = styleGuidesResult.data.map((sg) => ({ uri: `style-guide://${sg.id}`, name: sg.title, description: sg.description ?? undefined, mimeType: 'text/plain' }));
-      const templateResources = templatesResult.data.map((t) => ({ uri: `template://${t.id}`, name: `[${t.type}] ${t.title}`, description: t.description ?? `${t.type} template${t.category ? ` for ${t.category}` : ''}`, mimeType: 'text/plain' }));
-      const workflowResources = workflowsResult.data.map((w) => ({ uri: `workflow://${w.id}`, name: `[WORKFLOW] ${w.title}`, description: w.description ?? `Workflow with ${w.resources.length} resources and ${w.steps.length} steps`, mimeType: 'text/plain' }));
-      return { resources: [...styleGuideResources, ...templateResources, ...workflowResources] };
+      return await handleResourceList(cursor, client);
     } catch { return { resources: [] }; }
   });
 
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({ resourceTemplates: RESOURCE_TEMPLATES }));
+
   server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
     return handleResourceRead(request.params.uri, client);
   });
 
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    watcher.subscribe(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    watcher.unsubscribe(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    try {
+      return await handlePromptList(client);
+    } catch { return { prompts: [] }; }
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return handlePromptGet(request.params.name, request.params.arguments ?? {}, client);
+  });
+
   return server;
 }
 
@@ -1074,15 +1774,13 @@ function apiKeyAuth(req: Request, res: Response, next: NextFunction): void {
 // Main — stdio vs HTTP
 // ============================================================
 async function main() {
-  const useStdio = process.argv.includes('--stdio');
-
-  if (useStdio) {
+  if (USE_STDIO) {
     // Stdio mode (for Claude Desktop, local usage)
     if (!API_KEY) {
       console.error('Error: THINKPROMPT_API_KEY environment variable is required');
       process.exit(1);
     }
-    apiClient = new ThinkPromptApiClient(API_URL, API_KEY);
+    apiClient = new ThinkPromptApiClient(API_URL, API_KEY, API_CLIENT_OPTIONS);
     const server = createServer(apiClient);
     const transport = new StdioServerTransport();
     await server.connect(transport);
@@ -1102,16 +1800,37 @@ async function main() {
   });
 
   // Session management
-  const transports: Map<string, StreamableHTTPServerTransport> = new Map();
-  const sessionClients: Map<string, ThinkPromptApiClient> = new Map();
+  interface Session {
+    transport: StreamableHTTPServerTransport;
+    client: ThinkPromptApiClient;
+    lastActivity: number;
+    /** Open GET streams; a session with a connected stream is never idle */
+    openStreams: number;
+  }
+  const sessions: Map<string, Session> = new Map();
+
+  const touch = (session: Session) => { session.lastActivity = Date.now(); };
+
+  // Abandoned sessions are only closed by DELETE or a transport close, so expire them after a period without requests
+  if (SESSION_IDLE_TIMEOUT_MS > 0) {
+    setInterval(() => {
+      const cutoff = Date.now() - SESSION_IDLE_TIMEOUT_MS;
+      for (const [sessionId, session] of sessions) {
+        if (session.openStreams > 0 || session.lastActivity > cutoff) continue;
+        sessions.delete(sessionId);
+        void session.transport.close().catch(() => undefined);
+      }
+    }, Math.min(SESSION_IDLE_TIMEOUT_MS, 60_000)).unref();
+  }
 
   // POST /mcp — main MCP endpoint
   app.post('/mcp', apiKeyAuth, async (req: Request, res: Response) => {
     const sessionId = req.headers['mcp-session-id'] as string | undefined;
 
-    if (sessionId && transports.has(sessionId)) {
-      const transport = transports.get(sessionId)!;
-      await transport.handleRequest(req, res, req.body);
+    const existing = sessionId ? sessions.get(sessionId) : undefined;
+    if (existing) {
+      touch(existing);
+      await existing.transport.handleRequest(req, res, req.body);
       return;
     }
 
@@ -1122,7 +1841,7 @@ async function main() {
         res.status(401).json({ error: 'Missing ThinkPrompt API key. Provide via X-ThinkPrompt-Key header.' });
         return;
       }
-      const userClient = new ThinkPromptApiClient(API_URL, userApiKey);
+      const userClient = new ThinkPromptApiClient(API_URL, userApiKey, API_CLIENT_OPTIONS);
 
       const transport = new StreamableHTTPServerTransport({
         sessionIdGenerator: () => randomUUID(),
@@ -1132,10 +1851,9 @@ async function main() {
 
       transport.onclose = () => {
         // Find and remove session from map
-        for (const [sid, t] of transports.entries()) {
-          if (t === transport) {
-            transports.delete(sid);
-            sessionClients.delete(sid);
+        for (const [sid, session] of sessions.entries()) {
+          if (session.transport === transport) {
+            sessions.delete(sid);
             break;
           }
         }
@@ -1150,8 +1868,7 @@ async function main() {
       // Extract session id from response headers
       const newSessionId = res.getHeader('mcp-session-id') as string | undefined;
       if (newSessionId) {
-        transports.set(newSessionId, transport);
-        sessionClients.set(newSessionId, userClient);
+        sessions.set(newSessionId, { transport, client: userClient, lastActivity: Date.now(), openStreams: 0 });
       }
       return;
     }
@@ -1166,22 +1883,26 @@ async function main() {
   // GET /mcp — SSE endpoint for Streamable HTTP
   app.get('/mcp', apiKeyAuth, async (req: Request, res: Response) => {
     const sessionId = req.headers['mcp-session-id'] as string | undefined;
-    if (!sessionId || !transports.has(sessionId)) {
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (!session) {
       res.status(400).json({ error: 'Invalid or missing session ID' });
       return;
     }
-    const transport = transports.get(sessionId)!;
-    await transport.handleRequest(req, res);
+    session.openStreams++;
+    res.on('close', () => {
+      session.openStreams--;
+      touch(session);
+    });
+    await session.transport.handleRequest(req, res);
   });
 
   // DELETE /mcp — session cleanup
   app.delete('/mcp', apiKeyAuth, async (req: Request, res: Response) => {
     const sessionId = req.headers['mcp-session-id'] as string | undefined;
-    if (sessionId && transports.has(sessionId)) {
-      const transport = transports.get(sessionId)!;
-      await transport.close();
-      transports.delete(sessionId);
-      sessionClients.delete(sessionId);
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (session) {
+      await session.transport.close();
+      sessions.delete(sessionId!);
     }
     res.status(200).json({ success: true });
   });
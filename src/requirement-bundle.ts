@@ -0,0 +1,123 @@
+/**
+ * Requirement Bundles
+ * Creates a requirement with its acceptance criteria, preconditions, verification tests and links in one call,
+ * and rolls back everything it created when any item fails.
+ */
+
+import type {
+  CreateAcceptanceCriterionInput,
+  CreatePreconditionInput,
+  CreateRequirementInput,
+  CreateRequirementLinkInput,
+  CreateVerificationTestInput,
+  ThinkPromptApiClient,
+} from './api-client.js';
+import { mapWithConcurrency } from './async-utils.js';
+import { toErrorPayload } from './errors.js';
+import type { ErrorPayload } from './errors.js';
+
+export interface RequirementBundle {
+  requirement: CreateRequirementInput;
+  acceptanceCriteria?: CreateAcceptanceCriterionInput[];
+  preconditions?: CreatePreconditionInput[];
+  verificationTests?: CreateVerificationTestInput[];
+  links?: CreateRequirementLinkInput[];
+}
+
+export type BundleItemKind = 'requirement' | 'acceptanceCriterion' | 'precondition' | 'verificationTest' | 'link';
+
+export type BundleItemStatus = 'created' | 'failed' | 'skipped' | 'rolled_back' | 'rollback_failed';
+
+export interface BundleItemResult {
+  kind: BundleItemKind;
+  /** Position in the payload list; 0 for the requirement */
+  index: number;
+  label: string;
+  status: BundleItemStatus;
+  id?: string;
+  error?: ErrorPayload;
+  rollbackError?: ErrorPayload;
+}
+
+export interface BundleResult {
+  success: boolean;
+  requirementId?: string;
+  displayId?: string;
+  items: BundleItemResult[];
+}
+
+export type RequirementBundleApi = Pick<ThinkPromptApiClient,
+  | 'createRequirement' | 'deleteRequirement'
+  | 'createAcceptanceCriterion' | 'deleteAcceptanceCriterion'
+  | 'createPrecondition' | 'deletePrecondition'
+  | 'createVerificationTest' | 'deleteVerificationTest'
+  | 'createRequirementLink' | 'deleteRequirementLink'>;
+
+interface BundleTask {
+  result: BundleItemResult;
+  create: () => Promise<{ id: string }>;
+  remove: (id: string) => Promise<void>;
+}
+
+function subEntityTasks(api: RequirementBundleApi, requirementId: string, bundle: RequirementBundle): BundleTask[] {
+  const task = <T>(kind: BundleItemKind, items: T[] | undefined, label: (item: T) => string, create: (item: T) => Promise<{ id: string }>, remove: (id: string) => Promise<void>) =>
+    (items ?? []).map((item, index): BundleTask => ({ result: { kind, index, label: label(item), status: 'skipped' }, create: () => create(item), remove }));
+  return [
+    ...task('acceptanceCriterion', bundle.acceptanceCriteria, (ac) => ac.scenarioName, (ac) => api.createAcceptanceCriterion(requirementId, ac), (id) => api.deleteAcceptanceCriterion(id)),
+    ...task('precondition', bundle.preconditions, (p) => p.title, (p) => api.createPrecondition(requirementId, p), (id) => api.deletePrecondition(id)),
+    ...task('verificationTest', bundle.verificationTests, (t) => t.testName, (t) => api.createVerificationTest(requirementId, t), (id) => api.deleteVerificationTest(id)),
+    ...task('link', bundle.links, (l) => `${l.linkType} ${l.targetRequirementId}`, (l) => api.createRequirementLink(requirementId, l), (id) => api.deleteRequirementLink(id)),
+  ];
+}
+
+/**
+ * Create the requirement first, then its sub-entities with at most `concurrency` requests in flight.
+ * After the first failure no new items are started; everything created so far is deleted again,
+ * sub-entities before the requirement (which the API archives rather than deletes).
+ */
+export async function createRequirementBundle(api: RequirementBundleApi, bundle: RequirementBundle, concurrency = 4): Promise<BundleResult> {
+  const root: BundleItemResult = { kind: 'requirement', index: 0, label: bundle.requirement.title, status: 'skipped' };
+  let requirementId: string;
+  let displayId: string;
+  try {
+    ({ id: requirementId, displayId } = await api.createRequirement(bundle.requirement));
+    root.status = 'created';
+    root.id = requirementId;
+  } catch (error) {
+    root.status = 'failed';
+    root.error = toErrorPayload(error);
+    return { success: false, items: [root] };
+  }
+
+  const tasks = subEntityTasks(api, requirementId, bundle);
+  let failed = false;
+  await mapWithConcurrency(tasks, concurrency, async ({ result, create }) => {
+    if (failed) return;
+    try {
+      result.id = (await create()).id;
+      result.status = 'created';
+    } catch (error) {
+      failed = true;
+      result.status = 'failed';
+      result.error = toErrorPayload(error);
+    }
+  });
+  const items = [root, ...tasks.map((t) => t.result)];
+  if (!failed) return { success: true, requirementId, displayId, items };
+
+  await mapWithConcurrency(tasks.filter((t) => t.result.status === 'created'), concurrency, async ({ result, remove }) => {
+    await rollBack(result, () => remove(result.id!));
+  });
+  await rollBack(root, () => api.deleteRequirement(requirementId));
+  return { success: false, requirementId, displayId, items };
+}
+
+async function rollBack(result: BundleItemResult, remove: () => Promise<void>): Promise<void> {
+  try {
+    await remove();
+    result.status = 'rolled_back';
+  } catch (error) {
+    result.status = 'rollback_failed';
+    result.rollbackError = toErrorPayload(error);
+  }
+}
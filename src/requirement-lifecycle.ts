@@ -0,0 +1,219 @@
+/**
+ * Requirement Lifecycle
+ * Allowed status transitions and the guards a requirement must pass before entering a status.
+ * The defaults can be overridden with a JSON file (THINKPROMPT_REQUIREMENT_LIFECYCLE).
+ */
+
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+
+import { unwrapPage } from './api-client.js';
+import type { AcceptanceCriterion, Precondition, Requirement, RequirementStatus, ThinkPromptApiClient } from './api-client.js';
+import { formatFieldPath, ThinkPromptError, ValidationError } from './errors.js';
+
+export const REQUIREMENT_STATUSES = ['draft', 'in_discovery', 'structured', 'quality_check', 'in_review', 'approved', 'exported'] as const satisfies readonly RequirementStatus[];
+
+export interface StatusGuards {
+  /** Minimum `qualityScore.overall` (0–100) */
+  minQualityScore?: number;
+  requirePositiveCriterion?: boolean;
+  requireNegativeCriterion?: boolean;
+  requirePreconditionsMet?: boolean;
+  maxUnresolvedComments?: number;
+}
+
+export interface LifecycleConfig {
+  /** Statuses a requirement may be created with */
+  initialStatuses: RequirementStatus[];
+  /** Target statuses allowed from each status */
+  transitions: Record<RequirementStatus, RequirementStatus[]>;
+  /** Checks that must pass before a requirement enters a status */
+  guards: Partial<Record<RequirementStatus, StatusGuards>>;
+}
+
+export type GuardName = keyof StatusGuards;
+
+export interface GuardFailure {
+  guard: GuardName;
+  message: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface TransitionCheck {
+  from: RequirementStatus;
+  to: RequirementStatus;
+  allowed: boolean;
+  /** Set when the transition itself is not part of the lifecycle */
+  reason?: string;
+  failedGuards: GuardFailure[];
+}
+
+/**
+ * Forward one step at a time, back to any earlier status for rework
+ */
+export const DEFAULT_LIFECYCLE: LifecycleConfig = {
+  initialStatuses: ['draft', 'in_discovery'],
+  transitions: Object.fromEntries(REQUIREMENT_STATUSES.map((status, index) => [
+    status,
+    [...REQUIREMENT_STATUSES.slice(index + 1, index + 2), ...REQUIREMENT_STATUSES.slice(0, index)],
+  ])) as LifecycleConfig['transitions'],
+  guards: {
+    quality_check: { requirePositiveCriterion: true },
+    in_review: { minQualityScore: 60, requirePositiveCriterion: true, requireNegativeCriterion: true },
+    approved: { minQualityScore: 70, requirePositiveCriterion: true, requireNegativeCriterion: true, requirePreconditionsMet: true, maxUnresolvedComments: 0 },
+  },
+};
+
+// ============ Configuration ============
+
+const statusSchema = z.enum(REQUIREMENT_STATUSES);
+
+const guardsSchema = z.strictObject({
+  minQualityScore: z.number().min(0).max(100).optional(),
+  requirePositiveCriterion: z.boolean().optional(),
+  requireNegativeCriterion: z.boolean().optional(),
+  requirePreconditionsMet: z.boolean().optional(),
+  maxUnresolvedComments: z.number().int().min(0).optional(),
+});
+
+const configSchema = z.strictObject({
+  initialStatuses: z.array(statusSchema).min(1).optional(),
+  transitions: z.partialRecord(statusSchema, z.array(statusSchema)).optional(),
+  guards: z.partialRecord(statusSchema, guardsSchema).optional(),
+});
+
+const loadedConfigs = new Map<string, LifecycleConfig>();
+
+function configError(path: string, message: string): ThinkPromptError {
+  return new ThinkPromptError('internal_error', message, {
+    hint: 'Fix the lifecycle file named by THINKPROMPT_REQUIREMENT_LIFECYCLE; it is read again on the next call.',
+    details: { path },
+  });
+}
+
+/**
+ * Merge a lifecycle file over the defaults; `transitions` and `guards` replace the defaults per status.
+ * The file is read on first use, so a broken file fails the requirement tools instead of server startup.
+ * Only successfully loaded files are cached.
+ */
+export function loadLifecycleConfig(path: string | undefined): LifecycleConfig {
+  if (!path) return DEFAULT_LIFECYCLE;
+  const loaded = loadedConfigs.get(path);
+  if (loaded) return loaded;
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw configError(path, `Cannot read requirement lifecycle from ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const parsed = configSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${formatFieldPath(issue.path)} ${issue.message}`);
+    throw configError(path, `Invalid requirement lifecycle in ${path}: ${issues.join('; ')}`);
+  }
+  const config: LifecycleConfig = {
+    initialStatuses: parsed.data.initialStatuses ?? DEFAULT_LIFECYCLE.initialStatuses,
+    transitions: { ...DEFAULT_LIFECYCLE.transitions, ...parsed.data.transitions },
+    guards: { ...DEFAULT_LIFECYCLE.guards, ...parsed.data.guards },
+  };
+  loadedConfigs.set(path, config);
+  return config;
+}
+
+// ============ Guards ============
+
+export function evaluateGuards(
+  guards: StatusGuards,
+  requirement: Requirement,
+  criteria: readonly AcceptanceCriterion[],
+  preconditions: readonly Precondition[],
+): GuardFailure[] {
+  const failures: GuardFailure[] = [];
+  const score = requirement.qualityScore?.overall ?? null;
+  if (guards.minQualityScore !== undefined && (score === null || score < guards.minQualityScore)) {
+    failures.push({
+      guard: 'minQualityScore',
+      message: score === null
+        ? `Quality score has not been calculated; at least ${guards.minQualityScore} is required (run calculate_requirement_quality)`
+        : `Quality score ${score} is below the required ${guards.minQualityScore}`,
+      expected: guards.minQualityScore,
+      actual: score,
+    });
+  }
+  for (const [guard, type] of [['requirePositiveCriterion', 'positive'], ['requireNegativeCriterion', 'negative']] as const) {
+    if (!guards[guard]) continue;
+    const count = criteria.filter((ac) => ac.type === type).length;
+    if (count === 0) failures.push({ guard, message: `At least one ${type} acceptance criterion is required`, expected: '>= 1', actual: count });
+  }
+  if (guards.requirePreconditionsMet) {
+    const unmet = preconditions.filter((p) => !p.isMet).map((p) => p.title);
+    if (unmet.length > 0) failures.push({ guard: 'requirePreconditionsMet', message: `${unmet.length} precondition(s) not met: ${unmet.join(', ')}`, expected: 0, actual: unmet });
+  }
+  const unresolved = requirement.unresolvedCommentsCount ?? 0;
+  if (guards.maxUnresolvedComments !== undefined && unresolved > guards.maxUnresolvedComments) {
+    failures.push({
+      guard: 'maxUnresolvedComments',
+      message: `${unresolved} unresolved comment(s); at most ${guards.maxUnresolvedComments} allowed`,
+      expected: guards.maxUnresolvedComments,
+      actual: unresolved,
+    });
+  }
+  return failures;
+}
+
+/**
+ * Check a status change against the lifecycle, fetching only the data the target status guards need
+ */
+export async function checkStatusTransition(
+  client: ThinkPromptApiClient,
+  config: LifecycleConfig,
+  requirementId: string,
+  to: RequirementStatus,
+): Promise<TransitionCheck> {
+  // Guards gate a write, so they are evaluated on fresh data rather than the response cache
+  return client.withFreshResponses(async () => {
+    const requirement = await client.getRequirement(requirementId);
+    const from = requirement.status;
+    if (from === to) return { from, to, allowed: true, failedGuards: [] };
+    if (!(config.transitions[from] ?? []).includes(to)) {
+      return { from, to, allowed: false, reason: `Transition ${from} → ${to} is not part of the lifecycle`, failedGuards: [] };
+    }
+
+    const guards = config.guards[to] ?? {};
+    const [criteria, preconditions] = await Promise.all([
+      guards.requirePositiveCriterion || guards.requireNegativeCriterion ? client.listAcceptanceCriteria(requirementId).then((r) => unwrapPage(r).data) : [],
+      guards.requirePreconditionsMet ? client.listPreconditions(requirementId).then((r) => unwrapPage(r).data) : [],
+    ]);
+    const failedGuards = evaluateGuards(guards, requirement, criteria, preconditions);
+    return { from, to, allowed: failedGuards.length === 0, failedGuards };
+  });
+}
+
+/**
+ * Reject creating a requirement directly in a later status, which would skip its guards
+ */
+export function assertInitialStatus(config: LifecycleConfig, status: RequirementStatus | undefined, field = 'status'): void {
+  if (!status || config.initialStatuses.includes(status)) return;
+  throw new ValidationError(`Requirements cannot be created with status ${status}`, [
+    { field, message: 'is not an initial status of the lifecycle', allowedValues: config.initialStatuses },
+  ], { hint: 'Create the requirement, then advance it with update_requirement_status.' });
+}
+
+export function transitionError(check: TransitionCheck, config: LifecycleConfig): ValidationError {
+  const allowedValues = config.transitions[check.from] ?? [];
+  if (check.reason) {
+    return new ValidationError(check.reason, [{ field: 'status', message: `must be one of the statuses reachable from ${check.from}`, allowedValues }], {
+      hint: `Move the requirement through the lifecycle one step at a time: ${REQUIREMENT_STATUSES.join(' → ')}.`,
+      details: { from: check.from, to: check.to },
+    });
+  }
+  return new ValidationError(
+    `Requirement cannot enter ${check.to}: ${check.failedGuards.map((failure) => failure.message).join('; ')}`,
+    check.failedGuards.map((failure) => ({ field: `status.${failure.guard}`, message: failure.message })),
+    {
+      hint: 'Resolve the failed guards (acceptance criteria, preconditions, comments, calculate_requirement_quality) and retry.',
+      details: { from: check.from, to: check.to, failedGuards: check.failedGuards },
+    },
+  );
+}
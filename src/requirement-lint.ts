@@ -0,0 +1,218 @@
+/**
+ * Requirement Quality Linter
+ * Offline heuristics for completeness, clarity, testability and atomicity of a requirement or draft.
+ * Results use the RequirementQualityScore shape so they can be compared with calculate_requirement_quality.
+ */
+
+import type {
+  AcceptanceCriterion,
+  CreateAcceptanceCriterionInput,
+  RequirementDescription,
+  RequirementQualityScore,
+  RequirementScope,
+  VerificationTest,
+} from './api-client.js';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+export type LintDimension = 'completeness' | 'clarity' | 'testability' | 'atomicity';
+export type LintIssue = RequirementQualityScore['issues'][number];
+
+/** A saved requirement or an unsaved draft in create_requirement shape */
+export interface LintableRequirement {
+  title: string;
+  description?: Partial<RequirementDescription>;
+  scope?: Partial<RequirementScope>;
+  acceptanceCriteria?: ReadonlyArray<Partial<CreateAcceptanceCriterionInput> | AcceptanceCriterion>;
+  /** Omit for drafts; tests are then not checked */
+  verificationTests?: readonly VerificationTest[];
+}
+
+const PENALTY: Record<LintSeverity, number> = { error: 25, warning: 10, info: 3 };
+
+/**
+ * Words that cannot be verified without a measurable criterion, with a hint for a concrete replacement
+ */
+const VAGUE_WORDS: Record<string, string> = {
+  'fast': 'a response time or throughput target (e.g. "p95 < 300 ms")',
+  'quick': 'a time limit (e.g. "within 2 seconds")',
+  'quickly': 'a time limit (e.g. "within 2 seconds")',
+  'slow': 'a measurable threshold',
+  'user-friendly': 'an observable usability criterion (e.g. "completes checkout in at most 3 steps")',
+  'easy': 'an observable criterion (e.g. number of steps or required knowledge)',
+  'easily': 'an observable criterion (e.g. number of steps or required knowledge)',
+  'simple': 'an observable criterion (e.g. number of steps or fields)',
+  'intuitive': 'an observable usability criterion',
+  'efficient': 'a resource or time budget',
+  'flexible': 'the concrete variations that must be supported',
+  'robust': 'the failure cases that must be handled',
+  'scalable': 'a load target (e.g. "10,000 concurrent users")',
+  'seamless': 'the concrete behaviour at the boundary',
+  'seamlessly': 'the concrete behaviour at the boundary',
+  'appropriate': 'the exact rule or value',
+  'appropriately': 'the exact rule or value',
+  'adequate': 'the exact threshold',
+  'sufficient': 'the exact threshold',
+  'reasonable': 'the exact threshold',
+  'optimal': 'the measurable target',
+  'minimal': 'the exact upper bound',
+  'modern': 'the concrete standard or version',
+  'etc': 'the complete list',
+  'and so on': 'the complete list',
+  'as needed': 'the condition that triggers it',
+  'if possible': 'whether it is required or out of scope',
+  'as soon as possible': 'a deadline or time limit',
+  'some': 'the exact number or set',
+  'several': 'the exact number',
+  'various': 'the exact set',
+  'many': 'the exact number',
+};
+
+const VAGUE_PATTERN = new RegExp(`(?<![\\w-])(${Object.keys(VAGUE_WORDS).join('|')})(?![\\w-])`, 'gi');
+const USER_STORY_PATTERN = /^\s*as an?\s+.+?,?\s+i want\s+.+?,?\s+so that\s+.+/is;
+const COMPOUND_PATTERN = /\s(?:and|as well as|&)\s/i;
+
+interface Finding extends LintIssue {
+  dimension: LintDimension;
+}
+
+function isBlank(value: string | undefined | null): boolean {
+  return !value || value.trim() === '';
+}
+
+function finding(dimension: LintDimension, rule: string, severity: LintSeverity, message: string, suggestion: string): Finding {
+  return { dimension, rule: `${dimension}.${rule}`, severity, message, suggestion };
+}
+
+// ============ Rules ============
+
+function checkCompleteness(req: LintableRequirement): Finding[] {
+  const findings: Finding[] = [];
+  const { description = {}, scope = {} } = req;
+  const criteria = req.acceptanceCriteria ?? [];
+  if (isBlank(description.overview)) {
+    findings.push(finding('completeness', 'missing_overview', 'warning', 'Description has no overview', 'Summarize what the requirement delivers in 2–3 sentences.'));
+  }
+  if (isBlank(description.userStory)) {
+    findings.push(finding('completeness', 'missing_user_story', 'error', 'Description has no user story', 'Add a user story: "As a <role>, I want <capability>, so that <benefit>".'));
+  }
+  if (isBlank(description.businessValue)) {
+    findings.push(finding('completeness', 'missing_business_value', 'warning', 'Description has no business value', 'Explain why this matters, ideally with a measurable outcome.'));
+  }
+  if (!description.successCriteria?.length) {
+    findings.push(finding('completeness', 'missing_success_criteria', 'info', 'Description lists no success criteria', 'Add measurable success criteria.'));
+  }
+  const scopeSeverity: Record<keyof RequirementScope, LintSeverity> = { inScope: 'warning', outOfScope: 'warning', assumptions: 'info', constraints: 'info' };
+  for (const [key, severity] of Object.entries(scopeSeverity) as [keyof RequirementScope, LintSeverity][]) {
+    if (!scope[key]?.some((item) => !isBlank(item))) {
+      findings.push(finding('completeness', `empty_scope_${key.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`)}`, severity, `Scope list "${key}" is empty`, `List the ${key === 'inScope' ? 'items in scope' : key === 'outOfScope' ? 'items explicitly out of scope' : key} to avoid ambiguity.`));
+    }
+  }
+  if (criteria.length === 0) {
+    findings.push(finding('completeness', 'no_acceptance_criteria', 'error', 'Requirement has no acceptance criteria', 'Add Given/When/Then acceptance criteria, including at least one negative scenario.'));
+  }
+  return findings;
+}
+
+function checkClarity(req: LintableRequirement): Finding[] {
+  const findings: Finding[] = [];
+  const { description = {} } = req;
+  const fields: Array<[string, string | undefined]> = [
+    ['title', req.title],
+    ['description.overview', description.overview],
+    ['description.userStory', description.userStory],
+    ['description.businessValue', description.businessValue],
+    ...(description.successCriteria ?? []).map((text, i): [string, string] => [`description.successCriteria[${i}]`, text]),
+    ...(req.scope?.inScope ?? []).map((text, i): [string, string] => [`scope.inScope[${i}]`, text]),
+  ];
+  for (const [field, text] of fields) {
+    if (!text) continue;
+    for (const word of new Set([...text.matchAll(VAGUE_PATTERN)].map((match) => match[1].toLowerCase()))) {
+      findings.push(finding('clarity', 'vague_word', 'warning', `${field} uses the vague term "${word}"`, `Replace "${word}" with ${VAGUE_WORDS[word]}.`));
+    }
+  }
+  const words = req.title.trim().split(/\s+/).filter(Boolean).length;
+  if (words < 3) {
+    findings.push(finding('clarity', 'title_too_short', 'warning', `Title has only ${words} word(s)`, 'Use a title that names the actor and the capability.'));
+  } else if (words > 15) {
+    findings.push(finding('clarity', 'title_too_long', 'info', `Title has ${words} words`, 'Shorten the title and move details to the overview.'));
+  }
+  if (!isBlank(description.userStory) && !USER_STORY_PATTERN.test(description.userStory!)) {
+    findings.push(finding('clarity', 'user_story_format', 'info', 'User story does not follow "As a …, I want …, so that …"', 'Rewrite the user story in the role/capability/benefit form.'));
+  }
+  return findings;
+}
+
+function checkTestability(req: LintableRequirement): Finding[] {
+  const findings: Finding[] = [];
+  const criteria = req.acceptanceCriteria ?? [];
+  criteria.forEach((ac, index) => {
+    const name = ac.scenarioName?.trim() || `#${index + 1}`;
+    if (isBlank(ac.thenOutcome)) {
+      findings.push(finding('testability', 'missing_then', 'error', `Acceptance criterion "${name}" has no Then outcome`, 'State the observable result that decides whether the scenario passes.'));
+    } else {
+      for (const word of new Set([...ac.thenOutcome!.matchAll(VAGUE_PATTERN)].map((match) => match[1].toLowerCase()))) {
+        findings.push(finding('testability', 'vague_outcome', 'warning', `Then outcome of "${name}" uses the vague term "${word}"`, `Replace "${word}" with ${VAGUE_WORDS[word]}.`));
+      }
+    }
+    if (isBlank(ac.givenContext)) {
+      findings.push(finding('testability', 'missing_given', 'warning', `Acceptance criterion "${name}" has no Given context`, 'Describe the initial state the scenario starts from.'));
+    }
+    if (isBlank(ac.whenAction)) {
+      findings.push(finding('testability', 'missing_when', 'warning', `Acceptance criterion "${name}" has no When action`, 'Describe the action or event under test.'));
+    }
+  });
+  if (criteria.length > 0 && !criteria.some((ac) => ac.type === 'negative')) {
+    findings.push(finding('testability', 'no_negative_criterion', 'warning', 'No negative acceptance criterion', 'Add a scenario for invalid input, missing permissions or a failing dependency.'));
+  }
+  if (req.verificationTests && criteria.length > 0 && req.verificationTests.length === 0) {
+    findings.push(finding('testability', 'no_verification_tests', 'info', 'Requirement has no verification tests', 'Add verification tests that cover the acceptance criteria.'));
+  }
+  return findings;
+}
+
+function checkAtomicity(req: LintableRequirement): Finding[] {
+  const findings: Finding[] = [];
+  if (COMPOUND_PATTERN.test(req.title)) {
+    findings.push(finding('atomicity', 'compound_title', 'warning', 'Title combines several capabilities with "and"', 'Split into separate requirements, one per capability, and link them.'));
+  }
+  const want = req.description?.userStory?.match(/i want\s+(.+?)(?:,?\s+so that|$)/is)?.[1];
+  if (want && COMPOUND_PATTERN.test(want)) {
+    findings.push(finding('atomicity', 'compound_user_story', 'warning', 'User story asks for several things with "and"', 'Keep one capability per user story; move the rest into linked requirements.'));
+  }
+  for (const ac of req.acceptanceCriteria ?? []) {
+    if (ac.whenAction && COMPOUND_PATTERN.test(ac.whenAction)) {
+      findings.push(finding('atomicity', 'compound_action', 'info', `When action of "${ac.scenarioName ?? 'unnamed'}" combines several actions`, 'Test one action per scenario.'));
+    }
+  }
+  if ((req.acceptanceCriteria?.length ?? 0) > 10) {
+    findings.push(finding('atomicity', 'too_many_criteria', 'info', `${req.acceptanceCriteria!.length} acceptance criteria`, 'A requirement this large is likely several requirements; consider splitting it.'));
+  }
+  return findings;
+}
+
+// ============ Scoring ============
+
+/**
+ * Each dimension starts at 100 and loses points per issue; traceability and collaboration need backend data and stay null
+ */
+export function lintRequirement(req: LintableRequirement): RequirementQualityScore {
+  const findings = [...checkCompleteness(req), ...checkClarity(req), ...checkTestability(req), ...checkAtomicity(req)];
+  const score = (dimension: LintDimension) => Math.max(0, 100 - findings
+    .filter((f) => f.dimension === dimension)
+    .reduce((sum, f) => sum + PENALTY[f.severity as LintSeverity], 0));
+  const completeness = score('completeness');
+  const clarity = score('clarity');
+  const testability = score('testability');
+  const atomicity = score('atomicity');
+  return {
+    completeness,
+    clarity,
+    testability,
+    atomicity,
+    traceability: null,
+    collaboration: null,
+    overall: Math.round((completeness + clarity + testability + atomicity) / 4),
+    issues: findings.map(({ rule, severity, message, suggestion }) => ({ rule, severity, message, suggestion })),
+    lastCalculatedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * Requirement Specification
+ * Fetches a requirement with all of its sub-entities and renders them as one Markdown document
+ */
+
+import { unwrapPage } from './api-client.js';
+import type {
+  AcceptanceCriterion,
+  Precondition,
+  Requirement,
+  RequirementComment,
+  RequirementLink,
+  ThinkPromptApiClient,
+  VerificationTest,
+} from './api-client.js';
+import { bulletList, requirementOverviewSections } from './resource-content.js';
+
+export interface RequirementScope {
+  projectId?: string;
+  featureId?: string;
+  includeArchived?: boolean;
+}
+
+export interface RequirementDetails {
+  requirement: Requirement;
+  acceptanceCriteria: AcceptanceCriterion[];
+  preconditions: Precondition[];
+  verificationTests: VerificationTest[];
+  links: RequirementLink[];
+  comments: RequirementComment[];
+}
+
+/**
+ * List the requirements of a project or feature, sorted by displayId
+ */
+export async function listScopedRequirements(client: ThinkPromptApiClient, scope: RequirementScope): Promise<Requirement[]> {
+  // The requirements endpoint filters by feature but not by project
+  const listed = unwrapPage(await client.listRequirements({ featureId: scope.featureId, includeArchived: scope.includeArchived })).data;
+  return listed
+    .filter((r) => !scope.projectId || r.projectId === scope.projectId)
+    .sort((a, b) => a.displayId.localeCompare(b.displayId, undefined, { numeric: true }));
+}
+
+/**
+ * Fetch the requirement and its sub-entities in parallel, sorted by their sortOrder
+ */
+export async function fetchRequirementDetails(client: ThinkPromptApiClient, requirementId: string): Promise<RequirementDetails> {
+  const [requirement, acceptanceCriteria, preconditions, verificationTests, links, comments] = await Promise.all([
+    client.getRequirement(requirementId),
+    client.listAcceptanceCriteria(requirementId),
+    client.listPreconditions(requirementId),
+    client.listVerificationTests(requirementId),
+    client.listRequirementLinks(requirementId),
+    client.listRequirementComments(requirementId),
+  ]);
+  const bySortOrder = (a: { sortOrder: number }, b: { sortOrder: number }) => a.sortOrder - b.sortOrder;
+  return {
+    requirement,
+    acceptanceCriteria: unwrapPage(acceptanceCriteria).data.sort(bySortOrder),
+    preconditions: unwrapPage(preconditions).data.sort(bySortOrder),
+    verificationTests: unwrapPage(verificationTests).data.sort(bySortOrder),
+    links: unwrapPage(links).data,
+    comments: unwrapPage(comments).data,
+  };
+}
+
+function tableCell(text: string | number): string {
+  return String(text).replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+function renderAcceptanceCriteria(criteria: AcceptanceCriterion[]): string {
+  if (criteria.length === 0) return 'No acceptance criteria defined';
+  return criteria.map((ac, index) => [
+    `### AC${index + 1}: ${ac.scenarioName} (${ac.type})`,
+    `- **Given** ${ac.givenContext}`,
+    `- **When** ${ac.whenAction}`,
+    `- **Then** ${ac.thenOutcome}`,
+  ].join('\n')).join('\n\n');
+}
+
+function renderPreconditions(preconditions: Precondition[]): string {
+  if (preconditions.length === 0) return 'No preconditions defined';
+  const met = preconditions.filter((p) => p.isMet).length;
+  const items = preconditions.map((p) => `- [${p.isMet ? 'x' : ' '}] **${p.title}** (${p.category}, ${p.isMet ? 'met' : 'unmet'})${p.description ? ` — ${p.description}` : ''}`);
+  return `${met}/${preconditions.length} met\n\n${items.join('\n')}`;
+}
+
+function renderVerificationTests(tests: VerificationTest[]): string {
+  if (tests.length === 0) return 'No verification tests defined';
+  return tests.map((test) => {
+    const steps = [...(test.steps ?? [])].sort((a, b) => a.step - b.step);
+    return [
+      `### ${test.testName} (${test.testType})`,
+      test.description,
+      steps.length > 0
+        ? ['| # | Action | Expected |', '|---|---|---|', ...steps.map((s) => `| ${s.step} | ${tableCell(s.action)} | ${tableCell(s.expected)} |`)].join('\n')
+        : '',
+      test.expectedResult ? `**Expected result:** ${test.expectedResult}` : '',
+      test.automationHint ? `**Automation hint:** ${test.automationHint}` : '',
+    ].filter(Boolean).join('\n\n');
+  }).join('\n\n');
+}
+
+function renderLinks(links: RequirementLink[]): string {
+  return bulletList(links.map((link) => {
+    const target = link.linkedRequirement;
+    return `${link.linkType}: **${target.displayId}** ${target.title} (${target.status})${link.description ? ` — ${link.description}` : ''}`;
+  }), 'No links');
+}
+
+function renderComment(comment: RequirementComment, indent: string): string[] {
+  const author = comment.author?.fullName ?? comment.author?.email ?? comment.createdBy;
+  const location = comment.sectionKey ? ` on ${comment.sectionKey}` : '';
+  const lines = [`${indent}- **${author}**${location}: ${comment.content.replace(/\r?\n/g, ' ')}`];
+  for (const reply of comment.replies ?? []) lines.push(...renderComment(reply, `${indent}  `));
+  return lines;
+}
+
+function renderOpenComments(comments: RequirementComment[]): string {
+  const threads = comments.filter((c) => c.parentCommentId === null && c.status === 'open');
+  if (threads.length === 0) return 'No open comments';
+  return threads.flatMap((thread) => renderComment(thread, '')).join('\n');
+}
+
+/**
+ * Render a single Markdown document containing everything needed to implement the requirement
+ */
+export function renderRequirementSpec(details: RequirementDetails): string {
+  const sections = [
+    ...requirementOverviewSections(details.requirement),
+    `## Preconditions\n${renderPreconditions(details.preconditions)}`,
+    `## Acceptance Criteria\n${renderAcceptanceCriteria(details.acceptanceCriteria)}`,
+    `## Verification Tests\n${renderVerificationTests(details.verificationTests)}`,
+    `## Links\n${renderLinks(details.links)}`,
+    `## Open Comments\n${renderOpenComments(details.comments)}`,
+  ];
+  return `${sections.join('\n\n')}\n`;
+}
@@ -0,0 +1,65 @@
+/**
+ * Resource Content
+ * Markdown renderings of documents, requirements and projects for MCP resource reads
+ */
+
+import type { Document, DocumentVersion, Project, Requirement } from './api-client.js';
+import { stringifyFrontmatter } from './frontmatter.js';
+
+export function bulletList(items: readonly string[] | undefined, empty: string): string {
+  return items && items.length > 0 ? items.map((item) => `- ${item}`).join('\n') : empty;
+}
+
+/**
+ * The document exactly as stored: YAML frontmatter followed by the Markdown content
+ */
+export function documentToMarkdown(document: Document | DocumentVersion): string {
+  return stringifyFrontmatter(document.frontmatter, document.content);
+}
+
+/**
+ * Header, description and scope sections shared by the requirement resource and the full specification
+ */
+export function requirementOverviewSections(requirement: Requirement): string[] {
+  const { description, scope } = requirement;
+  return [
+    `# ${requirement.displayId}: ${requirement.title}`,
+    [
+      `- **Status:** ${requirement.status}`,
+      `- **Quality score:** ${requirement.qualityScore?.overall ?? 'not calculated'}`,
+      requirement.tags.length > 0 ? `- **Tags:** ${requirement.tags.map((tag) => tag.name).join(', ')}` : '',
+      requirement.assignees.length > 0 ? `- **Assignees:** ${requirement.assignees.map((a) => a.fullName ?? a.email).join(', ')}` : '',
+    ].filter(Boolean).join('\n'),
+    `## Overview\n${description.overview || 'No overview'}`,
+    description.background ? `## Background\n${description.background}` : '',
+    description.userStory ? `## User Story\n${description.userStory}` : '',
+    description.businessValue ? `## Business Value\n${description.businessValue}` : '',
+    description.affectedRoles?.length ? `## Affected Roles\n${bulletList(description.affectedRoles, '')}` : '',
+    description.successCriteria?.length ? `## Success Criteria\n${bulletList(description.successCriteria, '')}` : '',
+    `## Scope\n### In Scope\n${bulletList(scope.inScope, 'None')}\n\n### Out of Scope\n${bulletList(scope.outOfScope, 'None')}`,
+    scope.assumptions?.length ? `### Assumptions\n${bulletList(scope.assumptions, '')}` : '',
+    scope.constraints?.length ? `### Constraints\n${bulletList(scope.constraints, '')}` : '',
+  ].filter(Boolean);
+}
+
+export function requirementToMarkdown(requirement: Requirement): string {
+  const sections = [
+    ...requirementOverviewSections(requirement),
+    `## Related\n- Acceptance criteria: ${requirement.acceptanceCriteriaCount}\n- Preconditions: ${requirement.preconditionsCount}\n- Verification tests: ${requirement.verificationTestsCount}\n- Links: ${requirement.linksCount}\n- Comments: ${requirement.commentsCount} (${requirement.unresolvedCommentsCount} unresolved)`,
+    `## Statistics\n- Created: ${requirement.createdAt}\n- Updated: ${requirement.updatedAt}`,
+  ];
+  return `${sections.join('\n\n')}\n`;
+}
+
+export function projectToMarkdown(project: Project): string {
+  const links = project.links.map((link) => `[${link.label ?? link.type}](${link.url})`);
+  const sections = [
+    `# ${project.name}`,
+    `- **Slug:** ${project.slug}\n- **Archived:** ${project.isArchived ? 'Yes' : 'No'}`,
+    `## Description\n${project.description ?? 'No description'}`,
+    `## Links\n${bulletList(links, 'No links')}`,
+    project.assignees?.length ? `## Assignees\n${bulletList(project.assignees.map((a) => a.fullName ?? a.email), '')}` : '',
+    `## Statistics\n- Created: ${project.createdAt}\n- Updated: ${project.updatedAt}`,
+  ];
+  return `${sections.filter(Boolean).join('\n\n')}\n`;
+}
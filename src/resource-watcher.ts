@@ -0,0 +1,226 @@
+/**
+ * Resource Watcher
+ * Polls style guides, templates and workflows for changes and reports them as MCP resource notifications.
+ * Additions and removals are detected from the item count of each collection, updates by re-reading the
+ * subscribed resources. Mutations made through the same API client are reported immediately.
+ */
+
+import { unwrapPage } from './api-client.js';
+import type { MutationEvent, ThinkPromptApiClient } from './api-client.js';
+import { NotFoundError } from './errors.js';
+
+export const WATCHED_URI_SCHEMES = ['style-guide', 'template', 'workflow'] as const;
+
+export type WatchedUriScheme = (typeof WATCHED_URI_SCHEMES)[number];
+
+// API collection → resource URI scheme
+const COLLECTION_SCHEMES: Record<string, WatchedUriScheme> = {
+  'style-guides': 'style-guide',
+  templates: 'template',
+  workflows: 'workflow',
+};
+
+export interface ResourceWatcherOptions {
+  /** Poll interval in ms (0 disables polling; own mutations are still reported) */
+  pollIntervalMs?: number;
+  /** Poll for added and removed resources even without subscriptions (default: true) */
+  watchListChanges?: boolean;
+  onUpdated: (uri: string) => void | Promise<void>;
+  onListChanged: () => void | Promise<void>;
+}
+
+interface WatcherSnapshot {
+  /** Item count per collection */
+  counts: Map<string, number>;
+  /** Subscribed URI → updatedAt, or null once the resource is gone */
+  versions: Map<string, string | null>;
+}
+
+export const DEFAULT_RESOURCE_POLL_INTERVAL_MS = 60_000;
+
+/**
+ * Whether `uri` is a resource URI that can be subscribed to
+ */
+export function isWatchableUri(uri: string): boolean {
+  const match = uri.match(/^([\w-]+):\/\/(.+)$/);
+  return match !== null && (WATCHED_URI_SCHEMES as readonly string[]).includes(match[1]);
+}
+
+export class ResourceWatcher {
+  private readonly client: ThinkPromptApiClient;
+  private readonly pollIntervalMs: number;
+  private readonly watchListChanges: boolean;
+  private readonly onUpdated: ResourceWatcherOptions['onUpdated'];
+  private readonly onListChanged: ResourceWatcherOptions['onListChanged'];
+  private readonly subscriptions = new Set<string>();
+  /** State of the last poll; null until the first poll completes */
+  private snapshot: WatcherSnapshot | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private polling: Promise<void> | null = null;
+  private removeMutationListener: (() => void) | null = null;
+
+  constructor(client: ThinkPromptApiClient, options: ResourceWatcherOptions) {
+    this.client = client;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_RESOURCE_POLL_INTERVAL_MS;
+    this.watchListChanges = options.watchListChanges ?? true;
+    this.onUpdated = options.onUpdated;
+    this.onListChanged = options.onListChanged;
+  }
+
+  start(): void {
+    if (this.removeMutationListener) return;
+    this.removeMutationListener = this.client.onMutation((event) => this.handleMutation(event));
+    this.updatePolling();
+  }
+
+  stop(): void {
+    this.removeMutationListener?.();
+    this.removeMutationListener = null;
+    this.subscriptions.clear();
+    this.updatePolling();
+  }
+
+  /** Whether the periodic poll is running */
+  get isPolling(): boolean {
+    return this.timer !== null;
+  }
+
+  subscribe(uri: string): void {
+    if (!isWatchableUri(uri)) throw new Error(`Subscriptions are not supported for ${uri}`);
+    this.subscriptions.add(uri);
+    this.updatePolling();
+  }
+
+  unsubscribe(uri: string): void {
+    this.subscriptions.delete(uri);
+    this.snapshot?.versions.delete(uri);
+    this.updatePolling();
+  }
+
+  /**
+   * Run the poll timer while the watcher is started and there is something to watch: list changes, or
+   * subscriptions. The snapshot is dropped when polling stops, so the first poll after a restart takes a new
+   * baseline instead of reporting stale differences.
+   */
+  private updatePolling(): void {
+    const shouldPoll = this.removeMutationListener !== null && this.pollIntervalMs > 0
+      && (this.watchListChanges || this.subscriptions.size > 0);
+    if (shouldPoll && !this.timer) {
+      void this.poll();
+      this.timer = setInterval(() => void this.poll(), this.pollIntervalMs);
+      this.timer.unref();
+    } else if (!shouldPoll && this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      this.snapshot = null;
+    }
+  }
+
+  /**
+   * Compare collection counts and the updatedAt of subscribed resources with the previous poll
+   */
+  poll(): Promise<void> {
+    // Never run two polls at once — a slow API would otherwise pile them up
+    this.polling ??= this.pollOnce().finally(() => { this.polling = null; });
+    return this.polling;
+  }
+
+  private async pollOnce(): Promise<void> {
+    const subscriptions = [...this.subscriptions];
+    let next: WatcherSnapshot;
+    try {
+      next = await this.client.withFreshResponses(async () => ({
+        counts: this.watchListChanges ? await this.fetchCounts() : new Map(),
+        versions: new Map(await Promise.all(subscriptions.map(async (uri) => [uri, await this.fetchVersion(uri)] as const))),
+      }));
+    } catch {
+      return; // Keep the previous snapshot and try again on the next tick
+    }
+    if (!this.timer) return; // Polling stopped while the request was in flight
+    const previous = this.snapshot;
+    this.snapshot = next;
+    if (!previous) return;
+
+    if ([...next.counts].some(([collection, count]) => previous.counts.has(collection) && previous.counts.get(collection) !== count)) {
+      await this.notifyListChanged();
+    }
+    for (const [uri, version] of next.versions) {
+      // URIs subscribed since the previous poll only get their baseline now
+      if (previous.versions.has(uri) && previous.versions.get(uri) !== version && this.subscriptions.has(uri)) await this.notifyUpdated(uri);
+    }
+  }
+
+  /** One single-item page per collection; only `meta.total` is used */
+  private async fetchCounts(): Promise<Map<string, number>> {
+    const pages = await Promise.all([
+      this.client.listStyleGuides({ limit: 1 }).then(unwrapPage),
+      this.client.listTemplates({ limit: 1 }).then(unwrapPage),
+      this.client.listWorkflows({ limit: 1 }).then(unwrapPage),
+    ]);
+    const counts = new Map<string, number>();
+    Object.keys(COLLECTION_SCHEMES).forEach((collection, index) => {
+      const total = pages[index].meta?.total;
+      if (typeof total === 'number') counts.set(collection, total);
+    });
+    return counts;
+  }
+
+  private async fetchVersion(uri: string): Promise<string | null> {
+    const [scheme, id] = uri.split('://');
+    try {
+      const resource = scheme === 'style-guide'
+        ? await this.client.getStyleGuide(id)
+        : scheme === 'template' ? await this.client.getTemplate(id) : await this.client.getWorkflow(id);
+      return resource.updatedAt;
+    } catch (error) {
+      if (error instanceof NotFoundError) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Map a successful create/update/delete on a watched collection to notifications, and fold it into the snapshot
+   * so the next poll does not report it again
+   */
+  private handleMutation({ method, endpoint, data }: MutationEvent): void {
+    const [collection, id, ...rest] = endpoint.split('?')[0].split('/').filter(Boolean);
+    const scheme = COLLECTION_SCHEMES[collection];
+    if (!scheme || rest.length > 0) return;
+    const counts = this.snapshot?.counts;
+    const count = counts?.get(collection);
+
+    if (!id && method === 'POST') {
+      if (count !== undefined) counts!.set(collection, count + 1);
+      void this.notifyListChanged();
+      return;
+    }
+    if (!id) return;
+    const uri = `${scheme}://${id}`;
+    if (method === 'DELETE') {
+      if (count !== undefined) counts!.set(collection, count - 1);
+      if (this.snapshot?.versions.has(uri)) this.snapshot.versions.set(uri, null);
+      void this.notifyListChanged();
+      if (this.subscriptions.has(uri)) void this.notifyUpdated(uri);
+    } else if (method === 'PATCH' || method === 'PUT') {
+      const updatedAt = (data as { updatedAt?: string } | undefined)?.updatedAt;
+      if (updatedAt && this.snapshot?.versions.has(uri)) this.snapshot.versions.set(uri, updatedAt);
+      if (this.subscriptions.has(uri)) void this.notifyUpdated(uri);
+    }
+  }
+
+  private async notifyUpdated(uri: string): Promise<void> {
+    try {
+      await this.onUpdated(uri);
+    } catch {
+      // The client may have disconnected between the change and the notification
+    }
+  }
+
+  private async notifyListChanged(): Promise<void> {
+    try {
+      await this.onListChanged();
+    } catch {
+      // See notifyUpdated
+    }
+  }
+}
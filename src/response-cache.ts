@@ -0,0 +1,110 @@
+/**
+ * Response Cache
+ * In-memory TTL cache with least-recently-used eviction for GET responses
+ */
+
+export interface ResponseCacheOptions {
+  /** Time-to-live per entry in ms (0 disables caching) */
+  ttlMs?: number;
+  /** Maximum number of entries before the least recently used one is evicted */
+  maxEntries?: number;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  hitRate: number;
+  size: number;
+  maxEntries: number;
+  ttlMs: number;
+  evictions: number;
+  invalidations: number;
+}
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+export const DEFAULT_CACHE_TTL_MS = 30_000;
+export const DEFAULT_CACHE_MAX_ENTRIES = 500;
+
+export class ResponseCache {
+  private readonly ttlMs: number;
+  private readonly maxEntries: number;
+  // Map iteration order is insertion order, so re-inserting on access keeps the LRU entry first
+  private readonly entries = new Map<string, CacheEntry>();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private invalidations = 0;
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_CACHE_TTL_MS;
+    this.maxEntries = options.maxEntries ?? DEFAULT_CACHE_MAX_ENTRIES;
+  }
+
+  get enabled(): boolean {
+    return this.ttlMs > 0 && this.maxEntries > 0;
+  }
+
+  /**
+   * Look up a fresh entry, counting the hit or miss
+   */
+  get<T>(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) this.entries.delete(key);
+      this.misses++;
+      return undefined;
+    }
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return structuredClone(entry.value) as T;
+  }
+
+  set(key: string, value: unknown): void {
+    if (!this.enabled) return;
+    this.entries.delete(key);
+    this.entries.set(key, { value: structuredClone(value), expiresAt: Date.now() + this.ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+
+  /**
+   * Remove every entry whose key matches, returning how many were removed
+   */
+  invalidate(predicate: (key: string) => boolean): number {
+    let removed = 0;
+    for (const key of [...this.entries.keys()]) {
+      if (!predicate(key)) continue;
+      this.entries.delete(key);
+      removed++;
+    }
+    this.invalidations += removed;
+    return removed;
+  }
+
+  clear(): void {
+    this.invalidations += this.entries.size;
+    this.entries.clear();
+  }
+
+  stats(): CacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? Math.round((this.hits / lookups) * 1000) / 1000 : 0,
+      size: this.entries.size,
+      maxEntries: this.maxEntries,
+      ttlMs: this.ttlMs,
+      evictions: this.evictions,
+      invalidations: this.invalidations,
+    };
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Test Scaffolding
+ * Generates test file skeletons from a requirement's verification tests.
+ * Automated tests become framework test cases, manual tests a Markdown checklist.
+ */
+
+import type { Requirement, TestStep, VerificationTest } from './api-client.js';
+
+export type TestFramework = 'vitest' | 'jest' | 'playwright' | 'pytest';
+
+export interface ScaffoldFile {
+  fileName: string;
+  kind: TestFramework | 'manual-checklist';
+  testCount: number;
+  content: string;
+}
+
+function identifier(text: string): string {
+  return text.toLowerCase().normalize('NFKD').replace(/[^\w]+/g, '_').replace(/^_+|_+$/g, '').replace(/^(\d)/, '_$1') || 'unnamed';
+}
+
+/**
+ * Give repeated names a numeric suffix from 2 upwards so generated tests do not collide
+ */
+function uniqueNames(names: readonly string[], suffix: (name: string, n: number) => string): string[] {
+  const used = new Set<string>();
+  return names.map((name) => {
+    let unique = name;
+    for (let n = 2; used.has(unique); n++) unique = suffix(name, n);
+    used.add(unique);
+    return unique;
+  });
+}
+
+function fileStem(displayId: string): string {
+  return displayId.replace(/[^\w-]/g, '_');
+}
+
+function jsString(text: string): string {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\r?\n/g, ' ')}'`;
+}
+
+function pyString(text: string): string {
+  return JSON.stringify(text.replace(/\r?\n/g, ' '));
+}
+
+function commentLines(marker: string, indent: string, label: string, text: string): string[] {
+  const [first, ...rest] = text.split(/\r?\n/);
+  const pad = ' '.repeat(label.length + 2);
+  return [`${indent}${marker} ${label}: ${first}`, ...rest.map((line) => `${indent}${marker} ${pad}${line}`)];
+}
+
+/**
+ * One commented arrange/act/assert block per test step
+ */
+function stepBlocks(test: VerificationTest, marker: string, indent: string): string[] {
+  const steps: TestStep[] = test.steps?.length
+    ? [...test.steps].sort((a, b) => a.step - b.step)
+    : [{ step: 1, action: test.description || test.testName, expected: test.expectedResult || 'TODO' }];
+  return steps.flatMap((step, index) => [
+    ...(index > 0 ? [''] : []),
+    `${indent}${marker} Step ${step.step}`,
+    `${indent}${marker} Arrange: ${index === 0 ? 'TODO set up the preconditions for this test' : `continue from step ${steps[index - 1].step}`}`,
+    ...commentLines(marker, indent, 'Act', step.action),
+    ...commentLines(marker, indent, 'Assert', step.expected),
+  ]);
+}
+
+function testHeader(test: VerificationTest, marker: string, indent: string): string[] {
+  return [
+    ...(test.description ? commentLines(marker, indent, 'Description', test.description) : []),
+    ...(test.expectedResult ? commentLines(marker, indent, 'Expected result', test.expectedResult) : []),
+    ...(test.automationHint ? commentLines(marker, indent, 'Automation hint', test.automationHint) : []),
+  ];
+}
+
+function renderJavaScript(requirement: Requirement, tests: VerificationTest[], framework: 'vitest' | 'jest' | 'playwright'): string {
+  const { displayId } = requirement;
+  const imports = {
+    vitest: "import { describe, expect, it } from 'vitest';",
+    jest: "import { describe, expect, it } from '@jest/globals';",
+    playwright: "import { expect, test } from '@playwright/test';",
+  }[framework];
+  const describeFn = framework === 'playwright' ? 'test.describe' : 'describe';
+  const testFn = framework === 'playwright' ? 'test' : 'it';
+  const testArgs = framework === 'playwright' ? 'async ({ page })' : 'async ()';
+  // Playwright filters by @tags in titles (`--grep @REQ-12`)
+  const suiteTitle = framework === 'playwright' ? `${displayId}: ${requirement.title} @${displayId}` : `${displayId}: ${requirement.title}`;
+
+  // Playwright rejects duplicate titles in a file, Jest and Vitest report them ambiguously
+  const titles = uniqueNames(tests.map((test) => `[${displayId}] ${test.testName} (${test.testType})`), (title, n) => `${title} #${n}`);
+  const cases = tests.map((test, index) => [
+    `  ${testFn}(${jsString(titles[index])}, ${testArgs} => {`,
+    ...testHeader(test, '//', '    '),
+    ...stepBlocks(test, '//', '    '),
+    '',
+    `    throw new Error(${jsString(`Not implemented: ${test.testName}`)});`,
+    '  });',
+  ].join('\n'));
+
+  return [
+    `// Generated from ThinkPrompt requirement ${displayId}: ${requirement.title.replace(/\r?\n/g, ' ')}`,
+    `// Requirement ID: ${requirement.id}`,
+    imports,
+    '',
+    `${describeFn}(${jsString(suiteTitle)}, () => {`,
+    cases.join('\n\n'),
+    '});',
+    '',
+  ].join('\n');
+}
+
+function renderPytest(requirement: Requirement, tests: VerificationTest[]): string {
+  const { displayId } = requirement;
+  // A later function with the same name would replace the earlier one in the module
+  const functionNames = uniqueNames(tests.map((test) => `test_${identifier(displayId)}_${identifier(test.testName)}`), (name, n) => `${name}_${n}`);
+  const cases = tests.map((test, index) => [
+    `def ${functionNames[index]}():`,
+    `    ${pyString(`[${displayId}] ${test.testName} (${test.testType})`)}`,
+    ...testHeader(test, '#', '    '),
+    ...stepBlocks(test, '#', '    '),
+    '',
+    `    raise NotImplementedError(${pyString(`Not implemented: ${test.testName}`)})`,
+  ].join('\n'));
+
+  return [
+    `"""Generated from ThinkPrompt requirement ${displayId}: ${requirement.title.replace(/\r?\n/g, ' ').replace(/"""/g, "'''")}`,
+    '',
+    `Requirement ID: ${requirement.id}`,
+    '"""',
+    '',
+    '',
+    cases.join('\n\n\n'),
+    '',
+  ].join('\n');
+}
+
+function renderManualChecklist(requirement: Requirement, tests: VerificationTest[]): string {
+  const sections = tests.map((test) => {
+    const steps = [...(test.steps ?? [])].sort((a, b) => a.step - b.step);
+    return [
+      `## ${test.testName}`,
+      test.description,
+      steps.map((s) => `- [ ] **Step ${s.step}:** ${s.action}\n  - Expected: ${s.expected}`).join('\n'),
+      test.expectedResult ? `- [ ] **Expected result:** ${test.expectedResult}` : '',
+    ].filter(Boolean).join('\n\n');
+  });
+  return `# ${requirement.displayId}: ${requirement.title} — Manual Tests\n\nRequirement ID: ${requirement.id}\n\n${sections.join('\n\n')}\n`;
+}
+
+/**
+ * Build the scaffold files for a requirement: one test file for the automated tests, one checklist for manual tests
+ */
+export function generateTestScaffold(requirement: Requirement, tests: readonly VerificationTest[], framework: TestFramework): ScaffoldFile[] {
+  const sorted = [...tests].sort((a, b) => a.sortOrder - b.sortOrder);
+  const automated = sorted.filter((test) => test.testType !== 'manual');
+  const manual = sorted.filter((test) => test.testType === 'manual');
+  const stem = fileStem(requirement.displayId);
+  const files: ScaffoldFile[] = [];
+
+  if (automated.length > 0) {
+    files.push(framework === 'pytest'
+      ? { fileName: `test_${identifier(stem)}.py`, kind: framework, testCount: automated.length, content: renderPytest(requirement, automated) }
+      : {
+        fileName: `${stem}.${framework === 'playwright' ? 'spec' : 'test'}.ts`,
+        kind: framework,
+        testCount: automated.length,
+        content: renderJavaScript(requirement, automated, framework),
+      });
+  }
+  if (manual.length > 0) {
+    files.push({ fileName: `${stem}.manual-tests.md`, kind: 'manual-checklist', testCount: manual.length, content: renderManualChecklist(requirement, manual) });
+  }
+  return files;
+}
@@ -0,0 +1,361 @@
+/**
+ * Text Diff
+ * Line diffs (Myers) rendered as unified diffs, key-level diffs of frontmatter objects,
+ * and three-way merges of concurrent edits
+ */
+
+export type DiffOp =
+  | { type: 'equal'; line: string }
+  | { type: 'insert'; line: string }
+  | { type: 'delete'; line: string };
+
+export interface UnifiedDiffOptions {
+  fromLabel?: string;
+  toLabel?: string;
+  /** Unchanged lines shown around each change (default: 3) */
+  context?: number;
+}
+
+export interface UnifiedDiff {
+  text: string;
+  addedLines: number;
+  removedLines: number;
+  hunks: number;
+}
+
+export interface FrontmatterDiff {
+  added: Record<string, unknown>;
+  removed: Record<string, unknown>;
+  changed: Record<string, { from: unknown; to: unknown }>;
+}
+
+export interface MergeLabels {
+  ours: string;
+  base: string;
+  theirs: string;
+}
+
+export interface TextMerge {
+  text: string;
+  /** Regions changed differently on both sides, marked with <<<<<<< ||||||| ======= >>>>>>> in `text` */
+  conflicts: number;
+}
+
+export interface FrontmatterMerge {
+  merged: Record<string, unknown>;
+  /** Keys changed differently on both sides; `merged` keeps their value */
+  conflicts: string[];
+}
+
+export function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Edit distance above which two texts are treated as rewritten: the diff becomes one replace of the changed region
+ * instead of spending O((N+M)·D) time on a line-by-line script nobody can review
+ */
+export const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Shortest edit script between two line arrays (Myers' O(ND) algorithm in linear space), after trimming the
+ * common prefix and suffix. Beyond MAX_EDIT_DISTANCE the changed region is returned as deletes followed by inserts.
+ */
+export function diffLines(a: readonly string[], b: readonly string[]): DiffOp[] {
+  const ops: DiffOp[] = [];
+  diffRange(a, 0, a.length, b, 0, b.length, ops);
+  return ops;
+}
+
+function replaceRange(a: readonly string[], aLo: number, aHi: number, b: readonly string[], bLo: number, bHi: number, ops: DiffOp[]): void {
+  for (let i = aLo; i < aHi; i++) ops.push({ type: 'delete', line: a[i] });
+  for (let j = bLo; j < bHi; j++) ops.push({ type: 'insert', line: b[j] });
+}
+
+function diffRange(a: readonly string[], aLo: number, aHi: number, b: readonly string[], bLo: number, bHi: number, ops: DiffOp[]): void {
+  const start = aLo;
+  while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) {
+    aLo++;
+    bLo++;
+  }
+  for (let i = start; i < aLo; i++) ops.push({ type: 'equal', line: a[i] });
+  let suffix = 0;
+  while (aLo < aHi - suffix && bLo < bHi - suffix && a[aHi - 1 - suffix] === b[bHi - 1 - suffix]) suffix++;
+  aHi -= suffix;
+  bHi -= suffix;
+
+  if (aLo === aHi || bLo === bHi) {
+    replaceRange(a, aLo, aHi, b, bLo, bHi, ops);
+  } else {
+    const split = middleSnake(a, aLo, aHi, b, bLo, bHi);
+    if (split) {
+      diffRange(a, aLo, split.x, b, bLo, split.y, ops);
+      diffRange(a, split.x, aHi, b, split.y, bHi, ops);
+    } else {
+      replaceRange(a, aLo, aHi, b, bLo, bHi, ops);
+    }
+  }
+  for (let i = aHi; i < aHi + suffix; i++) ops.push({ type: 'equal', line: a[i] });
+}
+
+/**
+ * Search forward from the start and backward from the end until the paths overlap; the overlap splits the
+ * problem in two. Only the current diagonals are kept, so memory stays O(N+M). Returns null when the edit
+ * distance exceeds MAX_EDIT_DISTANCE or the ranges share no line.
+ */
+function middleSnake(a: readonly string[], aLo: number, aHi: number, b: readonly string[], bLo: number, bHi: number): { x: number; y: number } | null {
+  const n = aHi - aLo;
+  const m = bHi - bLo;
+  const maxD = Math.min(Math.ceil((n + m) / 2), Math.ceil(MAX_EDIT_DISTANCE / 2));
+  const offset = maxD + 1;
+  // Furthest x reached on each diagonal k = x - y, forward from the start and backward from the end (-1: not reached)
+  const forward = new Int32Array(2 * offset + 1).fill(-1);
+  const backward = new Int32Array(2 * offset + 1).fill(-1);
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+  const delta = n - m;
+  // With an odd delta the paths can only meet during a forward step, with an even one during a backward step
+  const overlapForward = delta % 2 !== 0;
+  // Diagonals that ran off the edit graph are skipped in later rounds
+  let forwardStart = 0;
+  let forwardEnd = 0;
+  let backwardStart = 0;
+  let backwardEnd = 0;
+
+  for (let d = 0; d <= maxD; d++) {
+    for (let k = -d + forwardStart; k <= d - forwardEnd; k += 2) {
+      let x = k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1]) ? forward[offset + k + 1] : forward[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aLo + x] === b[bLo + y]) {
+        x++;
+        y++;
+      }
+      forward[offset + k] = x;
+      if (x > n) {
+        forwardEnd += 2;
+      } else if (y > m) {
+        forwardStart += 2;
+      } else if (overlapForward) {
+        const reverse = offset + delta - k;
+        if (reverse >= 0 && reverse < backward.length && backward[reverse] !== -1 && x >= n - backward[reverse]) {
+          return { x: aLo + x, y: bLo + y };
+        }
+      }
+    }
+    for (let k = -d + backwardStart; k <= d - backwardEnd; k += 2) {
+      let x = k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1]) ? backward[offset + k + 1] : backward[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aHi - 1 - x] === b[bHi - 1 - y]) {
+        x++;
+        y++;
+      }
+      backward[offset + k] = x;
+      if (x > n) {
+        backwardEnd += 2;
+      } else if (y > m) {
+        backwardStart += 2;
+      } else if (!overlapForward) {
+        const reverse = offset + delta - k;
+        if (reverse >= 0 && reverse < forward.length && forward[reverse] !== -1 && forward[reverse] >= n - x) {
+          const fx = forward[reverse];
+          return { x: aLo + fx, y: bLo + fx - (reverse - offset) };
+        }
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Render a line diff in unified format (`---`/`+++` header, `@@ -a,b +c,d @@` hunks)
+ */
+export function unifiedDiff(from: string, to: string, options: UnifiedDiffOptions = {}): UnifiedDiff {
+  const { fromLabel = 'a', toLabel = 'b', context = 3 } = options;
+  const ops = diffLines(splitLines(from), splitLines(to));
+  const addedLines = ops.filter((op) => op.type === 'insert').length;
+  const removedLines = ops.filter((op) => op.type === 'delete').length;
+  if (addedLines === 0 && removedLines === 0) return { text: '', addedLines, removedLines, hunks: 0 };
+
+  // Group changes that are at most 2 * context unchanged lines apart into one hunk
+  const changed = ops.flatMap((op, index) => (op.type === 'equal' ? [] : [index]));
+  const ranges: Array<[number, number]> = [];
+  for (const index of changed) {
+    const last = ranges[ranges.length - 1];
+    if (last && index - last[1] <= 2 * context + 1) last[1] = index;
+    else ranges.push([index, index]);
+  }
+
+  const lines = [`--- ${fromLabel}`, `+++ ${toLabel}`];
+  // Line numbers (1-based) before each op in the old and new text
+  const oldLine: number[] = [];
+  const newLine: number[] = [];
+  let o = 1;
+  let nw = 1;
+  for (const op of ops) {
+    oldLine.push(o);
+    newLine.push(nw);
+    if (op.type !== 'insert') o++;
+    if (op.type !== 'delete') nw++;
+  }
+  for (const [first, last] of ranges) {
+    const start = Math.max(0, first - context);
+    const end = Math.min(ops.length - 1, last + context);
+    const slice = ops.slice(start, end + 1);
+    const oldCount = slice.filter((op) => op.type !== 'insert').length;
+    const newCount = slice.filter((op) => op.type !== 'delete').length;
+    // Empty ranges point at the line before, as in GNU diff
+    const oldStart = oldCount === 0 ? oldLine[start] - 1 : oldLine[start];
+    const newStart = newCount === 0 ? newLine[start] - 1 : newLine[start];
+    lines.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const op of slice) lines.push(`${op.type === 'equal' ? ' ' : op.type === 'insert' ? '+' : '-'}${op.line}`);
+  }
+  return { text: `${lines.join('\n')}\n`, addedLines, removedLines, hunks: ranges.length };
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return aKeys.length === bKeys.length && aKeys.every((key) => isEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
+
+/**
+ * Top-level keys added, removed or changed between two frontmatter objects
+ */
+export function diffFrontmatter(from: Record<string, unknown> | null | undefined, to: Record<string, unknown> | null | undefined): FrontmatterDiff {
+  const before = from ?? {};
+  const after = to ?? {};
+  const diff: FrontmatterDiff = { added: {}, removed: {}, changed: {} };
+  for (const [key, value] of Object.entries(after)) {
+    if (!(key in before)) diff.added[key] = value;
+    else if (!isEqual(before[key], value)) diff.changed[key] = { from: before[key], to: value };
+  }
+  for (const [key, value] of Object.entries(before)) {
+    if (!(key in after)) diff.removed[key] = value;
+  }
+  return diff;
+}
+
+// ============ Three-Way Merge ============
+
+interface ChangeRegion {
+  side: 'ours' | 'theirs';
+  /** Replaced base lines [baseStart, baseEnd) */
+  baseStart: number;
+  baseEnd: number;
+  lines: string[];
+}
+
+function changeRegions(ops: DiffOp[], side: ChangeRegion['side']): ChangeRegion[] {
+  const regions: ChangeRegion[] = [];
+  let baseIndex = 0;
+  let current: ChangeRegion | null = null;
+  for (const op of ops) {
+    if (op.type === 'equal') {
+      current = null;
+      baseIndex++;
+      continue;
+    }
+    if (!current) {
+      current = { side, baseStart: baseIndex, baseEnd: baseIndex, lines: [] };
+      regions.push(current);
+    }
+    if (op.type === 'delete') {
+      baseIndex++;
+      current.baseEnd = baseIndex;
+    } else {
+      current.lines.push(op.line);
+    }
+  }
+  return regions;
+}
+
+/** One side's lines for base[start, end), applying that side's regions inside the range */
+function sideLines(base: readonly string[], regions: ChangeRegion[], start: number, end: number): string[] {
+  const lines: string[] = [];
+  let cursor = start;
+  for (const region of regions) {
+    lines.push(...base.slice(cursor, region.baseStart), ...region.lines);
+    cursor = region.baseEnd;
+  }
+  lines.push(...base.slice(cursor, end));
+  return lines;
+}
+
+/**
+ * Merge two edits of `base` line by line (diff3). Changes on one side are taken as they are; overlapping or
+ * adjacent changes that differ become conflict blocks with both versions and the base in between.
+ */
+export function mergeLines(base: string, ours: string, theirs: string, labels: MergeLabels): TextMerge {
+  const baseLines = splitLines(base);
+  const regions = [
+    ...changeRegions(diffLines(baseLines, splitLines(ours)), 'ours'),
+    ...changeRegions(diffLines(baseLines, splitLines(theirs)), 'theirs'),
+  ].sort((a, b) => a.baseStart - b.baseStart || a.baseEnd - b.baseEnd);
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let cursor = 0;
+  let index = 0;
+  while (index < regions.length) {
+    const group = [regions[index++]];
+    const start = group[0].baseStart;
+    let end = group[0].baseEnd;
+    while (index < regions.length && regions[index].baseStart <= end) {
+      end = Math.max(end, regions[index].baseEnd);
+      group.push(regions[index++]);
+    }
+    output.push(...baseLines.slice(cursor, start));
+    const ourRegions = group.filter((r) => r.side === 'ours');
+    const theirRegions = group.filter((r) => r.side === 'theirs');
+    const ourLines = sideLines(baseLines, ourRegions, start, end);
+    const theirLines = sideLines(baseLines, theirRegions, start, end);
+    if (theirRegions.length === 0 || ourLines.join('\n') === theirLines.join('\n')) {
+      output.push(...ourLines);
+    } else if (ourRegions.length === 0) {
+      output.push(...theirLines);
+    } else {
+      conflicts++;
+      output.push(
+        `<<<<<<< ${labels.ours}`, ...ourLines,
+        `||||||| ${labels.base}`, ...baseLines.slice(start, end),
+        '=======', ...theirLines,
+        `>>>>>>> ${labels.theirs}`,
+      );
+    }
+    cursor = end;
+  }
+  output.push(...baseLines.slice(cursor));
+  return { text: output.length > 0 ? `${output.join('\n')}\n` : '', conflicts };
+}
+
+/**
+ * Merge scalar values: a change on one side wins; different changes on both sides are a conflict (theirs is kept)
+ */
+export function mergeValue<T>(base: T, ours: T, theirs: T): { value: T; conflict: boolean } {
+  if (isEqual(ours, theirs) || isEqual(ours, base)) return { value: theirs, conflict: false };
+  if (isEqual(theirs, base)) return { value: ours, conflict: false };
+  return { value: theirs, conflict: true };
+}
+
+export function mergeFrontmatter(
+  base: Record<string, unknown> | null | undefined,
+  ours: Record<string, unknown> | null | undefined,
+  theirs: Record<string, unknown> | null | undefined,
+): FrontmatterMerge {
+  const [b, o, t] = [base ?? {}, ours ?? {}, theirs ?? {}];
+  const merged: Record<string, unknown> = {};
+  const conflicts: string[] = [];
+  for (const key of new Set([...Object.keys(b), ...Object.keys(o), ...Object.keys(t)])) {
+    // A missing key is compared as undefined, so deleting a key is a change like any other
+    const { value, conflict } = mergeValue(b[key], o[key], t[key]);
+    if (conflict) conflicts.push(key);
+    if (value !== undefined) merged[key] = value;
+  }
+  return { merged, conflicts };
+}
@@ -0,0 +1,177 @@
+/**
+ * Tool Argument Validation
+ * Builds Zod validators from the JSON Schemas declared in the tool definitions,
+ * and derives matching TypeScript types so handlers receive typed arguments.
+ */
+
+import { z } from 'zod';
+
+import { formatFieldPath, ValidationError } from './errors.js';
+import type { FieldError } from './errors.js';
+
+// ============ Schema Types ============
+
+export interface ToolInputSchema {
+  readonly type?: string | readonly string[];
+  readonly description?: string;
+  readonly enum?: readonly string[];
+  readonly minimum?: number;
+  readonly maximum?: number;
+  readonly items?: ToolInputSchema;
+  readonly properties?: { readonly [key: string]: ToolInputSchema };
+  readonly required?: readonly string[];
+  /** `true` keeps undeclared properties; a schema also validates their values */
+  readonly additionalProperties?: boolean | ToolInputSchema;
+}
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type FromPrimitiveType<T> = T extends 'string' ? string : T extends 'number' ? number : T extends 'boolean' ? boolean : T extends 'null' ? null : unknown;
+
+type FromObjectSchema<P, R> = Simplify<
+  { -readonly [K in keyof P as K extends R ? K : never]: FromJsonSchema<P[K]> } &
+  { -readonly [K in keyof P as K extends R ? never : K]?: FromJsonSchema<P[K]> }
+>;
+
+/**
+ * Static type of a value described by a (const) JSON Schema
+ */
+export type FromJsonSchema<S> =
+  S extends { readonly enum: readonly (infer E)[] } ? E
+    : S extends { readonly type: readonly (infer T)[] } ? FromPrimitiveType<T>
+      : S extends { readonly type: 'string' } ? string
+        : S extends { readonly type: 'number' } ? number
+          : S extends { readonly type: 'boolean' } ? boolean
+            : S extends { readonly type: 'array'; readonly items: infer I } ? FromJsonSchema<I>[]
+              : S extends { readonly type: 'array' } ? unknown[]
+                : S extends { readonly type: 'object'; readonly properties: infer P }
+                  ? FromObjectSchema<P, S extends { readonly required: readonly (infer R)[] } ? R : never>
+                  : S extends { readonly type: 'object'; readonly additionalProperties: infer A extends ToolInputSchema } ? Record<string, FromJsonSchema<A>>
+                    : S extends { readonly type: 'object' } ? Record<string, unknown>
+                    : unknown;
+
+// ============ Errors ============
+
+export type ToolArgumentIssue = FieldError;
+
+export class ToolArgumentsError extends ValidationError {
+  readonly tool: string;
+
+  constructor(tool: string, issues: ToolArgumentIssue[]) {
+    super(`Invalid arguments for ${tool}: ${issues.map((i) => `${i.field} ${i.message}`).join('; ')}`, issues, {
+      code: 'invalid_arguments',
+      hint: 'No request was sent. Fix the listed fields according to the tool\'s input schema and call the tool again.',
+      details: { tool },
+    });
+    this.name = 'ToolArgumentsError';
+    this.tool = tool;
+  }
+}
+
+// ============ Schema Conversion ============
+
+/**
+ * Convert the JSON Schema subset used by the tool definitions into a Zod schema.
+ * Undeclared top-level and nested properties are stripped unless `additionalProperties` is set.
+ */
+export function jsonSchemaToZod(schema: ToolInputSchema): z.ZodType {
+  if (schema.enum) return z.enum(schema.enum as [string, ...string[]]);
+  if (Array.isArray(schema.type)) {
+    const [first, ...rest] = schema.type.map((type) => jsonSchemaToZod({ type }));
+    return rest.length > 0 ? z.union([first, ...rest]) : first;
+  }
+  switch (schema.type as string | undefined) {
+    case 'string': return z.string();
+    case 'number': {
+      let number = z.number();
+      if (schema.minimum !== undefined) number = number.min(schema.minimum);
+      if (schema.maximum !== undefined) number = number.max(schema.maximum);
+      return number;
+    }
+    case 'boolean': return z.boolean();
+    case 'null': return z.null();
+    case 'array': return z.array(schema.items ? jsonSchemaToZod(schema.items) : z.unknown());
+    case 'object': {
+      const additional = typeof schema.additionalProperties === 'object' ? jsonSchemaToZod(schema.additionalProperties) : undefined;
+      if (!schema.properties) return z.record(z.string(), additional ?? z.unknown());
+      const required = new Set(schema.required ?? []);
+      const shape: Record<string, z.ZodType> = {};
+      for (const [key, property] of Object.entries(schema.properties)) {
+        const propertySchema = jsonSchemaToZod(property);
+        shape[key] = required.has(key) ? propertySchema : propertySchema.optional();
+      }
+      const object = z.object(shape);
+      if (additional) return object.catchall(additional);
+      return schema.additionalProperties ? object.loose() : object;
+    }
+    default: return z.unknown();
+  }
+}
+
+function valueAt(input: unknown, path: PropertyKey[]): unknown {
+  let current = input;
+  for (const segment of path) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<PropertyKey, unknown>)[segment];
+  }
+  return current;
+}
+
+function toIssue(issue: z.core.$ZodIssue, input: unknown): ToolArgumentIssue {
+  const field = formatFieldPath(issue.path);
+  switch (issue.code) {
+    case 'invalid_value':
+      return { field, message: `must be one of: ${issue.values.map(String).join(', ')}`, allowedValues: issue.values };
+    case 'invalid_type':
+      if (valueAt(input, issue.path) === undefined) return { field, message: 'is required' };
+      return { field, message: `must be of type ${issue.expected}` };
+    case 'invalid_union':
+      return { field, message: 'does not match any of the allowed types' };
+    case 'too_small':
+      return { field, message: `must be >= ${String(issue.minimum)}` };
+    case 'too_big':
+      return { field, message: `must be <= ${String(issue.maximum)}` };
+    default:
+      return { field, message: issue.message };
+  }
+}
+
+const validatorCache = new WeakMap<ToolInputSchema, z.ZodType>();
+
+/**
+ * Validate tool arguments against the tool's input schema, throwing a ToolArgumentsError that lists every offending field
+ */
+export function validateToolArguments(tool: string, schema: ToolInputSchema, args: unknown): Record<string, unknown> {
+  let validator = validatorCache.get(schema);
+  if (!validator) {
+    validator = jsonSchemaToZod(schema);
+    validatorCache.set(schema, validator);
+  }
+  const input = args ?? {};
+  const result = validator.safeParse(input);
+  if (!result.success) throw new ToolArgumentsError(tool, result.error.issues.map((issue) => toIssue(issue, input)));
+  return result.data as Record<string, unknown>;
+}
+
+export interface ToolDefinitionLike {
+  readonly name: string;
+  readonly inputSchema: ToolInputSchema;
+}
+
+/**
+ * A validated call of one of the tools in `T`: a union discriminated by `name`, with `args` typed from that tool's inputSchema
+ */
+export type ToolCallOf<T extends ToolDefinitionLike> = T extends ToolDefinitionLike ? { name: T['name']; args: FromJsonSchema<T['inputSchema']> } : never;
+
+/**
+ * Build a parser that looks up a tool by name and validates its arguments.
+ * The Zod schemas accept exactly the values FromJsonSchema describes, which is the one place the two are equated.
+ */
+export function createToolCallParser<T extends ToolDefinitionLike>(tools: readonly T[]): (name: string, args: unknown) => ToolCallOf<T> {
+  const schemas = new Map<string, ToolInputSchema>(tools.map((tool) => [tool.name, tool.inputSchema]));
+  return (name, args) => {
+    const schema = schemas.get(name);
+    if (!schema) throw new Error(`Unknown tool: ${name}`);
+    return { name, args: validateToolArguments(name, schema, args) } as ToolCallOf<T>;
+  };
+}
@@ -0,0 +1,195 @@
+/**
+ * Traceability Matrix
+ * Aggregates requirement → acceptance criteria → verification tests → links coverage and flags gaps
+ */
+
+import { unwrapPage } from './api-client.js';
+import type {
+  AcceptanceCriterion,
+  Precondition,
+  Requirement,
+  RequirementLink,
+  RequirementLinkType,
+  ThinkPromptApiClient,
+  VerificationTest,
+} from './api-client.js';
+import { mapWithConcurrency } from './async-utils.js';
+import { listScopedRequirements } from './requirement-spec.js';
+import type { RequirementScope } from './requirement-spec.js';
+
+export type TraceabilityFlag =
+  | 'no_acceptance_criteria'
+  | 'criteria_without_tests'
+  | 'unmet_preconditions'
+  | 'approved_with_unresolved_comments';
+
+export type TraceabilityFormat = 'json' | 'markdown' | 'csv';
+
+export interface TraceabilityRow {
+  requirementId: string;
+  displayId: string;
+  title: string;
+  status: Requirement['status'];
+  acceptanceCriteria: number;
+  verificationTests: number;
+  testTypes: VerificationTest['testType'][];
+  /** Acceptance criteria with the first verification test that mentions them (see CRITERIA_MATCHING) */
+  testedCriteria: { criterion: string; test: string }[];
+  /** Acceptance criteria that no verification test mentions */
+  criteriaWithoutTests: string[];
+  preconditions: { met: number; total: number; unmet: string[] };
+  links: Partial<Record<RequirementLinkType, string[]>>;
+  unresolvedComments: number;
+  flags: TraceabilityFlag[];
+}
+
+export interface TraceabilityMatrix {
+  scope: { projectId?: string; featureId?: string };
+  generatedAt: string;
+  /** How verification tests are matched to acceptance criteria */
+  criteriaMatching: string;
+  summary: { requirements: number; flagged: number } & Record<TraceabilityFlag, number>;
+  rows: TraceabilityRow[];
+}
+
+const FLAGS: readonly TraceabilityFlag[] = ['no_acceptance_criteria', 'criteria_without_tests', 'unmet_preconditions', 'approved_with_unresolved_comments'];
+
+export const CRITERIA_MATCHING = 'Heuristic: the API does not link tests to acceptance criteria, so a criterion counts as tested when a test of the same requirement mentions its ID or scenario name (case-insensitive) in the test name, description, steps or expected result';
+
+/**
+ * The first test that mentions the criterion's ID or scenario name (see CRITERIA_MATCHING)
+ */
+function findCriterionTest(criterion: AcceptanceCriterion, tests: readonly VerificationTest[]): VerificationTest | undefined {
+  const needles = [criterion.id, criterion.scenarioName.trim()].filter(Boolean).map((needle) => needle.toLowerCase());
+  return tests.find((test) => [
+    test.testName,
+    test.description,
+    test.expectedResult,
+    ...(test.steps ?? []).flatMap((step) => [step.action, step.expected]),
+  ].some((text) => needles.some((needle) => text?.toLowerCase().includes(needle))));
+}
+
+export function buildTraceabilityRow(
+  requirement: Requirement,
+  criteria: readonly AcceptanceCriterion[],
+  tests: readonly VerificationTest[],
+  preconditions: readonly Precondition[],
+  links: readonly RequirementLink[],
+): TraceabilityRow {
+  const testedCriteria: TraceabilityRow['testedCriteria'] = [];
+  const criteriaWithoutTests: string[] = [];
+  for (const criterion of criteria) {
+    const test = findCriterionTest(criterion, tests);
+    if (test) testedCriteria.push({ criterion: criterion.scenarioName, test: test.testName });
+    else criteriaWithoutTests.push(criterion.scenarioName);
+  }
+  const unmet = preconditions.filter((p) => !p.isMet).map((p) => p.title);
+  const unresolvedComments = requirement.unresolvedCommentsCount ?? 0;
+  const linksByType: TraceabilityRow['links'] = {};
+  for (const link of links) (linksByType[link.linkType] ??= []).push(link.linkedRequirement?.displayId ?? link.targetRequirementId);
+
+  const flags: TraceabilityFlag[] = [];
+  if (criteria.length === 0) flags.push('no_acceptance_criteria');
+  if (criteriaWithoutTests.length > 0) flags.push('criteria_without_tests');
+  if (unmet.length > 0) flags.push('unmet_preconditions');
+  if (requirement.status === 'approved' && unresolvedComments > 0) flags.push('approved_with_unresolved_comments');
+
+  return {
+    requirementId: requirement.id,
+    displayId: requirement.displayId,
+    title: requirement.title,
+    status: requirement.status,
+    acceptanceCriteria: criteria.length,
+    verificationTests: tests.length,
+    testTypes: [...new Set(tests.map((test) => test.testType))],
+    testedCriteria,
+    criteriaWithoutTests,
+    preconditions: { met: preconditions.length - unmet.length, total: preconditions.length, unmet },
+    links: linksByType,
+    unresolvedComments,
+    flags,
+  };
+}
+
+/**
+ * Fetch the requirements of a project or feature with their criteria, tests, preconditions and links
+ */
+export async function buildTraceabilityMatrix(
+  client: ThinkPromptApiClient,
+  scope: RequirementScope,
+): Promise<TraceabilityMatrix> {
+  const requirements = await listScopedRequirements(client, scope);
+
+  const rows = await mapWithConcurrency(requirements, 5, async (requirement) => {
+    const [criteria, tests, preconditions, links] = await Promise.all([
+      client.listAcceptanceCriteria(requirement.id),
+      client.listVerificationTests(requirement.id),
+      client.listPreconditions(requirement.id),
+      client.listRequirementLinks(requirement.id),
+    ]);
+    return buildTraceabilityRow(requirement, unwrapPage(criteria).data, unwrapPage(tests).data, unwrapPage(preconditions).data, unwrapPage(links).data);
+  });
+
+  const summary = {
+    requirements: rows.length,
+    flagged: rows.filter((row) => row.flags.length > 0).length,
+    ...Object.fromEntries(FLAGS.map((flag) => [flag, rows.filter((row) => row.flags.includes(flag)).length])),
+  } as TraceabilityMatrix['summary'];
+
+  return {
+    scope: { projectId: scope.projectId, featureId: scope.featureId },
+    generatedAt: new Date().toISOString(),
+    criteriaMatching: CRITERIA_MATCHING,
+    summary,
+    rows,
+  };
+}
+
+// ============ Output Formats ============
+
+const COLUMNS = ['Requirement', 'Title', 'Status', 'ACs', 'Tests', 'Test types', 'ACs matched to tests (by name)', 'ACs without tests (by name)', 'Preconditions met', 'Links', 'Unresolved comments', 'Flags'];
+
+function rowCells(row: TraceabilityRow): string[] {
+  return [
+    row.displayId,
+    row.title,
+    row.status,
+    String(row.acceptanceCriteria),
+    String(row.verificationTests),
+    row.testTypes.join(', '),
+    row.testedCriteria.map(({ criterion, test }) => `${criterion} → ${test}`).join('; '),
+    row.criteriaWithoutTests.join('; '),
+    `${row.preconditions.met}/${row.preconditions.total}`,
+    Object.entries(row.links).map(([type, ids]) => `${type}: ${ids.join(', ')}`).join('; '),
+    String(row.unresolvedComments),
+    row.flags.join(', '),
+  ];
+}
+
+function markdownCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ') || '—';
+}
+
+function csvCell(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function traceabilityToMarkdown(matrix: TraceabilityMatrix): string {
+  const { summary } = matrix;
+  return [
+    '# Traceability Matrix',
+    '',
+    `${summary.requirements} requirements, ${summary.flagged} flagged: ${FLAGS.map((flag) => `${flag} ${summary[flag]}`).join(', ')}`,
+    '',
+    `_${matrix.criteriaMatching}._`,
+    '',
+    `| ${COLUMNS.join(' | ')} |`,
+    `|${COLUMNS.map(() => '---').join('|')}|`,
+    ...matrix.rows.map((row) => `| ${rowCells(row).map(markdownCell).join(' | ')} |`),
+    '',
+  ].join('\n');
+}
+
+export function traceabilityToCsv(matrix: TraceabilityMatrix): string {
+  return [COLUMNS, ...matrix.rows.map(rowCells)].map((cells) => cells.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
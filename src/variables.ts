@@ -0,0 +1,188 @@
+/**
+ * Variable Rendering
+ * Helpers for filling {{variable}} placeholders in style guide and template content
+ */
+
+import type { StyleGuideVariable } from './api-client.js';
+
+// A leading backslash escapes a placeholder: `\{{name}}` renders as a literal `{{name}}`
+const PLACEHOLDER_PATTERN = /(\\?)\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * List the distinct placeholder names used in a piece of content, in order of first appearance
+ */
+export function extractPlaceholders(content: string): string[] {
+  const names = new Set<string>();
+  for (const [, escape, name] of content.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!escape) names.add(name);
+  }
+  return [...names];
+}
+
+/**
+ * Replace {{name}} placeholders with the given values. Placeholders without a value are left untouched,
+ * escaped ones lose their backslash.
+ */
+export function renderPlaceholders(content: string, values: Record<string, unknown>): string {
+  return content.replace(PLACEHOLDER_PATTERN, (placeholder, escape: string, name: string) => {
+    if (escape) return placeholder.slice(1);
+    const value = values[name];
+    if (value === undefined || value === null) return placeholder;
+    return String(value);
+  });
+}
+
+/**
+ * Convert a raw (string) argument into the type declared by the variable.
+ * MCP prompt arguments are always strings, so numbers and booleans need coercion.
+ */
+export function coerceVariableValue(variable: StyleGuideVariable, raw: unknown): unknown {
+  if (typeof raw !== 'string') return raw;
+  const trimmed = raw.trim();
+  if (variable.type === 'number' && trimmed !== '' && !Number.isNaN(Number(trimmed))) return Number(trimmed);
+  if (variable.type === 'boolean') {
+    if (trimmed.toLowerCase() === 'true') return true;
+    if (trimmed.toLowerCase() === 'false') return false;
+  }
+  return raw;
+}
+
+/**
+ * Build a human-readable description for a variable, including its type, options and default
+ */
+export function describeVariable(variable: StyleGuideVariable): string {
+  const parts: string[] = [];
+  if (variable.label && variable.label !== variable.name) parts.push(variable.label);
+  if (variable.description) parts.push(variable.description);
+  let typeInfo = `Type: ${variable.type}`;
+  if (variable.type === 'select' && variable.options?.length) typeInfo += ` (one of: ${variable.options.join(', ')})`;
+  parts.push(typeInfo);
+  if (variable.defaultValue !== undefined) parts.push(`Default: ${String(variable.defaultValue)}`);
+  return parts.join('. ');
+}
+
+export interface VariableValidationError {
+  variable: string;
+  rule: 'required' | 'type' | 'options' | 'min' | 'max' | 'pattern';
+  message: string;
+}
+
+export interface RenderResult {
+  text: string;
+  values: Record<string, unknown>;
+  appliedDefaults: string[];
+  errors: VariableValidationError[];
+  unknownVariables: string[];
+  unusedVariables: string[];
+  unresolvedPlaceholders: string[];
+}
+
+/**
+ * Validate a single (already coerced) value against the variable's type, options and validation rules
+ */
+export function validateVariableValue(variable: StyleGuideVariable, value: unknown): VariableValidationError[] {
+  const errors: VariableValidationError[] = [];
+  const fail = (rule: VariableValidationError['rule'], message: string) => errors.push({ variable: variable.name, rule, message });
+
+  switch (variable.type) {
+    case 'number':
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        fail('type', `"${variable.name}" must be a number`);
+        return errors;
+      }
+      break;
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        fail('type', `"${variable.name}" must be true or false`);
+        return errors;
+      }
+      break;
+    case 'date':
+      if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+        fail('type', `"${variable.name}" must be a valid date (e.g. 2024-01-31)`);
+        return errors;
+      }
+      break;
+    case 'select':
+      if (variable.options?.length && !variable.options.includes(String(value))) {
+        fail('options', `"${variable.name}" must be one of: ${variable.options.join(', ')}`);
+        return errors;
+      }
+      break;
+    default:
+      if (typeof value !== 'string') {
+        fail('type', `"${variable.name}" must be a string`);
+        return errors;
+      }
+  }
+
+  const { min, max, pattern } = variable.validation ?? {};
+  // min/max bound the value for numbers and the length for text
+  if (typeof value === 'number') {
+    if (min !== undefined && value < min) fail('min', `"${variable.name}" must be at least ${min}`);
+    if (max !== undefined && value > max) fail('max', `"${variable.name}" must be at most ${max}`);
+  } else if (typeof value === 'string') {
+    if (min !== undefined && value.length < min) fail('min', `"${variable.name}" must be at least ${min} characters long`);
+    if (max !== undefined && value.length > max) fail('max', `"${variable.name}" must be at most ${max} characters long`);
+  }
+  if (pattern && typeof value === 'string') {
+    let regex: RegExp | null = null;
+    try {
+      regex = new RegExp(pattern);
+    } catch {
+      // Ignore invalid patterns stored on the style guide rather than blocking rendering
+    }
+    if (regex && !regex.test(value)) fail('pattern', `"${variable.name}" must match pattern ${pattern}`);
+  }
+  return errors;
+}
+
+/**
+ * Render style guide content: apply defaults, coerce and validate every declared variable,
+ * then fill placeholders. Rendering always happens so callers can inspect a partial result.
+ */
+export function renderStyleGuide(
+  styleGuide: { content: string; variables?: StyleGuideVariable[] | null },
+  input: Record<string, unknown>,
+): RenderResult {
+  const variables = styleGuide.variables ?? [];
+  const placeholders = extractPlaceholders(styleGuide.content);
+  const declared = new Set(variables.map((v) => v.name));
+  const values: Record<string, unknown> = {};
+  const appliedDefaults: string[] = [];
+  const errors: VariableValidationError[] = [];
+
+  for (const variable of variables) {
+    const raw = input[variable.name];
+    if (raw === undefined || raw === null || raw === '') {
+      if (variable.defaultValue !== undefined) {
+        values[variable.name] = variable.defaultValue;
+        appliedDefaults.push(variable.name);
+      } else if (variable.required) {
+        errors.push({ variable: variable.name, rule: 'required', message: `"${variable.name}" is required` });
+      }
+      continue;
+    }
+    const value = coerceVariableValue(variable, raw);
+    errors.push(...validateVariableValue(variable, value));
+    values[variable.name] = value;
+  }
+
+  // Undeclared values still fill matching placeholders; anything else is reported as unknown
+  const unknownVariables: string[] = [];
+  for (const [name, value] of Object.entries(input)) {
+    if (declared.has(name)) continue;
+    if (placeholders.includes(name)) values[name] = value;
+    else unknownVariables.push(name);
+  }
+
+  return {
+    text: renderPlaceholders(styleGuide.content, values),
+    values,
+    appliedDefaults,
+    errors,
+    unknownVariables,
+    unusedVariables: variables.filter((v) => !placeholders.includes(v.name)).map((v) => v.name),
+    unresolvedPlaceholders: placeholders.filter((name) => values[name] === undefined || values[name] === null),
+  };
+}
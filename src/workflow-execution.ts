@@ -0,0 +1,77 @@
+/**
+ * Workflow Execution Polling
+ * Waits for a server-side workflow execution to reach a terminal status
+ */
+
+import type {
+  ThinkPromptApiClient,
+  WorkflowExecution,
+  WorkflowExecutionStatus,
+  WorkflowExecutionStep,
+} from './api-client.js';
+import { delay } from './async-utils.js';
+
+export const TERMINAL_EXECUTION_STATUSES: readonly WorkflowExecutionStatus[] = ['completed', 'failed', 'cancelled'];
+
+/** Bounds for the polling options; the execution endpoint is not cached, so it must not be polled in a tight loop */
+export const MIN_POLL_INTERVAL_MS = 500;
+export const MAX_POLL_INTERVAL_MS = 60_000;
+export const MAX_EXECUTION_TIMEOUT_MS = 3_600_000;
+
+export interface WaitForExecutionOptions {
+  /** Clamped to MIN_POLL_INTERVAL_MS..MAX_POLL_INTERVAL_MS (default: 2000) */
+  pollIntervalMs?: number;
+  /** Clamped to 0..MAX_EXECUTION_TIMEOUT_MS (default: 300000) */
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  /** Called once for every step whose status changed since the previous poll */
+  onStepUpdate?: (step: WorkflowExecutionStep, execution: WorkflowExecution) => void | Promise<void>;
+}
+
+export interface WaitForExecutionResult {
+  execution: WorkflowExecution;
+  timedOut: boolean;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : max;
+}
+
+export function isTerminalExecutionStatus(status: WorkflowExecutionStatus): boolean {
+  return TERMINAL_EXECUTION_STATUSES.includes(status);
+}
+
+/**
+ * Poll an execution until it completes, fails or is cancelled.
+ * Returns the last known state with `timedOut: true` if the timeout elapses first.
+ */
+export async function waitForWorkflowExecution(
+  client: ThinkPromptApiClient,
+  initial: WorkflowExecution,
+  options: WaitForExecutionOptions = {},
+): Promise<WaitForExecutionResult> {
+  const { signal, onStepUpdate } = options;
+  const pollIntervalMs = clamp(options.pollIntervalMs ?? 2000, MIN_POLL_INTERVAL_MS, MAX_POLL_INTERVAL_MS);
+  const timeoutMs = clamp(options.timeoutMs ?? 300_000, 0, MAX_EXECUTION_TIMEOUT_MS);
+  const deadline = Date.now() + timeoutMs;
+  const seen = new Map<string, string>();
+  let execution = initial;
+
+  const reportSteps = async () => {
+    if (!onStepUpdate) return;
+    for (const step of [...(execution.steps ?? [])].sort((a, b) => a.stepNumber - b.stepNumber)) {
+      if (seen.get(step.id) === step.status) continue;
+      seen.set(step.id, step.status);
+      await onStepUpdate(step, execution);
+    }
+  };
+
+  await reportSteps();
+  while (!isTerminalExecutionStatus(execution.status)) {
+    if (Date.now() >= deadline) return { execution, timedOut: true };
+    await delay(Math.min(pollIntervalMs, Math.max(0, deadline - Date.now())), signal);
+    execution = await client.getWorkflowExecution(execution.id);
+    await reportSteps();
+  }
+  return { execution, timedOut: false };
+}
@@ -0,0 +1,310 @@
+/**
+ * Local Workflow Runner
+ * Client-side interpreter for workflow steps, producing a trace shaped like a server execution.
+ * Steps that need the MCP host (prompt execution, AI conditions, task updates) are returned as instructions.
+ */
+
+import { randomUUID } from 'node:crypto';
+
+import type {
+  ThinkPromptApiClient,
+  Workflow,
+  WorkflowExecutionStatus,
+  WorkflowExecutionStep,
+  WorkflowResourceType,
+  WorkflowStep,
+  WorkflowStepStatus,
+} from './api-client.js';
+import { renderPlaceholders, renderStyleGuide } from './variables.js';
+
+export interface LocalTaskInput {
+  projectId?: string;
+  featureId?: string;
+  title: string;
+  description?: string;
+}
+
+/** The subset of the API the runner needs — pass a mock to run workflows offline */
+export type WorkflowRunnerApi = Pick<ThinkPromptApiClient, 'getStyleGuide' | 'getTemplate'> & {
+  createTask?: (input: LocalTaskInput) => Promise<unknown>;
+};
+
+export interface HostInstruction {
+  stepNumber: number;
+  stepTitle: string;
+  kind: 'execute_prompt' | 'evaluate_condition' | 'create_task' | 'update_task_status' | 'generate_tasks' | 'custom';
+  instructions: string;
+  prompt?: string;
+  condition?: string;
+  payload?: Record<string, unknown>;
+}
+
+export interface LocalWorkflowRun {
+  workflowId: string;
+  workflowTitle: string;
+  status: WorkflowExecutionStatus;
+  inputVariables: Record<string, unknown>;
+  steps: WorkflowExecutionStep[];
+  hostInstructions: HostInstruction[];
+  errorMessage: string | null;
+  startedAt: string;
+  completedAt: string;
+}
+
+export interface RunWorkflowOptions {
+  variables?: Record<string, unknown>;
+}
+
+interface StepOutcome {
+  status: WorkflowStepStatus;
+  output: unknown;
+  instruction?: Omit<HostInstruction, 'stepNumber' | 'stepTitle'>;
+}
+
+class StepTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Step timed out after ${timeoutMs}ms`);
+    this.name = 'StepTimeoutError';
+  }
+}
+
+// ============ Simple Conditions ============
+
+function lookupPath(context: Record<string, unknown>, path: string): unknown {
+  let current: unknown = context;
+  for (const segment of path.split('.')) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+function resolveOperand(token: string, context: Record<string, unknown>): unknown {
+  const trimmed = token.trim();
+  const placeholder = trimmed.match(/^\{\{\s*([\w.-]+)\s*\}\}$/);
+  if (placeholder) return lookupPath(context, placeholder[1]);
+  const quoted = trimmed.match(/^(['"])(.*)\1$/);
+  if (quoted) return quoted[2];
+  if (trimmed === 'true') return true;
+  if (trimmed === 'false') return false;
+  if (trimmed === 'null') return null;
+  if (trimmed !== '' && !Number.isNaN(Number(trimmed))) return Number(trimmed);
+  if (/^[\w.-]+$/.test(trimmed)) return lookupPath(context, trimmed);
+  throw new Error(`Cannot parse condition operand: ${trimmed}`);
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return Boolean(value);
+}
+
+function compare(left: unknown, operator: string, right: unknown): boolean {
+  const bothNumeric = left !== null && right !== null && left !== '' && right !== ''
+    && !Number.isNaN(Number(left)) && !Number.isNaN(Number(right));
+  switch (operator) {
+    case '==': return bothNumeric ? Number(left) === Number(right) : String(left) === String(right);
+    case '!=': return bothNumeric ? Number(left) !== Number(right) : String(left) !== String(right);
+    case '>': return Number(left) > Number(right);
+    case '>=': return Number(left) >= Number(right);
+    case '<': return Number(left) < Number(right);
+    case '<=': return Number(left) <= Number(right);
+    case 'contains':
+      if (Array.isArray(left)) return left.map(String).includes(String(right));
+      return String(left ?? '').includes(String(right));
+    default: throw new Error(`Unsupported operator: ${operator}`);
+  }
+}
+
+/**
+ * Evaluate a `simple` step condition, e.g. `{{env}} == 'prod' && retries < 3` or `!skipTests`.
+ * Operands are literals or variable paths (`steps.2.status` refers to an earlier step).
+ */
+export function evaluateSimpleCondition(expression: string, context: Record<string, unknown>): boolean {
+  if (!expression.trim()) throw new Error('Empty condition');
+  return expression.split('||').some((disjunct) => disjunct.split('&&').every((clause) => {
+    const trimmed = clause.trim();
+    const comparison = trimmed.match(/^(.+?)\s*(==|!=|>=|<=|>|<|\scontains\s)\s*(.+)$/);
+    if (comparison) {
+      return compare(resolveOperand(comparison[1], context), comparison[2].trim(), resolveOperand(comparison[3], context));
+    }
+    if (trimmed.startsWith('!')) return !isTruthy(resolveOperand(trimmed.slice(1), context));
+    return isTruthy(resolveOperand(trimmed, context));
+  }));
+}
+
+// ============ Step Execution ============
+
+function resolveResourceId(workflow: Workflow, resourceType: WorkflowResourceType, id?: string, alias?: string): string | undefined {
+  if (id) return id;
+  if (!alias) return undefined;
+  const resource = workflow.resources.find((r) => r.alias === alias && r.resourceType === resourceType);
+  if (!resource) throw new Error(`Unknown ${resourceType} alias "${alias}"`);
+  return resource.resourceId;
+}
+
+function renderValues(values: Record<string, unknown> | undefined, context: Record<string, unknown>): Record<string, unknown> {
+  const rendered: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(values ?? {})) {
+    rendered[key] = typeof value === 'string' ? renderPlaceholders(value, context) : value;
+  }
+  return rendered;
+}
+
+async function executeStep(
+  workflow: Workflow,
+  step: WorkflowStep,
+  api: WorkflowRunnerApi,
+  variables: Record<string, unknown>,
+): Promise<StepOutcome> {
+  const config = step.actionConfig ?? {};
+  const instructions = config.instructions ? renderPlaceholders(config.instructions, variables) : undefined;
+
+  switch (step.actionType) {
+    case 'execute_prompt': {
+      const promptId = resolveResourceId(workflow, 'prompt', config.promptId, config.promptAlias);
+      if (!promptId) throw new Error('execute_prompt requires promptId or promptAlias');
+      const styleGuide = await api.getStyleGuide(promptId);
+      const { text, errors } = renderStyleGuide(styleGuide, variables);
+      if (errors.length > 0) throw new Error(errors.map((e) => e.message).join('; '));
+      return {
+        status: 'pending',
+        output: { promptId, title: styleGuide.title, text },
+        instruction: { kind: 'execute_prompt', instructions: instructions ?? `Execute the prompt "${styleGuide.title}"`, prompt: text },
+      };
+    }
+    case 'load_template': {
+      const templateId = resolveResourceId(workflow, 'template', config.templateId, config.templateAlias);
+      if (!templateId) throw new Error('load_template requires templateId or templateAlias');
+      const template = await api.getTemplate(templateId);
+      return { status: 'completed', output: { templateId, title: template.title, content: renderPlaceholders(template.content, variables) } };
+    }
+    case 'create_task': {
+      const input: LocalTaskInput = {
+        projectId: resolveResourceId(workflow, 'project', config.projectId),
+        featureId: resolveResourceId(workflow, 'feature', config.featureId, config.featureAlias),
+        title: renderPlaceholders(config.title ?? step.title, variables),
+        description: config.description ? renderPlaceholders(config.description, variables) : undefined,
+      };
+      if (api.createTask) return { status: 'completed', output: await api.createTask(input) };
+      return {
+        status: 'pending',
+        output: input,
+        instruction: { kind: 'create_task', instructions: instructions ?? `Create the task "${input.title}"`, payload: { ...input } },
+      };
+    }
+    case 'update_task_status': {
+      const taskId = resolveResourceId(workflow, 'task', config.taskId, config.taskAlias);
+      const payload = { taskId, status: config.status };
+      return {
+        status: 'pending',
+        output: payload,
+        instruction: { kind: 'update_task_status', instructions: instructions ?? `Set task ${taskId ?? '(unresolved)'} to status "${config.status ?? ''}"`, payload },
+      };
+    }
+    case 'generate_tasks':
+    case 'custom':
+    default:
+      return {
+        status: 'pending',
+        output: null,
+        instruction: { kind: step.actionType === 'generate_tasks' ? 'generate_tasks' : 'custom', instructions: instructions ?? step.description ?? step.title, payload: { ...config } },
+      };
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number | null): Promise<T> {
+  if (!timeoutMs || timeoutMs <= 0) return promise;
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new StepTimeoutError(timeoutMs)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Walk the workflow's steps in stepNumber order, honouring conditions, onError and timeoutMs
+ */
+export async function runWorkflowLocally(
+  workflow: Workflow,
+  api: WorkflowRunnerApi,
+  options: RunWorkflowOptions = {},
+): Promise<LocalWorkflowRun> {
+  const inputVariables = options.variables ?? {};
+  const stepResults: Record<string, { status: WorkflowStepStatus; output: unknown }> = {};
+  const trace: WorkflowExecutionStep[] = [];
+  const hostInstructions: HostInstruction[] = [];
+  const startedAt = new Date().toISOString();
+  let status: WorkflowExecutionStatus = 'completed';
+  let errorMessage: string | null = null;
+
+  const steps = [...workflow.steps].sort((a, b) => a.stepNumber - b.stepNumber);
+  for (const step of steps) {
+    const stepStartedAt = Date.now();
+    const context: Record<string, unknown> = { ...inputVariables, steps: stepResults };
+    const variables = { ...inputVariables, ...renderValues(step.actionConfig?.variables, context) };
+    const entry: WorkflowExecutionStep = {
+      id: randomUUID(),
+      stepId: step.id,
+      stepNumber: step.stepNumber,
+      stepTitle: step.title,
+      status: 'running',
+      inputSnapshot: { actionType: step.actionType, actionConfig: step.actionConfig, variables },
+      outputResult: null,
+      errorMessage: null,
+      conditionResult: null,
+      startedAt: new Date(stepStartedAt).toISOString(),
+      completedAt: null,
+      durationMs: null,
+    };
+    trace.push(entry);
+
+    try {
+      if (step.condition && step.conditionType === 'ai') {
+        entry.status = 'pending';
+        hostInstructions.push({
+          stepNumber: step.stepNumber,
+          stepTitle: step.title,
+          kind: 'evaluate_condition',
+          instructions: `Decide whether step ${step.stepNumber} "${step.title}" should run, then perform it if so`,
+          condition: step.condition,
+        });
+      } else {
+        if (step.condition && step.conditionType === 'simple') entry.conditionResult = evaluateSimpleCondition(step.condition, context);
+        if (entry.conditionResult === false) {
+          entry.status = 'skipped';
+        } else {
+          const outcome = await withTimeout(executeStep(workflow, step, api, variables), step.timeoutMs);
+          entry.status = outcome.status;
+          entry.outputResult = outcome.output;
+          if (outcome.instruction) hostInstructions.push({ stepNumber: step.stepNumber, stepTitle: step.title, ...outcome.instruction });
+        }
+      }
+    } catch (error) {
+      entry.errorMessage = error instanceof Error ? error.message : String(error);
+      entry.status = step.onError === 'skip' ? 'skipped' : 'failed';
+    }
+
+    entry.completedAt = new Date().toISOString();
+    entry.durationMs = Date.now() - stepStartedAt;
+    stepResults[String(step.stepNumber)] = { status: entry.status, output: entry.outputResult };
+
+    if (entry.status === 'failed' && (step.onError ?? 'fail') === 'fail') {
+      status = 'failed';
+      errorMessage = `Step ${step.stepNumber} "${step.title}" failed: ${entry.errorMessage}`;
+      break;
+    }
+    if (entry.status === 'pending') status = 'pending';
+  }
+
+  return {
+    workflowId: workflow.id,
+    workflowTitle: workflow.title,
+    status,
+    inputVariables,
+    steps: trace,
+    hostInstructions,
+    errorMessage,
+    startedAt,
+    completedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,123 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { TestContext } from 'node:test';
+
+import { ThinkPromptApiClient } from '../src/api-client.js';
+import type { ApiClientOptions } from '../src/api-client.js';
+import { NetworkError, RateLimitError, ServerError, TimeoutError } from '../src/errors.js';
+
+type FetchHandler = (url: string, init: RequestInit) => Response | Promise<Response>;
+
+/** Replace fetch with `handlers`, one per call (the last one repeats), and record the requests */
+function mockFetch(t: TestContext, ...handlers: FetchHandler[]): Array<{ url: string; init: RequestInit }> {
+  const calls: Array<{ url: string; init: RequestInit }> = [];
+  t.mock.method(globalThis, 'fetch', async (url: string, init: RequestInit) => {
+    calls.push({ url, init });
+    return handlers[Math.min(calls.length - 1, handlers.length - 1)](url, init);
+  });
+  return calls;
+}
+
+/** Record the delays the client waits for between attempts and skip them */
+function recordDelays(t: TestContext): number[] {
+  const delays: number[] = [];
+  const realSetTimeout = globalThis.setTimeout;
+  t.mock.method(globalThis, 'setTimeout', (callback: () => void, ms: number) => {
+    delays.push(ms);
+    return realSetTimeout(callback, 0);
+  });
+  return delays;
+}
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}) => () => new Response(JSON.stringify(body), { status, headers });
+const document = { id: 'doc-1', title: 'Spec' };
+
+// timeoutMs: 0 keeps the per-attempt timer out of the recorded delays
+function createClient(options: ApiClientOptions = {}): ThinkPromptApiClient {
+  return new ThinkPromptApiClient('https://api.example.com/', 'key', { timeoutMs: 0, cache: { ttlMs: 0 }, ...options });
+}
+
+describe('ThinkPromptApiClient retries', () => {
+  it('retries GET requests on retryable statuses with capped exponential backoff', async (t) => {
+    const delays = recordDelays(t);
+    const calls = mockFetch(t, json(503, {}), json(502, {}), json(200, document));
+    const client = createClient({ retry: { baseDelayMs: 100, maxDelayMs: 150 } });
+    assert.deepEqual(await client.getDocument('doc-1'), document);
+    assert.equal(calls.length, 3);
+    assert.equal(calls[0].url, 'https://api.example.com/documents/doc-1');
+    assert.equal(delays.length, 2);
+    assert.ok(delays[0] <= 100 && delays[1] <= 150, `delays ${delays}`);
+  });
+
+  it('waits for Retry-After, capped at maxDelayMs', async (t) => {
+    const delays = recordDelays(t);
+    mockFetch(t, json(429, {}, { 'retry-after': '2' }), json(429, {}, { 'retry-after': '60' }), json(200, document));
+    await createClient({ retry: { maxDelayMs: 5000 } }).getDocument('doc-1');
+    assert.deepEqual(delays, [2000, 5000]);
+  });
+
+  it('gives up after maxRetries and throws the typed API error', async (t) => {
+    recordDelays(t);
+    const calls = mockFetch(t, json(429, { message: 'Slow down' }, { 'retry-after': '1' }));
+    await assert.rejects(createClient({ retry: { maxRetries: 2 } }).getDocument('doc-1'), (error) => {
+      assert.ok(error instanceof RateLimitError);
+      assert.equal(error.retryAfterMs, 1000);
+      return true;
+    });
+    assert.equal(calls.length, 3);
+  });
+
+  it('does not retry POST requests unless they carry an idempotency key', async (t) => {
+    recordDelays(t);
+    const calls = mockFetch(t, json(503, {}), json(503, {}), json(200, { id: 'exec-1' }));
+    const client = createClient();
+    await assert.rejects(client.createDocument({ title: 'Spec' }), ServerError);
+    assert.equal(calls.length, 1);
+
+    await client.executeWorkflow('wf', {}, { idempotencyKey: 'run-1' });
+    assert.equal(calls.length, 3);
+    assert.equal((calls[2].init.headers as Record<string, string>)['Idempotency-Key'], 'run-1');
+  });
+
+  it('does not retry client errors', async (t) => {
+    const calls = mockFetch(t, json(400, { message: ['title must not be empty'] }));
+    await assert.rejects(createClient().createDocument({ title: '' }), /title must not be empty/);
+    assert.equal(calls.length, 1);
+  });
+
+  it('retries network failures and reports the last one as a NetworkError', async (t) => {
+    recordDelays(t);
+    const calls = mockFetch(t, () => { throw new TypeError('fetch failed'); });
+    await assert.rejects(createClient({ retry: { maxRetries: 1 } }).getDocument('doc-1'), (error) => {
+      assert.ok(error instanceof NetworkError && !(error instanceof TimeoutError));
+      assert.match(error.message, /fetch failed/);
+      return true;
+    });
+    assert.equal(calls.length, 2);
+  });
+});
+
+describe('ThinkPromptApiClient timeouts', () => {
+  it('aborts an attempt that exceeds timeoutMs', async (t) => {
+    mockFetch(t, (_url, init) => new Promise((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+    }));
+    await assert.rejects(createClient({ timeoutMs: 20, retry: { maxRetries: 0 } }).getDocument('doc-1'), (error) => {
+      assert.ok(error instanceof TimeoutError);
+      assert.equal(error.message, 'API request timed out after 20ms');
+      return true;
+    });
+  });
+
+  it('stops retrying when the caller aborts', async (t) => {
+    recordDelays(t);
+    const controller = new AbortController();
+    const calls = mockFetch(t, () => {
+      controller.abort(new Error('cancelled'));
+      return json(503, {})();
+    });
+    const client = createClient();
+    await assert.rejects(client.withAbortSignal(controller.signal, () => client.getDocument('doc-1')), /cancelled/);
+    assert.equal(calls.length, 1);
+  });
+});
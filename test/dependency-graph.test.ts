@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { Requirement, RequirementLink, RequirementLinkType } from '../src/api-client.js';
+import { analyzeDependencyGraph, dependencyGraphToDot, dependencyGraphToMermaid } from '../src/dependency-graph.js';
+
+function requirement(id: string, displayId: string): Requirement {
+  return { id, displayId, title: `Title of ${displayId}`, status: 'draft', projectId: 'p-1' } as Requirement;
+}
+
+function link(source: string, linkType: RequirementLinkType, target: string, linked?: Requirement): RequirementLink {
+  return {
+    id: `${source}-${linkType}-${target}`,
+    sourceRequirementId: source,
+    targetRequirementId: target,
+    linkType,
+    description: null,
+    createdBy: null,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    linkedRequirement: linked ? { id: linked.id, displayId: linked.displayId, title: linked.title, status: linked.status, qualityScore: { overall: null } } : undefined,
+  } as RequirementLink;
+}
+
+const requirements = [requirement('a', 'REQ-1'), requirement('b', 'REQ-2'), requirement('c', 'REQ-3')];
+
+describe('analyzeDependencyGraph', () => {
+  it('orders dependencies in waves', () => {
+    const graph = analyzeDependencyGraph(requirements, [link('a', 'depends_on', 'b'), link('b', 'blocks', 'c')]);
+    assert.deepEqual(graph.implementationOrder, [['REQ-2'], ['REQ-1', 'REQ-3']]);
+    assert.deepEqual(graph.cycles, []);
+  });
+
+  it('reports dependency cycles and leaves them unordered', () => {
+    const graph = analyzeDependencyGraph(requirements, [link('a', 'depends_on', 'b'), link('b', 'depends_on', 'a')]);
+    assert.deepEqual(graph.cycles, [['REQ-1', 'REQ-2']]);
+    assert.deepEqual(graph.unordered, ['REQ-1', 'REQ-2']);
+    assert.deepEqual(graph.implementationOrder, [['REQ-3']]);
+  });
+
+  it('reports parent links without a reciprocal child link', () => {
+    const graph = analyzeDependencyGraph(requirements, [link('a', 'parent', 'b')]);
+    assert.deepEqual(graph.hierarchyIssues.map((issue) => issue.kind), ['missing_reciprocal']);
+  });
+
+  it('adds external nodes for links from and to other projects', () => {
+    const outside = requirement('x', 'OTHER-1');
+    const graph = analyzeDependencyGraph(requirements, [
+      link('x', 'depends_on', 'a', outside),
+      link('b', 'related', 'y'),
+    ]);
+    const external = graph.nodes.filter((node) => node.external);
+    assert.deepEqual(external.map((node) => [node.id, node.displayId]), [['x', 'OTHER-1'], ['y', 'y']]);
+
+    const mermaid = dependencyGraphToMermaid(graph);
+    assert.doesNotMatch(mermaid, /undefined/);
+    assert.equal(mermaid.match(/-->\|depends_on\|/g)?.length, 1);
+    const dot = dependencyGraphToDot(graph);
+    assert.match(dot, /"x" -> "a" \[label="depends_on"\]/);
+    assert.match(dot, /"b" -> "y" \[label="related"/);
+  });
+});
@@ -0,0 +1,113 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { TestContext } from 'node:test';
+
+import { ThinkPromptApiClient } from '../src/api-client.js';
+import type { Document, DocumentVersion } from '../src/api-client.js';
+import { assertDocumentVersion, diffDocumentVersions, mergeDocumentUpdate } from '../src/document-diff.js';
+import { ConflictError, NotFoundError, ValidationError } from '../src/errors.js';
+
+/** A client whose API methods are replaced by `methods`; pagination and cache helpers stay real */
+function fakeClient(t: TestContext, methods: Partial<Record<keyof ThinkPromptApiClient, (...args: never[]) => unknown>>): ThinkPromptApiClient {
+  const client = new ThinkPromptApiClient('https://api.example.com', 'key');
+  for (const [name, implementation] of Object.entries(methods)) {
+    t.mock.method(client, name as keyof ThinkPromptApiClient, implementation);
+  }
+  return client;
+}
+
+function version(n: number, content: string, frontmatter: Record<string, unknown> = {}, title = 'Spec'): DocumentVersion {
+  return { id: `v-${n}`, documentId: 'd-1', version: n, title, content, frontmatter, changeSummary: `change ${n}`, createdBy: null, createdAt: `2026-01-0${n}T00:00:00.000Z` };
+}
+
+function current(n: number, content: string, frontmatter: Record<string, unknown> = {}, title = 'Spec'): Document {
+  return { id: 'd-1', version: n, title, content, frontmatter, updatedAt: '2026-02-01T00:00:00.000Z', updatedBy: 'someone' } as Document;
+}
+
+const base = version(1, 'one\ntwo\nthree\nfour\nfive\n', { status: 'draft', owner: 'a' });
+
+describe('mergeDocumentUpdate', () => {
+  it('merges changes to different lines and frontmatter keys cleanly', () => {
+    const merge = mergeDocumentUpdate(
+      base,
+      current(2, 'one\ntwo\nthree\nfour\nFIVE\n', { status: 'draft', owner: 'b' }),
+      { content: 'ONE\ntwo\nthree\nfour\nfive\n', frontmatter: { status: 'final', owner: 'a' } },
+    );
+    assert.equal(merge.clean, true);
+    assert.equal(merge.content, 'ONE\ntwo\nthree\nfour\nFIVE\n');
+    assert.deepEqual(merge.frontmatter, { status: 'final', owner: 'b' });
+  });
+
+  it('reports overlapping changes as conflicts', () => {
+    const merge = mergeDocumentUpdate(
+      base,
+      current(2, 'one\nzwei\nthree\nfour\nfive\n', { status: 'review', owner: 'a' }, 'Theirs'),
+      { title: 'Ours', content: 'one\ndeux\nthree\nfour\nfive\n', frontmatter: { status: 'final', owner: 'a' } },
+    );
+    assert.equal(merge.clean, false);
+    assert.deepEqual(merge.conflicts, { title: true, contentRegions: 1, frontmatterKeys: ['status'] });
+    assert.match(merge.content, /<<<<<<< update\ndeux\n[\s\S]*=======\nzwei\n>>>>>>> current \(v2\)/);
+  });
+
+  it('keeps unchanged fields of a partial update', () => {
+    const merge = mergeDocumentUpdate(base, current(2, base.content, { status: 'review', owner: 'a' }, 'Renamed'), { content: 'one\n' });
+    assert.equal(merge.clean, true);
+    assert.equal(merge.title, 'Renamed');
+    assert.equal(merge.content, 'one\n');
+    assert.deepEqual(merge.frontmatter, { status: 'review', owner: 'a' });
+  });
+});
+
+describe('assertDocumentVersion', () => {
+  it('passes when the document is still at the expected version', async (t) => {
+    const client = fakeClient(t, { getDocument: async () => current(3, 'x') });
+    await assertDocumentVersion(client, 'd-1', 3, { content: 'y' });
+  });
+
+  it('throws a ConflictError with a merge attempt against the expected version', async (t) => {
+    const client = fakeClient(t, {
+      getDocument: async () => current(2, 'one\ntwo\nthree\nfour\nFIVE\n', base.frontmatter),
+      getDocumentVersion: async () => base,
+    });
+    await assert.rejects(assertDocumentVersion(client, 'd-1', 1, { content: 'ONE\ntwo\nthree\nfour\nfive\n' }), (error: ConflictError) => {
+      assert.ok(error instanceof ConflictError);
+      assert.equal(error.details?.currentVersion, 2);
+      assert.equal((error.details?.merge as { clean: boolean }).clean, true);
+      assert.match(error.hint!, /do not overlap.*expectedVersion 2/);
+      return true;
+    });
+  });
+
+  it('skips the merge when the expected version does not exist', async (t) => {
+    const client = fakeClient(t, {
+      getDocument: async () => current(2, 'x'),
+      getDocumentVersion: async () => { throw new NotFoundError('no such version'); },
+    });
+    await assert.rejects(assertDocumentVersion(client, 'd-1', 7, {}), (error: ConflictError) => {
+      assert.equal(error.details?.merge, null);
+      assert.match(error.hint!, /Version 7 does not exist/);
+      return true;
+    });
+  });
+});
+
+describe('diffDocumentVersions', () => {
+  const versions = [base, version(2, 'one\ntwo\nthree\nfour\nfive\nsix\n', { status: 'final', owner: 'a' }), version(3, 'one\n', {}, 'Spec v3')];
+
+  it('diffs a stored version against the current document', async (t) => {
+    const client = fakeClient(t, { getDocumentVersions: async () => versions, getDocument: async () => current(3, 'one\n', {}, 'Spec v3') });
+    const diff = await diffDocumentVersions(client, 'd-1', 1);
+    assert.equal(diff.to.current, true);
+    assert.deepEqual(diff.summary, { addedLines: 0, removedLines: 4, hunks: 1, frontmatterKeysChanged: 2, titleChanged: true });
+    assert.deepEqual(diff.changeSummaries.map((c) => c.version), [2, 3]);
+    assert.match(diff.diff, /^--- Spec \(v1\)\n\+\+\+ Spec v3 \(current, v3\)/);
+  });
+
+  it('lists the stored versions when one does not exist', async (t) => {
+    const client = fakeClient(t, { getDocumentVersions: async () => versions });
+    await assert.rejects(diffDocumentVersions(client, 'd-1', 1, 9), (error: ValidationError) => {
+      assert.deepEqual(error.fieldErrors, [{ field: 'toVersion', message: 'is not a stored version', allowedValues: [1, 2, 3] }]);
+      return true;
+    });
+  });
+});
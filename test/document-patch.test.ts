@@ -0,0 +1,148 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { ThinkPromptApiClient } from '../src/api-client.js';
+import { applyDocumentPatch, findSection, parseSections, patchDocument } from '../src/document-patch.js';
+import type { PatchOperation } from '../src/document-patch.js';
+import { ConflictError, ValidationError } from '../src/errors.js';
+import { splitLines } from '../src/text-diff.js';
+
+const DOCUMENT = [
+  '# Spec',
+  '',
+  'Intro',
+  '',
+  '## API',
+  '',
+  'Overview',
+  '',
+  '### Auth',
+  '',
+  'Tokens expire after 1 hour.',
+  '',
+  '```md',
+  '## Not a heading',
+  '```',
+  '',
+  '## Errors',
+  '',
+  'None yet.',
+  '',
+].join('\n');
+
+function apply(...operations: PatchOperation[]): string {
+  return applyDocumentPatch(DOCUMENT, {}, { operations }).content;
+}
+
+describe('parseSections', () => {
+  it('builds heading paths and skips headings in fenced code', () => {
+    const sections = parseSections(splitLines(DOCUMENT));
+    assert.deepEqual(sections.map((s) => [s.path, s.line, s.end]), [
+      ['# Spec', 0, 19],
+      ['# Spec > ## API', 4, 16],
+      ['# Spec > ## API > ### Auth', 8, 16],
+      ['# Spec > ## Errors', 16, 19],
+    ]);
+  });
+});
+
+describe('findSection', () => {
+  const sections = parseSections(splitLines(DOCUMENT));
+
+  it('matches partial paths, optional # prefixes and any case', () => {
+    assert.equal(findSection(sections, 'api > auth', 'section').title, 'Auth');
+    assert.equal(findSection(sections, '## API > ### Auth', 'section').title, 'Auth');
+  });
+
+  it('rejects unknown headings and wrong levels', () => {
+    assert.throws(() => findSection(sections, 'Missing', 'section'), ValidationError);
+    assert.throws(() => findSection(sections, '### API', 'section'), /not found/);
+  });
+});
+
+describe('applyDocumentPatch', () => {
+  it('replaces a section including its subsections', () => {
+    const content = apply({ type: 'replace_section', section: 'API', content: 'Moved to the API reference.' });
+    assert.equal(content, '# Spec\n\nIntro\n\n## API\n\nMoved to the API reference.\n\n## Errors\n\nNone yet.\n');
+  });
+
+  it('keeps headings apart when a section is emptied', () => {
+    assert.match(apply({ type: 'replace_section', section: 'Auth', content: '' }), /### Auth\n\n## Errors/);
+  });
+
+  it('appends after subsections and inserts below the heading', () => {
+    assert.match(apply({ type: 'append_to_section', section: 'API', content: 'Rate limits apply.' }), /```\n\nRate limits apply.\n\n## Errors/);
+    assert.match(apply({ type: 'insert_after_heading', section: 'Errors', content: '| Code |' }), /## Errors\n\n\| Code \|\n\nNone yet./);
+  });
+
+  it('applies search_replace within a section only and checks the match count', () => {
+    assert.match(apply({ type: 'search_replace', section: 'Auth', search: '1 hour', replace: '15 minutes' }), /expire after 15 minutes/);
+    assert.throws(() => apply({ type: 'search_replace', search: '##', replace: '#' }), /Expected 1 match\(es\) of "##", found 4/);
+    assert.doesNotThrow(() => apply({ type: 'search_replace', search: '##', replace: '#', expectedCount: 4 }));
+  });
+
+  it('rejects the whole patch when one operation fails', () => {
+    assert.throws(() => apply(
+      { type: 'append_to_section', section: 'API', content: 'ok' },
+      { type: 'replace_section', section: 'Missing', content: 'x' },
+    ), (error) => error instanceof ValidationError && error.fieldErrors[0].field === 'operations.1.section');
+  });
+
+  it('merges frontmatter keys and removes null keys', () => {
+    const applied = applyDocumentPatch('body\n', { status: 'draft', owner: 'a' }, { frontmatter: { status: 'final', owner: null } });
+    assert.deepEqual(applied.frontmatter, { status: 'final' });
+    assert.deepEqual(applied.changes, ['Frontmatter: set status; removed owner']);
+  });
+
+  it('rejects an empty patch', () => {
+    assert.throws(() => applyDocumentPatch('body\n', {}, {}), /The patch is empty/);
+  });
+});
+
+describe('patchDocument', () => {
+  function fakeClient(versions: number[]) {
+    const updates: unknown[] = [];
+    let reads = 0;
+    const client = {
+      withFreshResponses: (fn: () => unknown) => fn(),
+      getDocument: async (id: string) => ({ id, title: 'Spec', content: DOCUMENT, frontmatter: {}, folderId: null, version: versions[Math.min(reads++, versions.length - 1)] }),
+      updateDocument: async (_id: string, input: unknown) => {
+        updates.push(input);
+        return { version: versions[versions.length - 1] + 1 };
+      },
+    } as unknown as ThinkPromptApiClient;
+    return { client, updates };
+  }
+  const patch = { operations: [{ type: 'replace_section' as const, section: 'Errors', content: 'See codes.' }] };
+
+  it('saves the patched content as a new version', async () => {
+    const { client, updates } = fakeClient([3]);
+    const result = await patchDocument(client, 'doc', patch, { expectedVersion: 3 });
+    assert.deepEqual([result.fromVersion, result.version, result.changeSummary], [3, 4, 'Replaced section "# Spec > ## Errors"']);
+    assert.equal(updates.length, 1);
+  });
+
+  it('fails without writing when the document is not at expectedVersion', async () => {
+    const { client, updates } = fakeClient([4]);
+    await assert.rejects(patchDocument(client, 'doc', patch, { expectedVersion: 3 }), (error) => {
+      assert.ok(error instanceof ConflictError);
+      assert.deepEqual([error.details?.expectedVersion, error.details?.currentVersion], [3, 4]);
+      return true;
+    });
+    assert.equal(updates.length, 0);
+  });
+
+  it('fails without writing when the document changes while the patch is applied', async () => {
+    const { client, updates } = fakeClient([3, 4]);
+    await assert.rejects(patchDocument(client, 'doc', patch), ConflictError);
+    assert.equal(updates.length, 0);
+  });
+
+  it('only returns the diff on a dry run', async () => {
+    const { client, updates } = fakeClient([3]);
+    const result = await patchDocument(client, 'doc', patch, { dryRun: true });
+    assert.equal(result.version, 3);
+    assert.match(result.diff, /^-None yet\.$/m);
+    assert.equal(updates.length, 0);
+  });
+});
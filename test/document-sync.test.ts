@@ -0,0 +1,108 @@
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import type { TestContext } from 'node:test';
+
+import { ThinkPromptApiClient } from '../src/api-client.js';
+import { documentHash, parseDocumentFile, renderDocumentFile, resolveSyncPath, syncDocuments } from '../src/document-sync.js';
+
+let tmp: string;
+before(async () => { tmp = await mkdtemp(path.join(os.tmpdir(), 'document-sync-')); });
+after(async () => { await rm(tmp, { recursive: true, force: true }); });
+
+/** A client whose API methods are replaced by `methods`; pagination and cache helpers stay real */
+function fakeClient(t: TestContext, methods: Partial<Record<keyof ThinkPromptApiClient, (...args: never[]) => unknown>>): ThinkPromptApiClient {
+  const client = new ThinkPromptApiClient('https://api.example.com', 'key');
+  for (const [name, implementation] of Object.entries(methods)) {
+    t.mock.method(client, name as keyof ThinkPromptApiClient, implementation);
+  }
+  return client;
+}
+
+describe('document files', () => {
+  it('round-trip title, frontmatter and content', () => {
+    const document = { title: 'Spec', frontmatter: { status: 'draft', notes: 'line\n' }, content: '# Spec\n\nBody\n' };
+    assert.deepEqual(parseDocumentFile(renderDocumentFile(document), 'spec.md'), document);
+  });
+});
+
+describe('resolveSyncPath', () => {
+  it('rejects local paths outside the sync root', () => {
+    assert.equal(resolveSyncPath('docs', '/srv/sync'), path.resolve('/srv/sync/docs'));
+    assert.throws(() => resolveSyncPath('../etc', '/srv/sync'), /outside the sync root/);
+    assert.throws(() => resolveSyncPath('/etc', '/srv/sync'), /outside the sync root/);
+  });
+});
+
+describe('syncDocuments', () => {
+  it('never writes outside the local directory for folder names and slugs like ..', async (t) => {
+    const localPath = path.join(tmp, 'pull', 'local');
+    const client = fakeClient(t, {
+      getDocumentFolderTree: async () => [{ id: 'f1', name: '..', parentId: null, children: [{ id: 'f2', name: '../..', parentId: 'f1' }] }],
+      listDocuments: async () => [
+        { id: 'd1', slug: '../../escaped', title: 'Escaped', folderId: 'f2', version: 1 },
+        { id: 'd2', slug: '..', title: 'Dots', folderId: null, version: 1 },
+      ],
+      getDocument: async (id: string) => ({ id, title: id, content: 'Body\n', frontmatter: {}, version: 1 }),
+    });
+    const result = await syncDocuments(client, { localPath, dryRun: false });
+    assert.equal(result.summary.failed, 0);
+    assert.deepEqual(await readdir(path.join(tmp, 'pull')), ['local']);
+    for (const item of result.items) {
+      assert.ok(!path.relative(localPath, path.resolve(localPath, item.path)).startsWith('..'), item.path);
+    }
+  });
+
+  it('reports pushed files that fail the folder frontmatter schema and syncs the rest', async (t) => {
+    const localPath = path.join(tmp, 'push');
+    await mkdir(path.join(localPath, 'ADRs'), { recursive: true });
+    await writeFile(path.join(localPath, 'ADRs', 'good.md'), '---\nstatus: accepted\n---\n\nGood\n');
+    await writeFile(path.join(localPath, 'ADRs', 'bad.md'), '---\nstatus: maybe\n---\n\nBad\n');
+    const schema = JSON.stringify({ type: 'object', required: ['status'], properties: { status: { enum: ['proposed', 'accepted'] }, owner: { type: 'string', default: 'team' } } });
+    const created: Record<string, unknown>[] = [];
+    const client = fakeClient(t, {
+      getDocumentFolderTree: async () => [{ id: 'adrs', name: 'ADRs', parentId: null }],
+      listDocuments: async (params: { search?: string }) => (params.search ? [{ id: 'schema', title: '_frontmatter-schema', folderId: 'adrs' }] : []),
+      getDocument: async (id: string) => ({ id, title: '_frontmatter-schema', content: schema, version: 1 }),
+      createDocument: async (input: Record<string, unknown>) => {
+        created.push(input);
+        return { id: `new-${created.length}`, version: 1 };
+      },
+    });
+    const result = await syncDocuments(client, { localPath, dryRun: false });
+    const byPath = Object.fromEntries(result.items.map((item) => [item.path, item]));
+    assert.equal(byPath['ADRs/bad.md'].status, 'failed');
+    assert.equal(byPath['ADRs/bad.md'].error?.code, 'validation_failed');
+    assert.equal(byPath['ADRs/good.md'].status, 'applied');
+    assert.deepEqual(created.map((input) => input.frontmatter), [{ status: 'accepted', owner: 'team' }]);
+    const state = JSON.parse(await readFile(path.join(localPath, '.thinkprompt-sync.json'), 'utf8'));
+    assert.deepEqual(Object.keys(state.documents), ['ADRs/good.md']);
+  });
+
+  it('reports a conflict instead of pushing over a remote edit made after planning', async (t) => {
+    const localPath = path.join(tmp, 'race');
+    await mkdir(localPath, { recursive: true });
+    await writeFile(path.join(localPath, 'spec.md'), '---\ntitle: Spec\n---\n\nLocal edit\n');
+    const remote = { id: 'doc-1', slug: 'spec', title: 'Spec', folderId: null, frontmatter: {}, content: 'Original\n', version: 2 };
+    const hash = parseDocumentFile('---\ntitle: Spec\n---\n\nOriginal\n', 'spec.md');
+    await writeFile(path.join(localPath, '.thinkprompt-sync.json'), JSON.stringify({
+      scope: { projectId: null, folderId: null },
+      documents: { 'spec.md': { documentId: 'doc-1', version: 2, hash: documentHash(hash) } },
+    }));
+    let reads = 0;
+    const client = fakeClient(t, {
+      getDocumentFolderTree: async () => [],
+      listDocuments: async () => [remote],
+      // Someone saves version 3 after the plan was made
+      getDocument: async () => ({ ...remote, version: ++reads > 1 ? 3 : 2 }),
+      updateDocument: async () => assert.fail('must not push over the remote edit'),
+    });
+    const result = await syncDocuments(client, { localPath, dryRun: false });
+    const [item] = result.items;
+    assert.deepEqual([item.action, item.status, item.error?.code, item.remoteVersion], ['conflict', 'failed', 'conflict', 3]);
+    const state = JSON.parse(await readFile(path.join(localPath, '.thinkprompt-sync.json'), 'utf8'));
+    assert.equal(state.documents['spec.md'].version, 2);
+  });
+});
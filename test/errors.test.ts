@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { Workspace } from '../src/api-client.js';
+import {
+  AuthenticationError,
+  ConflictError,
+  createApiError,
+  ForbiddenError,
+  formatFieldPath,
+  NotFoundError,
+  parseErrorBody,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  toErrorPayload,
+  ValidationError,
+} from '../src/errors.js';
+
+const context = { method: 'PATCH', endpoint: '/requirements/r-1' };
+const workspace = (role: Workspace['role']) => ({ id: 'w-1', name: 'Acme', role }) as Workspace;
+
+describe('parseErrorBody', () => {
+  it('reads NestJS message arrays, error names and plain text', () => {
+    assert.deepEqual(parseErrorBody('{"statusCode":400,"message":["title should not be empty","type must be a string"]}').messages, ['title should not be empty', 'type must be a string']);
+    assert.equal(parseErrorBody('{"statusCode":404,"error":"Not Found"}').message, 'Not Found');
+    assert.deepEqual(parseErrorBody(' Bad gateway\n'), { message: 'Bad gateway', messages: ['Bad gateway'], raw: ' Bad gateway\n' });
+  });
+});
+
+describe('createApiError', () => {
+  it('maps status codes to typed errors', () => {
+    const cases: [number, new (...args: never[]) => Error, string][] = [
+      [401, AuthenticationError, 'unauthorized'],
+      [403, ForbiddenError, 'forbidden'],
+      [404, NotFoundError, 'not_found'],
+      [409, ConflictError, 'conflict'],
+      [429, RateLimitError, 'rate_limited'],
+      [500, ServerError, 'server_error'],
+      [503, ServerError, 'server_error'],
+    ];
+    for (const [status, type, code] of cases) {
+      const error = createApiError(status, '{"message":"nope"}', context);
+      assert.ok(error instanceof type, `${status} → ${type.name}`);
+      assert.equal(error.code, code);
+      assert.equal(error.status, status);
+      assert.equal(error.message, 'nope');
+    }
+    const other = createApiError(418, '', context);
+    assert.deepEqual([other.code, other.status, other.message], ['api_error', 418, 'API request failed: 418']);
+  });
+
+  it('turns class-validator messages into field errors', () => {
+    for (const status of [400, 422]) {
+      const error = createApiError(status, JSON.stringify({ message: ['scope.inScope must be an array', 'type must be one of the following values: positive, negative'] }), context);
+      assert.ok(error instanceof ValidationError);
+      assert.deepEqual(error.fieldErrors, [
+        { field: 'scope.inScope', message: 'must be an array', allowedValues: undefined },
+        { field: 'type', message: 'must be one of the following values: positive, negative', allowedValues: ['positive', 'negative'] },
+      ]);
+    }
+  });
+
+  it('names the workspace role in 403 hints', () => {
+    const viewer = createApiError(403, '', { ...context, workspace: workspace('viewer') });
+    assert.ok(viewer instanceof ForbiddenError);
+    assert.equal(viewer.workspaceRole, 'viewer');
+    assert.match(viewer.hint!, /"viewer", which is read-only/);
+    assert.match(createApiError(403, '', { ...context, workspace: workspace('editor') }).hint!, /\("editor"\) in "Acme" does not allow PATCH \/requirements\/r-1/);
+  });
+
+  it('passes Retry-After on to rate limit errors', () => {
+    const error = createApiError(429, '', { ...context, retryAfterMs: 2500 });
+    assert.ok(error instanceof RateLimitError);
+    assert.equal(error.retryAfterMs, 2500);
+    assert.match(error.hint!, /Wait 3s/);
+    assert.equal(error.toPayload().retryAfterMs, 2500);
+  });
+});
+
+describe('toErrorPayload', () => {
+  it('keeps codes, hints and field errors of typed errors', () => {
+    const payload = toErrorPayload(new ValidationError('Bad input', [{ field: 'title', message: 'is required' }], { details: { tool: 'x' } }));
+    assert.deepEqual(payload, {
+      code: 'validation_failed',
+      status: null,
+      message: 'Bad input',
+      hint: 'Fix the listed fields and retry.',
+      details: { tool: 'x' },
+      fieldErrors: [{ field: 'title', message: 'is required' }],
+    });
+    assert.equal(toErrorPayload(new TimeoutError('slow')).code, 'timeout');
+  });
+
+  it('reports anything else as an internal error', () => {
+    assert.deepEqual(toErrorPayload(new Error('boom')), { code: 'internal_error', status: null, message: 'boom' });
+    assert.deepEqual(toErrorPayload('plain'), { code: 'internal_error', status: null, message: 'plain' });
+  });
+});
+
+describe('formatFieldPath', () => {
+  it('joins keys with dots and indices with brackets', () => {
+    assert.equal(formatFieldPath(['steps', 0, 'action']), 'steps[0].action');
+    assert.equal(formatFieldPath([0]), '[0]');
+    assert.equal(formatFieldPath([]), '(root)');
+  });
+});
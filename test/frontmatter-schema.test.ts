@@ -0,0 +1,133 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { TestContext } from 'node:test';
+
+import { ThinkPromptApiClient } from '../src/api-client.js';
+import type { Document } from '../src/api-client.js';
+import { ValidationError } from '../src/errors.js';
+import {
+  applyFolderSchemaToCreate,
+  applyFolderSchemaToUpdate,
+  FRONTMATTER_SCHEMA_TITLE,
+  parseFrontmatterSchema,
+  validateFolderDocuments,
+  validateFrontmatter,
+} from '../src/frontmatter-schema.js';
+
+/** A client whose API methods are replaced by `methods`; pagination and cache helpers stay real */
+function fakeClient(t: TestContext, methods: Partial<Record<keyof ThinkPromptApiClient, (...args: never[]) => unknown>>): ThinkPromptApiClient {
+  const client = new ThinkPromptApiClient('https://api.example.com', 'key');
+  for (const [name, implementation] of Object.entries(methods)) {
+    t.mock.method(client, name as keyof ThinkPromptApiClient, implementation);
+  }
+  return client;
+}
+
+const schema = {
+  type: 'object',
+  required: ['status'],
+  properties: {
+    status: { enum: ['draft', 'final'] },
+    owner: { type: 'string', default: 'docs-team' },
+    tags: { type: 'array', items: { type: 'string', minLength: 2 } },
+  },
+  additionalProperties: false,
+};
+
+function doc(id: string, title: string, folderId: string, frontmatter: Record<string, unknown> = {}, content = ''): Document {
+  return { id, title, folderId, frontmatter, content, isArchived: false, version: 1 } as Document;
+}
+
+/** Folder f-1 holds a schema document and two documents; f-2 has no schema */
+function folderClient(t: TestContext, documents: Document[] = []) {
+  const schemaDocument = doc('schema', FRONTMATTER_SCHEMA_TITLE, 'f-1', {}, `\`\`\`json\n${JSON.stringify(schema)}\n\`\`\``);
+  const all = [schemaDocument, ...documents];
+  return fakeClient(t, {
+    listDocuments: async (params: never) => {
+      const { folderId, search } = params as { folderId?: string; search?: string };
+      return all.filter((d) => d.folderId === folderId && (!search || d.title.includes(search)));
+    },
+    getDocument: async (id: never) => all.find((d) => d.id === id),
+  });
+}
+
+describe('validateFrontmatter', () => {
+  it('reports array items with bracket indices and fills defaults', () => {
+    const result = validateFrontmatter(parseFrontmatterSchema(JSON.stringify(schema)), { status: 'draft', tags: ['ok', 'x'] });
+    assert.deepEqual(result.errors, [{ field: 'frontmatter.tags[1]', message: 'must be at least 2 characters' }]);
+    assert.deepEqual(result.defaulted, ['owner']);
+    assert.equal(result.value.owner, 'docs-team');
+  });
+
+  it('reports invalid schema keywords with the same path format', () => {
+    assert.throws(() => parseFrontmatterSchema(JSON.stringify({ properties: { tags: { type: 'array', items: { minItems: -1 } } } })), (error: ValidationError) => {
+      assert.deepEqual(error.fieldErrors.map((e) => e.field), ['content.properties.tags.items.minItems']);
+      return true;
+    });
+    assert.throws(() => parseFrontmatterSchema(JSON.stringify({ required: [1] })), (error: ValidationError) => {
+      assert.deepEqual(error.fieldErrors.map((e) => e.field), ['content.required[0]']);
+      return true;
+    });
+  });
+});
+
+describe('validateFolderDocuments', () => {
+  it('reports invalid documents and valid ones missing defaults, skipping the schema document', async (t) => {
+    const client = folderClient(t, [
+      doc('d-1', 'Valid', 'f-1', { status: 'final', owner: 'me' }),
+      doc('d-2', 'Missing default', 'f-1', { status: 'draft' }),
+      doc('d-3', 'Invalid', 'f-1', { status: 'done', extra: true }),
+    ]);
+    const report = await validateFolderDocuments(client, 'f-1');
+    assert.equal(report.checked, 3);
+    assert.equal(report.valid, 2);
+    assert.deepEqual(report.missingDefaults, [{ documentId: 'd-2', title: 'Missing default', keys: ['owner'] }]);
+    assert.deepEqual(report.invalid.map((entry) => [entry.documentId, entry.errors.map((e) => e.field)]), [
+      ['d-3', ['frontmatter.status', 'frontmatter.extra']],
+    ]);
+  });
+
+  it('fails for folders without a schema', async (t) => {
+    await assert.rejects(validateFolderDocuments(folderClient(t), 'f-2'), ValidationError);
+  });
+});
+
+describe('applyFolderSchemaToCreate', () => {
+  it('fills defaults and rejects frontmatter that does not match the folder schema', async (t) => {
+    const client = folderClient(t);
+    const created = await applyFolderSchemaToCreate(client, { title: 'New', content: '', folderId: 'f-1', frontmatter: { status: 'draft' } });
+    assert.deepEqual(created.frontmatter, { status: 'draft', owner: 'docs-team' });
+    await assert.rejects(applyFolderSchemaToCreate(client, { title: 'New', content: '', folderId: 'f-1', frontmatter: { tags: ['a'] } }), (error: ValidationError) => {
+      assert.deepEqual(error.fieldErrors.map((e) => e.field), ['frontmatter.status', 'frontmatter.tags[0]']);
+      return true;
+    });
+  });
+
+  it('leaves documents in folders without a schema unchanged', async (t) => {
+    const input = { title: 'New', content: '', folderId: 'f-2', frontmatter: { anything: true } };
+    assert.equal(await applyFolderSchemaToCreate(folderClient(t), input), input);
+  });
+
+  it('validates new schema documents', async (t) => {
+    await assert.rejects(applyFolderSchemaToCreate(folderClient(t), { title: FRONTMATTER_SCHEMA_TITLE, content: '{ not json', folderId: 'f-1' }), /not valid JSON/);
+  });
+});
+
+describe('applyFolderSchemaToUpdate', () => {
+  it('skips the check for content-only edits of documents that predate the schema', async (t) => {
+    const client = folderClient(t, [doc('d-1', 'Old', 'f-1', { legacy: true })]);
+    const input = { content: 'new body' };
+    assert.equal(await applyFolderSchemaToUpdate(client, 'd-1', input), input);
+  });
+
+  it('checks the current frontmatter when a document moves into a folder with a schema', async (t) => {
+    const client = folderClient(t, [doc('d-1', 'Moved', 'f-2', { status: 'final' }), doc('d-2', 'Moved too', 'f-2', {})]);
+    assert.deepEqual(await applyFolderSchemaToUpdate(client, 'd-1', { folderId: 'f-1' }), { folderId: 'f-1', frontmatter: { status: 'final', owner: 'docs-team' } });
+    await assert.rejects(applyFolderSchemaToUpdate(client, 'd-2', { folderId: 'f-1' }), ValidationError);
+  });
+
+  it('keeps edits to the schema document valid', async (t) => {
+    const client = folderClient(t);
+    await assert.rejects(applyFolderSchemaToUpdate(client, 'schema', { content: '{"type": "string"}' }), /must describe an object/);
+  });
+});
@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { ValidationError } from '../src/errors.js';
+import { parseFrontmatter, parseYaml, stringifyFrontmatter } from '../src/frontmatter.js';
+
+function roundTrip(frontmatter: Record<string, unknown>): Record<string, unknown> {
+  return parseFrontmatter(stringifyFrontmatter(frontmatter, '# Body\n')).frontmatter;
+}
+
+describe('frontmatter round-trip', () => {
+  it('keeps the trailing newlines of multi-line strings', () => {
+    for (const value of ['x\n', 'x', 'x\n\n', 'a\nb', 'a\nb\n', '\nleading', '']) {
+      assert.deepEqual(roundTrip({ value }), { value }, JSON.stringify(value));
+    }
+  });
+
+  it('keeps strings that look like other scalar types as strings', () => {
+    const frontmatter = { a: 'true', b: '1', c: 'null', d: '1e3', e: '~', f: ' padded ', g: '# not a comment', h: 'key: value' };
+    assert.deepEqual(roundTrip(frontmatter), frontmatter);
+  });
+
+  it('keeps numbers, booleans, null and nested collections', () => {
+    const frontmatter = { count: 3, ratio: 0.5, draft: false, owner: null, tags: [], meta: {}, steps: [{ name: 'a', done: true }, ['x', 'y']], 'odd key': 1 };
+    assert.deepEqual(roundTrip(frontmatter), frontmatter);
+  });
+
+  it('omits undefined values and empty frontmatter', () => {
+    assert.deepEqual(roundTrip({ a: 1, b: undefined }), { a: 1 });
+    assert.equal(stringifyFrontmatter({}, 'content\n'), 'content\n');
+  });
+});
+
+describe('parseFrontmatter', () => {
+  it('splits the frontmatter block from the content', () => {
+    assert.deepEqual(parseFrontmatter('---\ntitle: Spec\n---\n\n# Spec\n'), { frontmatter: { title: 'Spec' }, content: '# Spec\n' });
+  });
+
+  it('returns files without a frontmatter block unchanged', () => {
+    assert.deepEqual(parseFrontmatter('# Spec\n---\n'), { frontmatter: {}, content: '# Spec\n---\n' });
+  });
+
+  it('accepts CRLF line endings and a byte order mark', () => {
+    assert.deepEqual(parseFrontmatter('﻿---\r\ntitle: Spec\r\n---\r\nbody'), { frontmatter: { title: 'Spec' }, content: 'body' });
+  });
+});
+
+describe('parseYaml', () => {
+  it('reads an empty block as empty frontmatter', () => {
+    assert.deepEqual(parseYaml(''), {});
+  });
+
+  it('rejects invalid YAML with the line of the error', () => {
+    assert.throws(() => parseYaml('a: 1\na: 2'), (error) => {
+      assert.ok(error instanceof ValidationError);
+      assert.match(error.fieldErrors[0].message, /^line 2: /);
+      return true;
+    });
+  });
+
+  it('rejects frontmatter that is not a mapping', () => {
+    assert.throws(() => parseYaml('- a\n- b'), ValidationError);
+  });
+});
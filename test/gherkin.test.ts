@@ -0,0 +1,143 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { AcceptanceCriterion, Requirement } from '../src/api-client.js';
+import { applyGherkinImport, parseFeature, planGherkinImport, requirementToFeature } from '../src/gherkin.js';
+import type { GherkinImportApi, ParsedScenario } from '../src/gherkin.js';
+
+const requirement = {
+  id: 'r-1',
+  displayId: 'REQ-7',
+  title: 'Checkout',
+  description: { userStory: 'As a buyer\nI want to pay' },
+  tags: [{ name: 'Payment Flow' }, { name: 'web' }],
+} as Requirement;
+
+function criteriaFrom(scenarios: readonly ParsedScenario[]): AcceptanceCriterion[] {
+  return scenarios.map((scenario, index) => ({
+    id: `ac-${index + 1}`,
+    requirementId: requirement.id,
+    scenarioName: scenario.scenarioName,
+    givenContext: scenario.givenContext,
+    whenAction: scenario.whenAction,
+    thenOutcome: scenario.thenOutcome,
+    type: scenario.type,
+    sortOrder: index,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  }));
+}
+
+/** Export the criteria, parse the file again and plan an import against the same criteria */
+function roundTrip(criteria: AcceptanceCriterion[]) {
+  const feature = requirementToFeature(requirement, criteria);
+  const parsed = parseFeature(feature.content);
+  return { feature, parsed, plan: planGherkinImport(parsed.scenarios, criteria, { deleteMissing: true }) };
+}
+
+describe('parseFeature', () => {
+  it('expands each Examples row of a scenario outline', () => {
+    const parsed = parseFeature([
+      'Feature: Checkout',
+      '  Scenario Outline: Pay with <method>',
+      '    Given a cart worth <amount>',
+      '    When the buyer pays with <method>',
+      '    Then the order is placed',
+      '    Examples:',
+      '      | method | amount |',
+      '      | card   | 10     |',
+      '      | paypal | 20     |',
+    ].join('\n'));
+    assert.deepEqual(parsed.scenarios.map((s) => [s.scenarioName, s.givenContext, s.whenAction]), [
+      ['Pay with card', 'a cart worth 10', 'the buyer pays with card'],
+      ['Pay with paypal', 'a cart worth 20', 'the buyer pays with paypal'],
+    ]);
+    assert.deepEqual(parsed.warnings, []);
+  });
+
+  it('prepends Background steps and reads the requirement comment', () => {
+    const parsed = parseFeature('# requirement: r-9\nFeature: F\n  Background:\n    Given a user\n  Scenario: S\n    Given a cart\n    When paying\n    Then done\n');
+    assert.equal(parsed.requirementId, 'r-9');
+    assert.equal(parsed.scenarios[0].givenContext, 'a user\na cart');
+  });
+});
+
+describe('Gherkin round trip', () => {
+  it('reports no changes for criteria imported from a scenario outline', () => {
+    const outline = parseFeature([
+      'Feature: Checkout',
+      '  Scenario Outline: Pay with <method>',
+      '    Given a cart',
+      '    When the buyer pays with <method>',
+      '    Then the order is placed',
+      '    Examples:',
+      '      | method |',
+      '      | card   |',
+      '      | paypal |',
+    ].join('\n'));
+    const { plan } = roundTrip(criteriaFrom(outline.scenarios));
+    assert.deepEqual(plan, { changes: [], unchanged: ['Pay with card', 'Pay with paypal'] });
+  });
+
+  it('keeps criterion types and requirement tags', () => {
+    const criteria = criteriaFrom([
+      { scenarioName: 'Declined card', type: 'negative', tags: [], givenContext: 'a declined card', whenAction: 'paying', thenOutcome: 'an error is shown', line: 1 },
+      { scenarioName: 'Empty cart', type: 'edge_case', tags: [], givenContext: 'an empty cart', whenAction: 'paying', thenOutcome: 'checkout is disabled', line: 1 },
+    ]);
+    const { feature, parsed, plan } = roundTrip(criteria);
+    assert.match(feature.content, /^ {2}@negative @Payment-Flow @web$/m);
+    assert.deepEqual(parsed.scenarios.map((s) => s.tags), [
+      ['@REQ-7', '@negative', '@Payment-Flow', '@web'],
+      ['@REQ-7', '@edge_case', '@Payment-Flow', '@web'],
+    ]);
+    assert.deepEqual(plan.changes, []);
+  });
+
+  it('keeps doc strings, data tables and multi-line steps', () => {
+    const criteria = criteriaFrom([{
+      scenarioName: 'Order payload',
+      type: 'positive',
+      tags: [],
+      givenContext: 'a cart\nthe prices\n| item | price |\n| book | 12 |',
+      whenAction: 'the client posts\n"""\n{\n  "items": ["book"]\n}\n"""',
+      thenOutcome: 'the response is 201',
+      line: 1,
+    }]);
+    const { parsed, plan } = roundTrip(criteria);
+    assert.equal(parsed.scenarios[0].whenAction, 'the client posts\n"""\n{\n  "items": ["book"]\n}\n"""');
+    assert.deepEqual(plan.changes, []);
+  });
+});
+
+describe('planGherkinImport', () => {
+  const existing = criteriaFrom([
+    { scenarioName: 'Kept', type: 'positive', tags: [], givenContext: 'a', whenAction: 'b', thenOutcome: 'c', line: 1 },
+    { scenarioName: 'Not in file', type: 'positive', tags: [], givenContext: 'a', whenAction: 'b', thenOutcome: 'c', line: 1 },
+  ]);
+  const scenarios: ParsedScenario[] = [
+    { scenarioName: 'Kept', type: 'negative', tags: [], givenContext: 'a', whenAction: 'b', thenOutcome: 'changed', line: 2 },
+    { scenarioName: 'New', type: 'positive', tags: [], givenContext: 'a', whenAction: 'b', thenOutcome: 'c', line: 8 },
+  ];
+
+  it('keeps criteria missing from the file unless deleteMissing is set', () => {
+    const plan = planGherkinImport(scenarios, existing);
+    assert.deepEqual(plan.changes.map((c) => [c.action, c.scenarioName, c.changedFields]), [
+      ['update', 'Kept', ['thenOutcome', 'type']],
+      ['create', 'New', undefined],
+    ]);
+    const withDelete = planGherkinImport(scenarios, existing, { deleteMissing: true });
+    assert.deepEqual(withDelete.changes.map((c) => [c.action, c.scenarioName]).at(-1), ['delete', 'Not in file']);
+  });
+
+  it('reports failed changes and applies the rest', async () => {
+    const calls: string[] = [];
+    const api = {
+      createAcceptanceCriterion: async () => { throw new Error('boom'); },
+      updateAcceptanceCriterion: async (id: string) => { calls.push(`update ${id}`); },
+      deleteAcceptanceCriterion: async (id: string) => { calls.push(`delete ${id}`); },
+    } as unknown as GherkinImportApi;
+    const result = await applyGherkinImport(api, 'r-1', planGherkinImport(scenarios, existing, { deleteMissing: true }));
+    assert.deepEqual(result.changes.map((c) => c.status), ['applied', 'failed', 'applied']);
+    assert.deepEqual(calls, ['update ac-1', 'delete ac-2']);
+  });
+});
@@ -0,0 +1,115 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { TestContext } from 'node:test';
+
+import { ThinkPromptApiClient } from '../src/api-client.js';
+import type { CreateAcceptanceCriterionInput } from '../src/api-client.js';
+import { NotFoundError, ServerError } from '../src/errors.js';
+import { createRequirementBundle } from '../src/requirement-bundle.js';
+import type { RequirementBundle } from '../src/requirement-bundle.js';
+
+/** A client whose API methods are replaced by `methods`; pagination and cache helpers stay real */
+function fakeClient(t: TestContext, methods: Partial<Record<keyof ThinkPromptApiClient, (...args: never[]) => unknown>>): ThinkPromptApiClient {
+  const client = new ThinkPromptApiClient('https://api.example.com', 'key');
+  for (const [name, implementation] of Object.entries(methods)) {
+    t.mock.method(client, name as keyof ThinkPromptApiClient, implementation);
+  }
+  return client;
+}
+
+const criterion = (scenarioName: string) => ({ scenarioName, givenContext: 'a', whenAction: 'b', thenOutcome: 'c' });
+
+const bundle: RequirementBundle = {
+  requirement: { title: 'Checkout', projectId: 'p-1' } as RequirementBundle['requirement'],
+  acceptanceCriteria: [criterion('First'), criterion('Second'), criterion('Third')],
+  preconditions: [{ title: 'Payment provider' } as NonNullable<RequirementBundle['preconditions']>[number]],
+};
+
+/** Records every call; `failOn` names scenario names whose creation fails */
+function bundleClient(t: TestContext, options: { failOn?: string[]; failDeleteOf?: string[]; failRequirement?: boolean } = {}) {
+  const calls: string[] = [];
+  const client = fakeClient(t, {
+    createRequirement: async () => {
+      calls.push('create requirement');
+      if (options.failRequirement) throw new ServerError('down');
+      return { id: 'r-1', displayId: 'REQ-1' };
+    },
+    deleteRequirement: async (id: never) => { calls.push(`delete requirement ${id}`); },
+    createAcceptanceCriterion: async (_requirementId: never, input: never) => {
+      const { scenarioName } = input as CreateAcceptanceCriterionInput;
+      calls.push(`create ${scenarioName}`);
+      // Let criteria started together finish in a different order than they started
+      await new Promise((resolve) => setImmediate(resolve));
+      if (options.failOn?.includes(scenarioName)) throw new ServerError(`${scenarioName} failed`);
+      return { id: `ac-${scenarioName}` };
+    },
+    deleteAcceptanceCriterion: async (id: never) => {
+      calls.push(`delete ${id}`);
+      if (options.failDeleteOf?.includes(id)) throw new NotFoundError(`${id} is gone`);
+    },
+    createPrecondition: async () => { calls.push('create precondition'); return { id: 'pre-1' }; },
+    deletePrecondition: async (id: never) => { calls.push(`delete ${id}`); },
+  });
+  return { client, calls };
+}
+
+describe('createRequirementBundle', () => {
+  it('creates the requirement and all sub-entities', async (t) => {
+    const { client } = bundleClient(t);
+    const result = await createRequirementBundle(client, bundle);
+    assert.equal(result.success, true);
+    assert.equal(result.displayId, 'REQ-1');
+    assert.deepEqual(result.items.map((item) => [item.kind, item.status, item.id]), [
+      ['requirement', 'created', 'r-1'],
+      ['acceptanceCriterion', 'created', 'ac-First'],
+      ['acceptanceCriterion', 'created', 'ac-Second'],
+      ['acceptanceCriterion', 'created', 'ac-Third'],
+      ['precondition', 'created', 'pre-1'],
+    ]);
+  });
+
+  it('stops after a failing child, then deletes what was created and archives the requirement last', async (t) => {
+    const { client, calls } = bundleClient(t, { failOn: ['Second'] });
+    const result = await createRequirementBundle(client, bundle, 1);
+    assert.equal(result.success, false);
+    assert.deepEqual(result.items.map((item) => [item.label, item.status]), [
+      ['Checkout', 'rolled_back'],
+      ['First', 'rolled_back'],
+      ['Second', 'failed'],
+      ['Third', 'skipped'],
+      ['Payment provider', 'skipped'],
+    ]);
+    assert.equal(result.items[2].error?.message, 'Second failed');
+    assert.deepEqual(calls, ['create requirement', 'create First', 'create Second', 'delete ac-First', 'delete requirement r-1']);
+  });
+
+  it('rolls back children that were in flight when another one failed', async (t) => {
+    const { client, calls } = bundleClient(t, { failOn: ['First'] });
+    const result = await createRequirementBundle(client, bundle, 3);
+    assert.deepEqual(result.items.map((item) => item.status), ['rolled_back', 'failed', 'rolled_back', 'rolled_back', 'skipped']);
+    assert.ok(!calls.includes('create precondition'));
+    assert.equal(calls.at(-1), 'delete requirement r-1');
+  });
+
+  it('reports children whose rollback fails and still archives the requirement', async (t) => {
+    const { client } = bundleClient(t, { failOn: ['Third'], failDeleteOf: ['ac-First'] });
+    const result = await createRequirementBundle(client, bundle, 1);
+    assert.deepEqual(result.items.map((item) => [item.label, item.status]), [
+      ['Checkout', 'rolled_back'],
+      ['First', 'rollback_failed'],
+      ['Second', 'rolled_back'],
+      ['Third', 'failed'],
+      ['Payment provider', 'skipped'],
+    ]);
+    assert.equal(result.items[1].rollbackError?.code, 'not_found');
+    assert.equal(result.items[1].id, 'ac-First');
+  });
+
+  it('returns only the requirement when it cannot be created', async (t) => {
+    const { client, calls } = bundleClient(t, { failRequirement: true });
+    const result = await createRequirementBundle(client, bundle);
+    assert.deepEqual(result, { success: false, items: [{ kind: 'requirement', index: 0, label: 'Checkout', status: 'failed', error: result.items[0].error }] });
+    assert.equal(result.items[0].error?.code, 'server_error');
+    assert.deepEqual(calls, ['create requirement']);
+  });
+});
@@ -0,0 +1,129 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import type { TestContext } from 'node:test';
+
+import { ThinkPromptApiClient } from '../src/api-client.js';
+import type { AcceptanceCriterion, Precondition, Requirement } from '../src/api-client.js';
+import { ThinkPromptError, ValidationError } from '../src/errors.js';
+import {
+  assertInitialStatus,
+  checkStatusTransition,
+  DEFAULT_LIFECYCLE,
+  evaluateGuards,
+  loadLifecycleConfig,
+  transitionError,
+} from '../src/requirement-lifecycle.js';
+
+let tmp: string;
+before(async () => { tmp = await mkdtemp(path.join(os.tmpdir(), 'lifecycle-')); });
+after(async () => { await rm(tmp, { recursive: true, force: true }); });
+
+/** A client whose API methods are replaced by `methods`; pagination and cache helpers stay real */
+function fakeClient(t: TestContext, methods: Partial<Record<keyof ThinkPromptApiClient, (...args: never[]) => unknown>>): ThinkPromptApiClient {
+  const client = new ThinkPromptApiClient('https://api.example.com', 'key');
+  for (const [name, implementation] of Object.entries(methods)) {
+    t.mock.method(client, name as keyof ThinkPromptApiClient, implementation);
+  }
+  return client;
+}
+
+const requirement = (extra: Partial<Requirement> = {}) =>
+  ({ id: 'r-1', status: 'in_review', qualityScore: { overall: 75 }, unresolvedCommentsCount: 0, ...extra }) as Requirement;
+const criterion = (type: AcceptanceCriterion['type']) => ({ type }) as AcceptanceCriterion;
+const precondition = (title: string, isMet: boolean) => ({ title, isMet }) as Precondition;
+
+describe('loadLifecycleConfig', () => {
+  it('uses the default lifecycle without a file', () => {
+    assert.equal(loadLifecycleConfig(undefined), DEFAULT_LIFECYCLE);
+    assert.deepEqual(DEFAULT_LIFECYCLE.transitions.structured, ['quality_check', 'draft', 'in_discovery']);
+    assert.deepEqual(DEFAULT_LIFECYCLE.transitions.exported, ['draft', 'in_discovery', 'structured', 'quality_check', 'in_review', 'approved']);
+  });
+
+  it('reports a broken file as a ThinkPromptError and reads it again once fixed', async () => {
+    const file = path.join(tmp, 'lifecycle.json');
+    await writeFile(file, JSON.stringify({ guards: { approved: { minQualityScore: 120 } }, initialStatuses: ['done'] }));
+    assert.throws(() => loadLifecycleConfig(file), (error: ThinkPromptError) => {
+      assert.equal(error.code, 'internal_error');
+      assert.match(error.message, /guards\.approved\.minQualityScore/);
+      assert.match(error.message, /initialStatuses\[0\]/);
+      return true;
+    });
+    assert.throws(() => loadLifecycleConfig(path.join(tmp, 'missing.json')), /Cannot read requirement lifecycle/);
+
+    await writeFile(file, JSON.stringify({ initialStatuses: ['draft'], guards: { approved: { minQualityScore: 90 } } }));
+    const config = loadLifecycleConfig(file);
+    assert.deepEqual(config.initialStatuses, ['draft']);
+    assert.deepEqual(config.guards.approved, { minQualityScore: 90 });
+    assert.deepEqual(config.guards.in_review, DEFAULT_LIFECYCLE.guards.in_review);
+    assert.equal(loadLifecycleConfig(file), config);
+  });
+});
+
+describe('evaluateGuards', () => {
+  it('reports every failed guard with expected and actual values', () => {
+    const failures = evaluateGuards(
+      DEFAULT_LIFECYCLE.guards.approved!,
+      requirement({ qualityScore: { overall: 65 } as Requirement['qualityScore'], unresolvedCommentsCount: 2 }),
+      [criterion('positive')],
+      [precondition('Auth service', false), precondition('Design', true)],
+    );
+    assert.deepEqual(failures.map((f) => [f.guard, f.expected, f.actual]), [
+      ['minQualityScore', 70, 65],
+      ['requireNegativeCriterion', '>= 1', 0],
+      ['requirePreconditionsMet', 0, ['Auth service']],
+      ['maxUnresolvedComments', 0, 2],
+    ]);
+  });
+
+  it('treats a missing quality score as failing the minimum', () => {
+    const [failure] = evaluateGuards({ minQualityScore: 60 }, requirement({ qualityScore: undefined }), [], []);
+    assert.match(failure.message, /has not been calculated/);
+  });
+});
+
+describe('checkStatusTransition', () => {
+  it('rejects transitions outside the lifecycle without fetching guard data', async (t) => {
+    const client = fakeClient(t, { getRequirement: async () => requirement({ status: 'draft' }) });
+    const check = await checkStatusTransition(client, DEFAULT_LIFECYCLE, 'r-1', 'approved');
+    assert.equal(check.allowed, false);
+    assert.match(check.reason!, /draft → approved/);
+    assert.throws(() => { throw transitionError(check, DEFAULT_LIFECYCLE); }, (error: ValidationError) => {
+      assert.deepEqual(error.fieldErrors[0].allowedValues, ['in_discovery']);
+      return true;
+    });
+  });
+
+  it('fetches only the data the target guards need', async (t) => {
+    const client = fakeClient(t, {
+      getRequirement: async () => requirement({ status: 'structured' }),
+      listAcceptanceCriteria: async () => [criterion('negative')],
+      listPreconditions: () => assert.fail('preconditions are not guarded for quality_check'),
+    });
+    const check = await checkStatusTransition(client, DEFAULT_LIFECYCLE, 'r-1', 'quality_check');
+    assert.deepEqual(check.failedGuards.map((f) => f.guard), ['requirePositiveCriterion']);
+    assert.deepEqual(transitionError(check, DEFAULT_LIFECYCLE).fieldErrors.map((e) => e.field), ['status.requirePositiveCriterion']);
+  });
+
+  it('allows a transition whose guards pass', async (t) => {
+    const client = fakeClient(t, {
+      getRequirement: async () => requirement(),
+      listAcceptanceCriteria: async () => [criterion('positive'), criterion('negative')],
+      listPreconditions: async () => [precondition('Design', true)],
+    });
+    assert.deepEqual(await checkStatusTransition(client, DEFAULT_LIFECYCLE, 'r-1', 'approved'), { from: 'in_review', to: 'approved', allowed: true, failedGuards: [] });
+  });
+});
+
+describe('assertInitialStatus', () => {
+  it('only allows initial statuses', () => {
+    assert.doesNotThrow(() => assertInitialStatus(DEFAULT_LIFECYCLE, undefined));
+    assert.doesNotThrow(() => assertInitialStatus(DEFAULT_LIFECYCLE, 'in_discovery'));
+    assert.throws(() => assertInitialStatus(DEFAULT_LIFECYCLE, 'approved', 'requirement.status'), (error: ValidationError) => {
+      assert.equal(error.fieldErrors[0].field, 'requirement.status');
+      return true;
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { lintRequirement } from '../src/requirement-lint.js';
+import type { LintableRequirement } from '../src/requirement-lint.js';
+
+const COMPLETE: LintableRequirement = {
+  title: 'Customer resets a forgotten password',
+  description: {
+    overview: 'Customers who forgot their password receive a reset link by email.',
+    userStory: 'As a customer, I want to reset my password, so that I can sign in again.',
+    businessValue: 'Cuts password support tickets by 30%.',
+    successCriteria: ['Reset link arrives within 60 seconds'],
+  },
+  scope: { inScope: ['Email reset link'], outOfScope: ['SMS reset'], assumptions: ['Email is verified'], constraints: ['Link expires after 30 minutes'] },
+  acceptanceCriteria: [
+    { scenarioName: 'Valid email', type: 'positive', givenContext: 'a registered email', whenAction: 'the customer requests a reset', thenOutcome: 'a reset link is sent within 60 seconds' },
+    { scenarioName: 'Unknown email', type: 'negative', givenContext: 'an unregistered email', whenAction: 'the customer requests a reset', thenOutcome: 'the same confirmation is shown and no email is sent' },
+  ],
+};
+
+function rules(requirement: LintableRequirement): string[] {
+  return lintRequirement(requirement).issues.map((issue) => issue.rule);
+}
+
+describe('lintRequirement', () => {
+  it('scores a complete, specific requirement at 100 without issues', () => {
+    const score = lintRequirement(COMPLETE);
+    assert.deepEqual(score.issues, []);
+    assert.deepEqual([score.completeness, score.clarity, score.testability, score.atomicity, score.overall], [100, 100, 100, 100, 100]);
+    assert.equal(score.traceability, null);
+  });
+
+  it('reports missing description, scope and criteria with their severities', () => {
+    const score = lintRequirement({ title: 'Customer resets a forgotten password' });
+    assert.deepEqual(score.issues.filter((issue) => issue.severity === 'error').map((issue) => issue.rule), [
+      'completeness.missing_user_story',
+      'completeness.no_acceptance_criteria',
+    ]);
+    assert.ok(rules({ title: 'Customer resets a forgotten password' }).includes('completeness.empty_scope_out_of_scope'));
+    // 2 errors, 4 warnings and 3 infos: 100 - 50 - 40 - 9
+    assert.equal(score.completeness, 1);
+  });
+
+  it('flags vague words once per field with a concrete suggestion', () => {
+    const score = lintRequirement({ ...COMPLETE, description: { ...COMPLETE.description, overview: 'A fast, fast and user-friendly reset.' } });
+    const vague = score.issues.filter((issue) => issue.rule === 'clarity.vague_word');
+    assert.deepEqual(vague.map((issue) => issue.message), [
+      'description.overview uses the vague term "fast"',
+      'description.overview uses the vague term "user-friendly"',
+    ]);
+    assert.match(vague[0].suggestion, /p95 < 300 ms/);
+    assert.equal(score.clarity, 80);
+  });
+
+  it('does not match vague words inside other words', () => {
+    assert.ok(!rules({ ...COMPLETE, title: 'Customer resets breakfast preferences easily-ish' }).includes('clarity.vague_word'));
+  });
+
+  it('checks acceptance criteria for outcomes, negative scenarios and compound actions', () => {
+    const found = rules({
+      ...COMPLETE,
+      acceptanceCriteria: [{ scenarioName: 'Reset', type: 'positive', givenContext: 'a customer', whenAction: 'they request a reset and sign in' }],
+      verificationTests: [],
+    });
+    assert.deepEqual(found.filter((rule) => !rule.startsWith('completeness')), [
+      'testability.missing_then',
+      'testability.no_negative_criterion',
+      'testability.no_verification_tests',
+      'atomicity.compound_action',
+    ]);
+  });
+
+  it('flags compound titles and user stories', () => {
+    const found = rules({
+      ...COMPLETE,
+      title: 'Customer resets passwords and manages sessions',
+      description: { ...COMPLETE.description, userStory: 'As a customer, I want to reset my password and change my email, so that my account stays mine.' },
+    });
+    assert.deepEqual(found, ['atomicity.compound_title', 'atomicity.compound_user_story']);
+  });
+});
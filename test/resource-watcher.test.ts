@@ -0,0 +1,115 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { TestContext } from 'node:test';
+
+import { ThinkPromptApiClient } from '../src/api-client.js';
+import { NotFoundError } from '../src/errors.js';
+import { ResourceWatcher } from '../src/resource-watcher.js';
+
+/** A client whose API methods are replaced by `methods`; pagination and cache helpers stay real */
+function fakeClient(t: TestContext, methods: Partial<Record<keyof ThinkPromptApiClient, (...args: never[]) => unknown>>): ThinkPromptApiClient {
+  const client = new ThinkPromptApiClient('https://api.example.com', 'key');
+  for (const [name, implementation] of Object.entries(methods)) {
+    t.mock.method(client, name as keyof ThinkPromptApiClient, implementation);
+  }
+  return client;
+}
+
+const page = (total: number) => async () => ({ data: [], meta: { total, page: 1, limit: 1, totalPages: total } });
+
+/** A watcher that records its notifications; the interval is long enough that tests drive every poll */
+function recordingWatcher(client: ThinkPromptApiClient, watchListChanges = true) {
+  const updated: string[] = [];
+  let listChanged = 0;
+  const watcher = new ResourceWatcher(client, {
+    pollIntervalMs: 3_600_000,
+    watchListChanges,
+    onUpdated: (uri) => { updated.push(uri); },
+    onListChanged: () => { listChanged++; },
+  });
+  return { watcher, updated, listChanged: () => listChanged };
+}
+
+describe('ResourceWatcher', () => {
+  it('reports added and removed resources without any subscription', async (t) => {
+    let templates = 2;
+    const client = fakeClient(t, {
+      listStyleGuides: page(1),
+      listTemplates: async () => page(templates)(),
+      listWorkflows: page(0),
+    });
+    const { watcher, updated, listChanged } = recordingWatcher(client);
+    watcher.start();
+    assert.equal(watcher.isPolling, true);
+    await watcher.poll();
+
+    await watcher.poll();
+    assert.equal(listChanged(), 0);
+    templates = 3;
+    await watcher.poll();
+    assert.equal(listChanged(), 1);
+    templates = 2;
+    await watcher.poll();
+    assert.equal(listChanged(), 2);
+    assert.deepEqual(updated, []);
+    watcher.stop();
+  });
+
+  it('asks for a single item per collection instead of every page', async (t) => {
+    const params: unknown[] = [];
+    const client = fakeClient(t, {
+      listStyleGuides: async (query: never) => { params.push(query); return page(40)(); },
+      listTemplates: page(40),
+      listWorkflows: page(40),
+    });
+    const { watcher } = recordingWatcher(client);
+    watcher.start();
+    await watcher.poll();
+    watcher.stop();
+    assert.deepEqual(params, [{ limit: 1 }]);
+  });
+
+  it('reports updated and deleted subscribed resources', async (t) => {
+    let updatedAt = '2026-01-01T00:00:00.000Z';
+    let deleted = false;
+    const client = fakeClient(t, {
+      listStyleGuides: page(1),
+      listTemplates: page(1),
+      listWorkflows: page(0),
+      getStyleGuide: async () => ({ id: 'sg-1', updatedAt }),
+      getTemplate: async () => {
+        if (deleted) throw new NotFoundError('Template not found');
+        return { id: 'tpl-1', updatedAt: '2026-01-01T00:00:00.000Z' };
+      },
+    });
+    const { watcher, updated } = recordingWatcher(client);
+    watcher.start();
+    watcher.subscribe('style-guide://sg-1');
+    watcher.subscribe('template://tpl-1');
+    await watcher.poll();
+
+    await watcher.poll();
+    assert.deepEqual(updated, []);
+    updatedAt = '2026-02-01T00:00:00.000Z';
+    deleted = true;
+    await watcher.poll();
+    assert.deepEqual(updated.sort(), ['style-guide://sg-1', 'template://tpl-1']);
+    watcher.stop();
+  });
+
+  it('only polls for subscriptions when list changes are not watched', async (t) => {
+    const client = fakeClient(t, {
+      listStyleGuides: () => assert.fail('list polled'),
+      getWorkflow: async () => ({ id: 'wf-1', updatedAt: '2026-01-01T00:00:00.000Z' }),
+    });
+    const { watcher } = recordingWatcher(client, false);
+    watcher.start();
+    assert.equal(watcher.isPolling, false);
+    watcher.subscribe('workflow://wf-1');
+    assert.equal(watcher.isPolling, true);
+    await watcher.poll();
+    watcher.unsubscribe('workflow://wf-1');
+    assert.equal(watcher.isPolling, false);
+    watcher.stop();
+  });
+});
@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { TestContext } from 'node:test';
+
+import { ThinkPromptApiClient } from '../src/api-client.js';
+import { ResponseCache } from '../src/response-cache.js';
+
+/** Freeze Date.now; advance the clock by assigning to `clock.now` */
+function mockClock(t: TestContext): { now: number } {
+  const clock = { now: 1_000_000 };
+  t.mock.method(Date, 'now', () => clock.now);
+  return clock;
+}
+
+/** Answer every request with `{ url, n }`, n counting the requests, and record the URLs */
+function mockFetch(t: TestContext): string[] {
+  const urls: string[] = [];
+  t.mock.method(globalThis, 'fetch', async (url: string) => {
+    urls.push(url);
+    return new Response(JSON.stringify({ url, n: urls.length }), { status: 200 });
+  });
+  return urls;
+}
+
+describe('ResponseCache', () => {
+  it('expires entries after the TTL', (t) => {
+    const clock = mockClock(t);
+    const cache = new ResponseCache({ ttlMs: 1000 });
+    cache.set('a', { value: 1 });
+    clock.now += 999;
+    assert.deepEqual(cache.get('a'), { value: 1 });
+    clock.now += 1;
+    assert.equal(cache.get('a'), undefined);
+    assert.deepEqual(cache.stats(), { hits: 1, misses: 1, hitRate: 0.5, size: 0, maxEntries: 500, ttlMs: 1000, evictions: 0, invalidations: 0 });
+  });
+
+  it('evicts the least recently used entry', () => {
+    const cache = new ResponseCache({ maxEntries: 2 });
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+    assert.equal(cache.get('b'), undefined);
+    assert.equal(cache.get('a'), 1);
+    assert.equal(cache.get('c'), 3);
+    assert.equal(cache.stats().evictions, 1);
+  });
+
+  it('returns copies so callers cannot change cached values', () => {
+    const cache = new ResponseCache();
+    const value = { tags: ['a'] };
+    cache.set('a', value);
+    value.tags.push('b');
+    cache.get<{ tags: string[] }>('a')!.tags.push('c');
+    assert.deepEqual(cache.get('a'), { tags: ['a'] });
+  });
+
+  it('invalidates matching entries and counts them', () => {
+    const cache = new ResponseCache();
+    for (const key of ['w1|/documents', 'w1|/documents/1', 'w2|/documents']) cache.set(key, 1);
+    assert.equal(cache.invalidate((key) => key.startsWith('w1|')), 2);
+    assert.equal(cache.stats().size, 1);
+    cache.clear();
+    assert.deepEqual([cache.stats().size, cache.stats().invalidations], [0, 3]);
+  });
+
+  it('stores nothing when disabled', () => {
+    for (const cache of [new ResponseCache({ ttlMs: 0 }), new ResponseCache({ maxEntries: 0 })]) {
+      cache.set('a', 1);
+      assert.equal(cache.enabled, false);
+      assert.equal(cache.get('a'), undefined);
+    }
+  });
+});
+
+describe('ThinkPromptApiClient response cache', () => {
+  const createClient = () => new ThinkPromptApiClient('https://api.example.com', 'key', { timeoutMs: 0, cache: { ttlMs: 60_000 } });
+
+  it('serves repeated GETs from the cache unless fresh responses are requested', async (t) => {
+    const urls = mockFetch(t);
+    const client = createClient();
+    await client.getDocument('d-1');
+    await client.getDocument('d-1');
+    assert.equal(urls.length, 1);
+    await client.withFreshResponses(() => client.getDocument('d-1'));
+    assert.equal(urls.length, 2);
+    assert.equal(client.getCacheStats().hits, 1);
+  });
+
+  it('invalidates the mutated collection and the collections that embed it', async (t) => {
+    const urls = mockFetch(t);
+    const client = createClient();
+    await Promise.all([client.getRequirement('r-1'), client.getDocument('d-1')]);
+    await client.updateAcceptanceCriterion('ac-1', { thenOutcome: 'changed' });
+    await Promise.all([client.getRequirement('r-1'), client.getDocument('d-1')]);
+    assert.deepEqual(urls.map((url) => url.replace('https://api.example.com', '')).sort(), [
+      '/acceptance-criteria/ac-1',
+      '/documents/d-1',
+      '/requirements/r-1',
+      '/requirements/r-1',
+    ]);
+  });
+});
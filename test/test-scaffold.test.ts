@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { Requirement, VerificationTest } from '../src/api-client.js';
+import { generateTestScaffold } from '../src/test-scaffold.js';
+
+const requirement = { id: 'r-1', displayId: 'REQ-12', title: 'Login' } as Requirement;
+
+function verificationTest(testName: string, sortOrder: number, extra: Partial<VerificationTest> = {}): VerificationTest {
+  return {
+    id: `t-${sortOrder}`,
+    requirementId: 'r-1',
+    testName,
+    testType: 'e2e',
+    description: '',
+    steps: [],
+    expectedResult: '',
+    automationHint: '',
+    sortOrder,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...extra,
+  };
+}
+
+const tests = [
+  verificationTest('Valid login', 1, { steps: [{ step: 2, action: 'Submit', expected: 'Dashboard' }, { step: 1, action: 'Enter "it\'s me"', expected: 'Accepted' }] }),
+  verificationTest('Valid login!', 2),
+  verificationTest('Valid login', 3),
+  verificationTest('Check audit log', 4, { testType: 'manual', steps: [{ step: 1, action: 'Open log', expected: 'Entry exists' }] }),
+];
+
+describe('generateTestScaffold', () => {
+  it('writes automated tests to a framework file and manual tests to a checklist', () => {
+    const files = generateTestScaffold(requirement, tests, 'vitest');
+    assert.deepEqual(files.map((file) => [file.fileName, file.kind, file.testCount]), [
+      ['REQ-12.test.ts', 'vitest', 3],
+      ['REQ-12.manual-tests.md', 'manual-checklist', 1],
+    ]);
+    assert.match(files[1].content, /- \[ \] \*\*Step 1:\*\* Open log\n {2}- Expected: Entry exists/);
+  });
+
+  it('renders one commented block per step in step order and escapes titles', () => {
+    const [file] = generateTestScaffold(requirement, tests.slice(0, 1), 'jest');
+    assert.match(file.content, /from '@jest\/globals'/);
+    assert.ok(file.content.indexOf('// Step 1') < file.content.indexOf('// Step 2'));
+    assert.match(file.content, /\/\/ Act: Enter "it's me"/);
+  });
+
+  it('gives repeated JavaScript test titles a numeric suffix', () => {
+    const [file] = generateTestScaffold(requirement, tests, 'playwright');
+    const titles = [...file.content.matchAll(/^ {2}test\('([^']+)'/gm)].map((match) => match[1]);
+    assert.deepEqual(titles, [
+      '[REQ-12] Valid login (e2e)',
+      '[REQ-12] Valid login! (e2e)',
+      '[REQ-12] Valid login (e2e) #2',
+    ]);
+    assert.match(file.content, /test\.describe\('REQ-12: Login @REQ-12'/);
+  });
+
+  it('gives repeated pytest function names a numeric suffix', () => {
+    const [file] = generateTestScaffold(requirement, tests, 'pytest');
+    assert.equal(file.fileName, 'test_req_12.py');
+    const functions = [...file.content.matchAll(/^def (\w+)\(\):/gm)].map((match) => match[1]);
+    assert.deepEqual(functions, ['test_req_12_valid_login', 'test_req_12_valid_login_2', 'test_req_12_valid_login_3']);
+  });
+});
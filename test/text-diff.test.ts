@@ -0,0 +1,137 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { diffFrontmatter, diffLines, MAX_EDIT_DISTANCE, mergeFrontmatter, mergeLines, splitLines, unifiedDiff } from '../src/text-diff.js';
+import type { DiffOp } from '../src/text-diff.js';
+
+const LABELS = { ours: 'ours', base: 'base', theirs: 'theirs' };
+
+function sides(ops: DiffOp[]): { from: string[]; to: string[] } {
+  return {
+    from: ops.filter((op) => op.type !== 'insert').map((op) => op.line),
+    to: ops.filter((op) => op.type !== 'delete').map((op) => op.line),
+  };
+}
+
+// Deterministic pseudo-random line lists, so failures reproduce
+function randomLines(seed: number, length: number): string[] {
+  let state = seed;
+  return Array.from({ length }, () => {
+    state = (state * 1103515245 + 12345) % 2 ** 31;
+    return 'abcde'[state % 5];
+  });
+}
+
+describe('splitLines', () => {
+  it('drops the empty line after a trailing newline and normalizes CRLF', () => {
+    assert.deepEqual(splitLines('a\r\nb\n'), ['a', 'b']);
+    assert.deepEqual(splitLines('a\n\n'), ['a', '']);
+    assert.deepEqual(splitLines(''), []);
+  });
+});
+
+describe('diffLines', () => {
+  it('reproduces both inputs from its operations', () => {
+    for (let seed = 1; seed <= 500; seed++) {
+      const a = randomLines(seed, seed % 13);
+      const b = randomLines(seed * 7, (seed * 3) % 11);
+      assert.deepEqual(sides(diffLines(a, b)), { from: a, to: b }, `seed ${seed}`);
+    }
+  });
+
+  it('finds a shortest edit script', () => {
+    const ops = diffLines(['a', 'b', 'c', 'a', 'b', 'b', 'a'], ['c', 'b', 'a', 'b', 'a', 'c']);
+    assert.equal(ops.filter((op) => op.type !== 'equal').length, 5);
+  });
+
+  it('diffs large documents line by line up to MAX_EDIT_DISTANCE', () => {
+    const a = Array.from({ length: 20_000 }, (_, i) => `line ${i}`);
+    const b = a.map((line, i) => (i % 20 === 0 ? `${line} edited` : line));
+    const ops = diffLines(a, b);
+    assert.equal(ops.filter((op) => op.type !== 'equal').length, MAX_EDIT_DISTANCE);
+    assert.deepEqual(sides(ops), { from: a, to: b });
+  });
+
+  it('replaces the changed region as a whole beyond MAX_EDIT_DISTANCE', () => {
+    const a = ['same', ...Array.from({ length: MAX_EDIT_DISTANCE }, (_, i) => `old ${i}`), 'same'];
+    const b = ['same', ...Array.from({ length: MAX_EDIT_DISTANCE }, (_, i) => `new ${i}`), 'same'];
+    const ops = diffLines(a, b);
+    assert.deepEqual(ops.map((op) => op.type), [
+      'equal',
+      ...Array(MAX_EDIT_DISTANCE).fill('delete'),
+      ...Array(MAX_EDIT_DISTANCE).fill('insert'),
+      'equal',
+    ]);
+  });
+
+  it('returns only equal operations for identical input', () => {
+    assert.ok(diffLines(['a', 'b'], ['a', 'b']).every((op) => op.type === 'equal'));
+  });
+});
+
+describe('unifiedDiff', () => {
+  it('renders hunks with GNU diff line ranges', () => {
+    const diff = unifiedDiff('a\nb\nc\n', 'a\nB\nc\nd\n', { fromLabel: 'v1', toLabel: 'v2' });
+    assert.equal(diff.text, '--- v1\n+++ v2\n@@ -1,3 +1,4 @@\n a\n-b\n+B\n c\n+d\n');
+    assert.deepEqual({ added: diff.addedLines, removed: diff.removedLines, hunks: diff.hunks }, { added: 2, removed: 1, hunks: 1 });
+  });
+
+  it('splits changes more than twice the context apart into separate hunks', () => {
+    const from = Array.from({ length: 20 }, (_, i) => `line ${i}`).join('\n');
+    const to = from.replace('line 1\n', 'changed 1\n').replace('line 18', 'changed 18');
+    assert.equal(unifiedDiff(from, to, { context: 2 }).hunks, 2);
+  });
+
+  it('points empty ranges at the line before', () => {
+    assert.match(unifiedDiff('', 'a\n').text, /^@@ -0,0 \+1,1 @@$/m);
+  });
+
+  it('is empty when nothing changed', () => {
+    assert.deepEqual(unifiedDiff('a\n', 'a\r\n'), { text: '', addedLines: 0, removedLines: 0, hunks: 0 });
+  });
+});
+
+describe('diffFrontmatter', () => {
+  it('reports added, removed and changed keys, comparing nested values structurally', () => {
+    assert.deepEqual(diffFrontmatter({ a: 1, b: [1], c: { d: 1 } }, { b: [1], c: { d: 2 }, e: true }), {
+      added: { e: true },
+      removed: { a: 1 },
+      changed: { c: { from: { d: 1 }, to: { d: 2 } } },
+    });
+  });
+});
+
+describe('mergeLines', () => {
+  const base = 'one\ntwo\nthree\nfour\nfive\n';
+
+  it('combines changes to different regions', () => {
+    const merge = mergeLines(base, 'ONE\ntwo\nthree\nfour\nfive\n', 'one\ntwo\nthree\nfour\nFIVE\n', LABELS);
+    assert.deepEqual(merge, { text: 'ONE\ntwo\nthree\nfour\nFIVE\n', conflicts: 0 });
+  });
+
+  it('accepts the same change made on both sides', () => {
+    const same = 'one\nTWO\nthree\nfour\nfive\n';
+    assert.deepEqual(mergeLines(base, same, same, LABELS), { text: same, conflicts: 0 });
+  });
+
+  it('marks overlapping changes with diff3 conflict markers', () => {
+    const merge = mergeLines(base, 'one\nours\nthree\nfour\nfive\n', 'one\ntheirs\nthree\nfour\nfive\n', LABELS);
+    assert.equal(merge.conflicts, 1);
+    assert.equal(merge.text, 'one\n<<<<<<< ours\nours\n||||||| base\ntwo\n=======\ntheirs\n>>>>>>> theirs\nthree\nfour\nfive\n');
+  });
+
+  it('keeps deletions from one side', () => {
+    assert.deepEqual(mergeLines(base, 'one\nfive\n', base, LABELS), { text: 'one\nfive\n', conflicts: 0 });
+  });
+});
+
+describe('mergeFrontmatter', () => {
+  it('takes one-sided changes and deletions and reports keys changed on both sides', () => {
+    const merge = mergeFrontmatter(
+      { status: 'draft', owner: 'a', tags: ['x'], obsolete: true },
+      { status: 'review', owner: 'b', tags: ['x'], obsolete: true },
+      { status: 'draft', owner: 'c', tags: ['x', 'y'] },
+    );
+    assert.deepEqual(merge, { merged: { status: 'review', owner: 'c', tags: ['x', 'y'] }, conflicts: ['owner'] });
+  });
+});
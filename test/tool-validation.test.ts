@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { createToolCallParser, ToolArgumentsError, validateToolArguments } from '../src/tool-validation.js';
+import type { FromJsonSchema } from '../src/tool-validation.js';
+
+const schema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    limit: { type: 'number', minimum: 1, maximum: 100 },
+    status: { type: 'string', enum: ['draft', 'approved'] },
+    tags: { type: 'array', items: { type: 'string' } },
+    steps: {
+      type: 'array',
+      items: { type: 'object', properties: { action: { type: 'string' }, expected: { type: 'string' } }, required: ['action'] },
+    },
+    frontmatter: { type: 'object', additionalProperties: true },
+    variables: { type: 'object', additionalProperties: { type: ['string', 'number'] } },
+  },
+  required: ['id'],
+} as const;
+
+function issues(args: unknown) {
+  try {
+    validateToolArguments('update_thing', schema, args);
+  } catch (error) {
+    assert.ok(error instanceof ToolArgumentsError);
+    assert.equal(error.code, 'invalid_arguments');
+    assert.equal(error.tool, 'update_thing');
+    return error.fieldErrors;
+  }
+  return assert.fail('expected a ToolArgumentsError');
+}
+
+describe('validateToolArguments', () => {
+  it('returns valid arguments and strips undeclared properties', () => {
+    assert.deepEqual(
+      validateToolArguments('update_thing', schema, { id: 'x', limit: 5, extra: true, steps: [{ action: 'a', note: 'n' }], frontmatter: { any: [1] } }),
+      { id: 'x', limit: 5, steps: [{ action: 'a' }], frontmatter: { any: [1] } },
+    );
+  });
+
+  it('reports missing, mistyped and out-of-range fields with their paths', () => {
+    assert.deepEqual(issues({ limit: 0, tags: ['a', 2], steps: [{ expected: 'b' }] }), [
+      { field: 'id', message: 'is required' },
+      { field: 'limit', message: 'must be >= 1' },
+      { field: 'tags[1]', message: 'must be of type string' },
+      { field: 'steps[0].action', message: 'is required' },
+    ]);
+    assert.deepEqual(issues({ id: 'x', limit: 101 }), [{ field: 'limit', message: 'must be <= 100' }]);
+  });
+
+  it('lists allowed values for enums and rejects values outside a type union', () => {
+    assert.deepEqual(issues({ id: 'x', status: 'done' }), [{ field: 'status', message: 'must be one of: draft, approved', allowedValues: ['draft', 'approved'] }]);
+    assert.deepEqual(issues({ id: 'x', variables: { a: 'ok', b: 1, c: true } }), [{ field: 'variables.c', message: 'does not match any of the allowed types' }]);
+  });
+
+  it('treats missing arguments as an empty object', () => {
+    assert.deepEqual(issues(undefined), [{ field: 'id', message: 'is required' }]);
+  });
+});
+
+describe('createToolCallParser', () => {
+  const tools = [
+    { name: 'get_thing', inputSchema: schema },
+    { name: 'list_things', inputSchema: { type: 'object', properties: { all: { type: 'boolean' } } } },
+  ] as const;
+
+  it('returns the tool name with typed arguments', () => {
+    const parse = createToolCallParser(tools);
+    const call = parse('get_thing', { id: 'x', limit: 3 });
+    assert.equal(call.name, 'get_thing');
+    if (call.name === 'get_thing') {
+      const args: FromJsonSchema<typeof schema> = call.args;
+      assert.equal(args.limit, 3);
+    }
+  });
+
+  it('rejects unknown tools', () => {
+    assert.throws(() => createToolCallParser(tools)('delete_everything', {}), /Unknown tool: delete_everything/);
+  });
+});
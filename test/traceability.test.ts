@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { AcceptanceCriterion, Precondition, Requirement, VerificationTest } from '../src/api-client.js';
+import { buildTraceabilityRow, CRITERIA_MATCHING, traceabilityToCsv, traceabilityToMarkdown } from '../src/traceability.js';
+import type { TraceabilityMatrix } from '../src/traceability.js';
+
+const requirement = { id: 'r-1', displayId: 'REQ-1', title: 'Login', status: 'approved', unresolvedCommentsCount: 2 } as Requirement;
+
+const criterion = (id: string, scenarioName: string) => ({ id, scenarioName }) as AcceptanceCriterion;
+const test = (testName: string, description = '', steps: VerificationTest['steps'] = []) =>
+  ({ testName, description, expectedResult: '', steps, testType: 'automated' }) as unknown as VerificationTest;
+
+describe('buildTraceabilityRow', () => {
+  it('matches tests to criteria by scenario name or criterion ID and names the matched test', () => {
+    const row = buildTraceabilityRow(
+      requirement,
+      [criterion('ac-1', 'Valid credentials'), criterion('ac-2', 'Locked account'), criterion('ac-3', 'Expired password')],
+      [test('Login with VALID CREDENTIALS'), test('Lockout', 'Covers ac-2', [{ action: 'Fail five times', expected: 'Locked' }] as VerificationTest['steps'])],
+      [{ title: 'Auth service', isMet: false } as Precondition],
+      [],
+    );
+    assert.deepEqual(row.testedCriteria, [
+      { criterion: 'Valid credentials', test: 'Login with VALID CREDENTIALS' },
+      { criterion: 'Locked account', test: 'Lockout' },
+    ]);
+    assert.deepEqual(row.criteriaWithoutTests, ['Expired password']);
+    assert.deepEqual(row.flags, ['criteria_without_tests', 'unmet_preconditions', 'approved_with_unresolved_comments']);
+  });
+
+  it('flags requirements without acceptance criteria', () => {
+    const row = buildTraceabilityRow({ ...requirement, status: 'draft' }, [], [], [], []);
+    assert.deepEqual(row.flags, ['no_acceptance_criteria']);
+  });
+});
+
+describe('output formats', () => {
+  const row = buildTraceabilityRow(requirement, [criterion('ac-1', 'Valid credentials')], [test('Valid credentials, "happy" path')], [], []);
+  const matrix: TraceabilityMatrix = {
+    scope: {},
+    generatedAt: '2026-01-01T00:00:00.000Z',
+    criteriaMatching: CRITERIA_MATCHING,
+    summary: { requirements: 1, flagged: 1, no_acceptance_criteria: 0, criteria_without_tests: 0, unmet_preconditions: 0, approved_with_unresolved_comments: 1 },
+    rows: [row],
+  };
+
+  it('states the matching heuristic in Markdown', () => {
+    assert.match(traceabilityToMarkdown(matrix), /_Heuristic: .*scenario name/);
+    assert.match(traceabilityToMarkdown(matrix), /Valid credentials → Valid credentials, "happy" path/);
+  });
+
+  it('quotes CSV cells with commas and quotes', () => {
+    const [header, line] = traceabilityToCsv(matrix).split('\r\n');
+    assert.match(header, /ACs matched to tests \(by name\)/);
+    assert.match(line, /,"Valid credentials → Valid credentials, ""happy"" path",/);
+  });
+});
@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { StyleGuideVariable } from '../src/api-client.js';
+import { coerceVariableValue, extractPlaceholders, renderPlaceholders, renderStyleGuide, validateVariableValue } from '../src/variables.js';
+
+const variable = (name: string, type: StyleGuideVariable['type'], extra: Partial<StyleGuideVariable> = {}) =>
+  ({ name, label: name, type, required: false, ...extra }) as StyleGuideVariable;
+
+describe('extractPlaceholders', () => {
+  it('lists distinct names in order of first appearance and skips escaped placeholders', () => {
+    assert.deepEqual(extractPlaceholders('{{ b }} {{a}} {{b}} \\{{c}} {{user.name}} {{not valid}}'), ['b', 'a', 'user.name']);
+  });
+});
+
+describe('renderPlaceholders', () => {
+  it('fills known values and leaves missing ones untouched', () => {
+    assert.equal(renderPlaceholders('Hi {{name}}, {{ count }} new, {{missing}} {{empty}}', { name: 'Ada', count: 0, empty: null }), 'Hi Ada, 0 new, {{missing}} {{empty}}');
+  });
+
+  it('renders escaped placeholders literally without the backslash', () => {
+    assert.equal(renderPlaceholders('Use \\{{name}} for {{name}}', { name: 'Ada' }), 'Use {{name}} for Ada');
+  });
+});
+
+describe('coerceVariableValue', () => {
+  it('converts prompt argument strings to the declared type', () => {
+    assert.equal(coerceVariableValue(variable('n', 'number'), ' 42 '), 42);
+    assert.equal(coerceVariableValue(variable('b', 'boolean'), 'TRUE'), true);
+    assert.equal(coerceVariableValue(variable('b', 'boolean'), 'false'), false);
+  });
+
+  it('keeps values that cannot be converted so validation can report them', () => {
+    assert.equal(coerceVariableValue(variable('n', 'number'), 'many'), 'many');
+    assert.equal(coerceVariableValue(variable('n', 'number'), ' '), ' ');
+    assert.equal(coerceVariableValue(variable('b', 'boolean'), 'yes'), 'yes');
+    assert.equal(coerceVariableValue(variable('s', 'text'), 7), 7);
+  });
+});
+
+describe('validateVariableValue', () => {
+  it('checks types', () => {
+    assert.deepEqual(validateVariableValue(variable('n', 'number'), 'many').map((e) => e.rule), ['type']);
+    assert.deepEqual(validateVariableValue(variable('b', 'boolean'), 'yes').map((e) => e.rule), ['type']);
+    assert.deepEqual(validateVariableValue(variable('d', 'date'), '2024-13-45').map((e) => e.rule), ['type']);
+    assert.deepEqual(validateVariableValue(variable('d', 'date'), '2024-01-31'), []);
+    assert.deepEqual(validateVariableValue(variable('s', 'text'), 5).map((e) => e.rule), ['type']);
+  });
+
+  it('checks select options, bounds and patterns', () => {
+    assert.deepEqual(validateVariableValue(variable('tone', 'select', { options: ['formal', 'casual'] }), 'rude').map((e) => e.rule), ['options']);
+    const bounded = variable('n', 'number', { validation: { min: 1, max: 5 } });
+    assert.deepEqual(validateVariableValue(bounded, 0).map((e) => e.rule), ['min']);
+    assert.deepEqual(validateVariableValue(bounded, 6).map((e) => e.rule), ['max']);
+    const code = variable('code', 'text', { validation: { min: 2, pattern: '^[A-Z]+$' } });
+    assert.deepEqual(validateVariableValue(code, 'a').map((e) => e.rule), ['min', 'pattern']);
+    assert.deepEqual(validateVariableValue(variable('s', 'text', { validation: { pattern: '(' } }), 'x'), []);
+  });
+});
+
+describe('renderStyleGuide', () => {
+  const styleGuide = {
+    content: 'Write for {{audience}} in a {{tone}} tone, at most {{words}} words. {{signature}} \\{{literal}}',
+    variables: [
+      variable('audience', 'text', { required: true }),
+      variable('tone', 'select', { options: ['formal', 'casual'], defaultValue: 'formal' }),
+      variable('words', 'number'),
+      variable('unused', 'text'),
+    ],
+  };
+
+  it('reports missing required, extra and unused variables', () => {
+    const result = renderStyleGuide(styleGuide, { words: '200', extra: 'x' });
+    assert.deepEqual(result.errors.map((e) => [e.variable, e.rule]), [['audience', 'required']]);
+    assert.deepEqual(result.appliedDefaults, ['tone']);
+    assert.deepEqual(result.unknownVariables, ['extra']);
+    assert.deepEqual(result.unusedVariables, ['unused']);
+    assert.deepEqual(result.unresolvedPlaceholders, ['audience', 'signature']);
+    assert.equal(result.text, 'Write for {{audience}} in a formal tone, at most 200 words. {{signature}} {{literal}}');
+  });
+
+  it('coerces typed values and fills undeclared placeholders', () => {
+    const result = renderStyleGuide(styleGuide, { audience: 'developers', words: '50', signature: '— Team' });
+    assert.deepEqual(result.errors, []);
+    assert.equal(result.values.words, 50);
+    assert.deepEqual(result.unresolvedPlaceholders, []);
+    assert.equal(result.text, 'Write for developers in a formal tone, at most 50 words. — Team {{literal}}');
+  });
+
+  it('reports values of the wrong type', () => {
+    const result = renderStyleGuide(styleGuide, { audience: 'developers', words: 'many', tone: 'rude' });
+    assert.deepEqual(result.errors.map((e) => [e.variable, e.rule]), [['tone', 'options'], ['words', 'type']]);
+  });
+});
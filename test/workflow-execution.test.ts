@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { TestContext } from 'node:test';
+
+import type { ThinkPromptApiClient, WorkflowExecution, WorkflowExecutionStatus, WorkflowExecutionStep } from '../src/api-client.js';
+import { MAX_POLL_INTERVAL_MS, MIN_POLL_INTERVAL_MS, waitForWorkflowExecution } from '../src/workflow-execution.js';
+
+function execution(status: WorkflowExecutionStatus, steps: Array<Pick<WorkflowExecutionStep, 'id' | 'stepNumber' | 'status'>> = []): WorkflowExecution {
+  return {
+    id: 'exec-1',
+    workflowId: 'wf',
+    workflowTitle: 'Release',
+    status,
+    inputVariables: {},
+    contextSnapshot: {},
+    result: null,
+    errorMessage: null,
+    startedAt: null,
+    completedAt: null,
+    executedBy: null,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    steps: steps as WorkflowExecutionStep[],
+  };
+}
+
+/** Serve the given states in order, one per poll */
+function fakeClient(states: WorkflowExecution[]) {
+  let polls = 0;
+  const client = { getWorkflowExecution: async () => states[Math.min(polls++, states.length - 1)] } as unknown as ThinkPromptApiClient;
+  return { client, polls: () => polls };
+}
+
+/** Record the delays the poller asks for and run them immediately */
+function recordDelays(t: TestContext): number[] {
+  const delays: number[] = [];
+  const realSetTimeout = globalThis.setTimeout;
+  t.mock.method(globalThis, 'setTimeout', (callback: () => void, ms: number) => {
+    delays.push(ms);
+    return realSetTimeout(callback, 0);
+  });
+  return delays;
+}
+
+describe('waitForWorkflowExecution', () => {
+  it('polls until the execution reaches a terminal status', async (t) => {
+    const delays = recordDelays(t);
+    const { client, polls } = fakeClient([execution('running'), execution('completed')]);
+    const result = await waitForWorkflowExecution(client, execution('pending'));
+    assert.equal(result.execution.status, 'completed');
+    assert.equal(result.timedOut, false);
+    assert.equal(polls(), 2);
+    assert.deepEqual(delays, [2000, 2000]);
+  });
+
+  it('clamps the poll interval so the execution endpoint is never polled in a tight loop', async (t) => {
+    const delays = recordDelays(t);
+    await waitForWorkflowExecution(fakeClient([execution('completed')]).client, execution('running'), { pollIntervalMs: 0 });
+    await waitForWorkflowExecution(fakeClient([execution('completed')]).client, execution('running'), { pollIntervalMs: Number.POSITIVE_INFINITY });
+    assert.deepEqual(delays, [MIN_POLL_INTERVAL_MS, MAX_POLL_INTERVAL_MS]);
+  });
+
+  it('returns the last known state when the timeout elapses', async () => {
+    const { client, polls } = fakeClient([execution('running')]);
+    const result = await waitForWorkflowExecution(client, execution('running'), { timeoutMs: -1 });
+    assert.deepEqual([result.execution.status, result.timedOut, polls()], ['running', true, 0]);
+  });
+
+  it('reports each step once per status change, in step order', async (t) => {
+    recordDelays(t);
+    const updates: string[] = [];
+    const { client } = fakeClient([
+      execution('running', [{ id: 'b', stepNumber: 2, status: 'pending' }, { id: 'a', stepNumber: 1, status: 'completed' }]),
+      execution('completed', [{ id: 'a', stepNumber: 1, status: 'completed' }, { id: 'b', stepNumber: 2, status: 'completed' }]),
+    ]);
+    await waitForWorkflowExecution(client, execution('pending', [{ id: 'a', stepNumber: 1, status: 'running' }]), {
+      onStepUpdate: (step) => { updates.push(`${step.id}:${step.status}`); },
+    });
+    assert.deepEqual(updates, ['a:running', 'a:completed', 'b:pending', 'b:completed']);
+  });
+});
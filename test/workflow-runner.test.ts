@@ -0,0 +1,133 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { Workflow, WorkflowStep } from '../src/api-client.js';
+import { evaluateSimpleCondition, runWorkflowLocally } from '../src/workflow-runner.js';
+import type { WorkflowRunnerApi } from '../src/workflow-runner.js';
+
+function step(stepNumber: number, overrides: Partial<WorkflowStep> = {}): WorkflowStep {
+  return {
+    id: `step-${stepNumber}`,
+    stepNumber,
+    title: `Step ${stepNumber}`,
+    description: null,
+    actionType: 'custom',
+    actionConfig: {},
+    condition: null,
+    conditionType: null,
+    timeoutMs: null,
+    onError: 'fail',
+    ...overrides,
+  };
+}
+
+function workflow(steps: WorkflowStep[], resources: Workflow['resources'] = []): Workflow {
+  return {
+    id: 'wf',
+    title: 'Release',
+    description: null,
+    customInstructions: null,
+    category: null,
+    isPublic: false,
+    isArchived: false,
+    status: 'active',
+    version: 1,
+    usageCount: 0,
+    lastUsedAt: null,
+    resources,
+    steps,
+    createdBy: null,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+const api = {
+  getStyleGuide: async (id: string) => ({ id, title: 'Release notes', content: 'Write notes for {{version}}.', variables: [] }),
+  getTemplate: async (id: string) => ({ id, title: 'Checklist', content: '- [ ] Tag {{version}}' }),
+} as unknown as WorkflowRunnerApi;
+
+describe('evaluateSimpleCondition', () => {
+  const context = { env: 'prod', retries: 2, tags: ['a', 'b'], empty: [], steps: { 1: { status: 'completed' } } };
+
+  it('compares placeholders, bare paths and literals', () => {
+    assert.equal(evaluateSimpleCondition("{{env}} == 'prod' && retries < 3", context), true);
+    assert.equal(evaluateSimpleCondition('retries >= 3 || steps.1.status == "completed"', context), true);
+    assert.equal(evaluateSimpleCondition("tags contains 'b'", context), true);
+    assert.equal(evaluateSimpleCondition('retries == "2"', context), true);
+  });
+
+  it('treats empty arrays as false and supports negation', () => {
+    assert.equal(evaluateSimpleCondition('empty', context), false);
+    assert.equal(evaluateSimpleCondition('!empty && !missing', context), true);
+  });
+
+  it('rejects empty and unparsable conditions', () => {
+    assert.throws(() => evaluateSimpleCondition('  ', context), /Empty condition/);
+    assert.throws(() => evaluateSimpleCondition('a b', context), /Cannot parse condition operand/);
+  });
+});
+
+describe('runWorkflowLocally', () => {
+  it('runs steps in stepNumber order and returns host instructions for prompts', async () => {
+    const run = await runWorkflowLocally(workflow([
+      step(2, { actionType: 'load_template', actionConfig: { templateAlias: 'checklist' } }),
+      step(1, { actionType: 'execute_prompt', actionConfig: { promptId: 'sg-1' } }),
+    ], [{ id: 'r1', resourceType: 'template', resourceId: 'tpl-1', alias: 'checklist', config: {}, sortOrder: 0 }]), api, { variables: { version: '1.2.0' } });
+
+    assert.deepEqual(run.steps.map((s) => [s.stepNumber, s.status]), [[1, 'pending'], [2, 'completed']]);
+    assert.equal(run.status, 'pending');
+    assert.deepEqual(run.hostInstructions.map((i) => [i.kind, i.prompt]), [['execute_prompt', 'Write notes for 1.2.0.']]);
+    assert.deepEqual(run.steps[1].outputResult, { templateId: 'tpl-1', title: 'Checklist', content: '- [ ] Tag 1.2.0' });
+  });
+
+  it('skips steps whose simple condition is false and passes earlier results to later conditions', async () => {
+    const run = await runWorkflowLocally(workflow([
+      step(1, { actionType: 'load_template', actionConfig: { templateId: 'tpl-1' } }),
+      step(2, { condition: "{{env}} == 'prod'", conditionType: 'simple' }),
+      step(3, { condition: "steps.1.status == 'completed'", conditionType: 'simple', actionType: 'create_task', actionConfig: { title: 'Ship {{version}}' } }),
+    ]), api, { variables: { env: 'staging', version: '2.0' } });
+
+    assert.deepEqual(run.steps.map((s) => [s.status, s.conditionResult]), [['completed', null], ['skipped', false], ['pending', true]]);
+    assert.deepEqual(run.hostInstructions.at(-1)?.payload, { projectId: undefined, featureId: undefined, title: 'Ship 2.0', description: undefined });
+  });
+
+  it('creates tasks through the API when it can', async () => {
+    const created: unknown[] = [];
+    const run = await runWorkflowLocally(workflow([step(1, { actionType: 'create_task', actionConfig: { title: 'Ship' } })]), {
+      ...api,
+      createTask: async (input) => {
+        created.push(input);
+        return { id: 'task-1' };
+      },
+    });
+    assert.equal(run.status, 'completed');
+    assert.deepEqual(run.steps[0].outputResult, { id: 'task-1' });
+    assert.equal(created.length, 1);
+  });
+
+  it('stops at a failing step unless onError allows it', async () => {
+    const failing = { actionType: 'execute_prompt' as const, actionConfig: { promptAlias: 'missing' } };
+    const stopped = await runWorkflowLocally(workflow([step(1, failing), step(2)]), api);
+    assert.equal(stopped.status, 'failed');
+    assert.equal(stopped.steps.length, 1);
+    assert.match(stopped.errorMessage ?? '', /Step 1 "Step 1" failed: Unknown prompt alias "missing"/);
+
+    const skipped = await runWorkflowLocally(workflow([step(1, { ...failing, onError: 'skip' }), step(2, { ...failing, onError: 'continue' }), step(3)]), api);
+    assert.deepEqual(skipped.steps.map((s) => s.status), ['skipped', 'failed', 'pending']);
+    assert.equal(skipped.status, 'pending');
+  });
+
+  it('fails steps that exceed their timeout', async () => {
+    const slow = { ...api, getTemplate: () => new Promise<never>(() => {}) } as unknown as WorkflowRunnerApi;
+    const run = await runWorkflowLocally(workflow([step(1, { actionType: 'load_template', actionConfig: { templateId: 'tpl-1' }, timeoutMs: 20 })]), slow);
+    assert.equal(run.status, 'failed');
+    assert.equal(run.steps[0].errorMessage, 'Step timed out after 20ms');
+  });
+
+  it('leaves AI conditions to the host', async () => {
+    const run = await runWorkflowLocally(workflow([step(1, { condition: 'Only if the release is risky', conditionType: 'ai' })]), api);
+    assert.deepEqual(run.hostInstructions.map((i) => [i.kind, i.condition]), [['evaluate_condition', 'Only if the release is risky']]);
+    assert.equal(run.steps[0].outputResult, null);
+  });
+});